@@ -10,20 +10,31 @@ import {
     generateVideo,
     ReferenceImage 
 } from './services/geminiService';
-import { useAppContext, GenerationMetadata, HistoryItem } from './state/AppContext';
+import { embedMetadataInImage, embedMetadataInVideo, embedTagsInImage, extractMetadataFromImage, getFileExtension } from './services/metadataService';
+import { isVideoMetadata, METADATA_SCHEMA_VERSION, migrateMetadata } from './services/metadataSchema';
+import { verifyMetadataSignature } from './services/signatureService';
+import { createWatermarkId, decodeWatermark, findWatermarkedMetadata, formatWatermarkId, lookupWatermark, registerWatermark, unregisterWatermarks } from './services/watermark';
+import { deleteHistoryImages, getHistoryImageSizes, loadHistoryImages, saveHistoryImages } from './services/historyStore';
+import { requestPersistentStorage, selectItemsToEvict, selectTrashToPurge } from './services/storageManager';
+import { saveHistoryThumbnail } from './services/thumbnail';
+import { hashHistoryImages } from './services/duplicateDetection';
+import { getExpiredTrash } from './services/historyTrash';
+import { addImageVersion, getHistoryItemStorageKeys, getImageMetadata, getImageVersions, stepVersionHistory } from './services/versionTree';
+import { useAppContext, GenerationMetadata, HistoryItem, LineageStep } from './state/AppContext';
 import ImageGeneratorForm from './components/ImageGeneratorForm';
 import VideoGeneratorForm from './components/VideoGeneratorForm';
 import ResultsViewer from './components/ResultsViewer';
 import PromptExtractor from './components/PromptExtractor';
+import BulkExtractor from './components/BulkExtractor';
+import MetadataCompare from './components/MetadataCompare';
 import GenerationHistory from './components/GenerationHistory';
+import HistoryArchiveControls from './components/HistoryArchiveControls';
+import HistoryTrash from './components/HistoryTrash';
 import MetadataViewer from './components/MetadataViewer';
 import Settings from './components/Settings';
 import ApiKeyDialog from './components/ApiKeyDialog';
 import LoaderIcon from './components/ui/LoaderIcon';
 
-// To inform TypeScript about the global piexif object from the CDN script
-declare const piexif: any;
-
 // To inform TypeScript about the aistudio global
 // FIX: To resolve the type conflict, the AIStudio interface and the augmentation of the Window interface are both placed within the `declare global` block. This ensures that AIStudio is correctly treated as a global type.
 declare global {
@@ -36,60 +47,22 @@ declare global {
     }
 }
 
-// Using ImageDescription (270) which is more reliable for string data than UserComment (37510).
-const EXIF_PROMPT_TAG = 270; // Corresponds to piexif.ImageIFD.ImageDescription
-
 // --- Helper Functions ---
 
-const embedMetadataInImage = (base64Image: string, mimeType: string, metadata: GenerationMetadata): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return reject(new Error('Could not get canvas context'));
-      ctx.drawImage(img, 0, 0);
-
-      const jpegDataUrl = canvas.toDataURL('image/jpeg');
-
-      try {
-        const zeroth: any = {};
-        zeroth[EXIF_PROMPT_TAG] = JSON.stringify(metadata);
-        const exifObj = { "0th": zeroth, "Exif": {}, "GPS": {} };
-        const exifBytes = piexif.dump(exifObj);
-        
-        const newJpegDataUrl = piexif.insert(exifBytes, jpegDataUrl);
-        resolve(newJpegDataUrl);
-      } catch (e) {
-        console.error("Error embedding EXIF data:", e);
-        resolve(jpegDataUrl);
-      }
-    };
-    img.onerror = () => reject(new Error('Failed to load image for metadata embedding.'));
-    img.src = `data:${mimeType};base64,${base64Image}`;
-  });
-};
-
-const extractMetadataFromImage = (imageDataUrl: string): GenerationMetadata | string | null => {
+// A failed save (e.g. storage quota) shouldn't throw away a finished generation; the images are
+// still shown, the history item just can't be reopened later.
+const saveImagesToHistory = async (historyId: string, images: string[]): Promise<{ imageKeys: string[]; thumbnailKey?: string; imageHashes?: Record<string, string>; saveError: string | null }> => {
   try {
-    const exifObj = piexif.load(imageDataUrl);
-    const metadataString = exifObj['0th']?.[EXIF_PROMPT_TAG];
-    if (metadataString && typeof metadataString === 'string') {
-        try {
-            const metadata: GenerationMetadata = JSON.parse(metadataString);
-            if (metadata.model && metadata.prompt) {
-                return metadata;
-            }
-        } catch (e) {
-            return metadataString;
-        }
-    }
-    return null;
-  } catch (e) {
-    console.warn("Could not read EXIF data:", e);
-    return null;
+    const imageKeys = await saveHistoryImages(historyId, images);
+    return {
+      imageKeys,
+      thumbnailKey: await saveHistoryThumbnail(historyId, images[0]),
+      imageHashes: await hashHistoryImages(imageKeys, images),
+      saveError: null,
+    };
+  } catch (error: any) {
+    console.warn('Could not save images to history', error);
+    return { imageKeys: [], saveError: `The images could not be saved to history: ${error?.message || 'unknown error'}` };
   }
 };
 
@@ -116,6 +89,18 @@ const downloadImage = async (dataUrl: string, filename: string) => {
   }
 };
 
+// Returns a registered watermark ID when watermarking is enabled, so the image can be traced back to its history item.
+const nextWatermarkId = (enabled: boolean, historyId: string): number | undefined => {
+  if (!enabled) return undefined;
+  const id = createWatermarkId();
+  return registerWatermark(id, historyId) ? id : undefined;
+};
+
+const appendLineageStep = (metadata: GenerationMetadata, step: LineageStep): LineageStep[] => {
+  const lineage = metadata.lineage ?? [{ operation: 'generate', prompt: metadata.prompt, model: metadata.model as ImageModel }];
+  return [...lineage, step];
+};
+
 // --- Masking Editor Component ---
 interface MaskingEditorProps {
   imageSrc: string;
@@ -412,6 +397,7 @@ const App: React.FC = () => {
   const { state, dispatch } = useAppContext();
   const { view, mobileView, error, model, selectedImageIndex, activeHistoryId, activeBatchHistoryIds, generationHistory, refinementPrompt, generatedImages, generatedVideoUrl, isNightMode, refinementCreativeStrength, refinementStyle, isRefining } = state;
   const [hasApiKey, setHasApiKey] = useState(false);
+  const [extractMode, setExtractMode] = useState<'single' | 'bulk' | 'compare'>('single');
 
   const checkApiKey = useCallback(async () => {
       if (window.aistudio) {
@@ -426,6 +412,50 @@ const App: React.FC = () => {
     checkApiKey();
   }, [checkApiKey]);
 
+  useEffect(() => {
+    requestPersistentStorage().catch(error => console.warn('Could not request persistent storage', error));
+  }, []);
+
+  // A new newest history item means a generation just succeeded (or an import added newer items), so apply the eviction policy.
+  const newestHistoryId = generationHistory[0]?.id;
+  const lastEvictionCheckIdRef = useRef(newestHistoryId);
+  useEffect(() => {
+    if (!newestHistoryId || newestHistoryId === lastEvictionCheckIdRef.current) return;
+    lastEvictionCheckIdRef.current = newestHistoryId;
+
+    const applyEvictionPolicy = async () => {
+      const { evictionPolicy } = state;
+      const imageSizes = evictionPolicy.maxBytes !== null ? await getHistoryImageSizes() : null;
+      const protectedIds = new Set([activeHistoryId, ...(activeBatchHistoryIds ?? [])].filter((id): id is string => !!id));
+      const evicted = selectItemsToEvict(generationHistory, evictionPolicy, imageSizes, protectedIds);
+      // Evicted items go to the trash, so a too-low limit can still be undone.
+      if (evicted.length > 0) {
+        dispatch({ type: 'TRASH_HISTORY_ITEMS', payload: evicted.map(item => item.id) });
+      }
+      if (evictionPolicy.maxBytes === null || !imageSizes) return;
+
+      const evictedIds = new Set(evicted.map(item => item.id));
+      const deletedAt = Date.now();
+      const trash = [...evicted.map(item => ({ item, deletedAt })), ...state.trash];
+      const purged = selectTrashToPurge(trash, generationHistory.filter(item => !evictedIds.has(item.id)), evictionPolicy.maxBytes, imageSizes);
+      if (purged.length === 0) return;
+      dispatch({ type: 'PURGE_TRASHED_ITEMS', payload: purged.map(entry => entry.item.id) });
+      unregisterWatermarks(purged.map(entry => entry.item.id));
+      await deleteHistoryImages(purged.flatMap(entry => getHistoryItemStorageKeys(entry.item)));
+    };
+    applyEvictionPolicy().catch(error => console.warn('Could not apply the history eviction policy', error));
+  }, [newestHistoryId]);
+
+  // Items kept in the trash longer than the retention period are deleted for good.
+  useEffect(() => {
+    const expired = getExpiredTrash(state.trash, state.trashRetentionDays);
+    if (expired.length === 0) return;
+    dispatch({ type: 'PURGE_TRASHED_ITEMS', payload: expired.map(entry => entry.item.id) });
+    unregisterWatermarks(expired.map(entry => entry.item.id));
+    deleteHistoryImages(expired.flatMap(entry => getHistoryItemStorageKeys(entry.item)))
+      .catch(error => console.warn('Could not delete the images of expired trash items', error));
+  }, [state.trash, state.trashRetentionDays, dispatch]);
+
   const fetchExamplePrompts = useCallback(async () => {
       dispatch({ type: 'SET_FETCHING_EXAMPLES', payload: true });
       try {
@@ -483,12 +513,14 @@ const App: React.FC = () => {
         const filenameSlug = await summarizePromptForFilename(finalPromptForApi);
 
         const metadataToEmbed: GenerationMetadata = {
+            schemaVersion: METADATA_SCHEMA_VERSION,
             model: currentModel,
             prompt: finalPromptForApi,
             originalPrompt: originalPromptForMetadata,
             aspectRatio: currentModel === 'imagen-4.0-generate-001' ? currentAspectRatio : undefined,
             promptMode: state.promptMode,
             filenameSlug: filenameSlug,
+            lineage: [{ operation: 'generate', prompt: finalPromptForApi, model: currentModel, timestamp: Date.now() }],
         };
         
         const imagePartsForApi: ReferenceImage[] = state.referenceImages.map(dataUrl => {
@@ -503,24 +535,35 @@ const App: React.FC = () => {
             numberOfImages: numImages,
         });
 
+        const historyId = `hist-${Date.now()}`;
         const imagesWithMetadata = await Promise.all(
-            base64Images.map(base64Image => embedMetadataInImage(base64Image, 'image/png', metadataToEmbed))
+            base64Images.map(base64Image => embedMetadataInImage(base64Image, 'image/png', metadataToEmbed, {
+                outputFormat: state.outputFormat,
+                sign: state.signMetadata,
+                watermarkId: nextWatermarkId(state.watermarkImages, historyId),
+            }))
         );
         
+        const { imageKeys, thumbnailKey, imageHashes, saveError } = await saveImagesToHistory(historyId, imagesWithMetadata);
         const newHistoryItem: HistoryItem = {
-            id: `hist-${Date.now()}`,
-            images: imagesWithMetadata,
+            id: historyId,
+            imageKeys,
+            thumbnailKey,
+            imageHashes,
             timestamp: Date.now(),
             metadata: metadataToEmbed
         };
         
         dispatch({ type: 'GENERATION_SUCCESS', payload: { images: imagesWithMetadata, historyItem: newHistoryItem }});
+        if (saveError) {
+            dispatch({ type: 'SET_ERROR', payload: saveError });
+        }
 
     } catch (e: any) {
         dispatch({ type: 'SET_ERROR', payload: e.message || "An unknown error occurred." });
         dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.useWebSearch, state.referenceImages, dispatch, state.promptMode]);
+  }, [state.useWebSearch, state.referenceImages, dispatch, state.promptMode, state.outputFormat, state.signMetadata, state.watermarkImages]);
   
   const handleGenerateVideo = useCallback(async (prompt: string, resolution: '720p' | '1080p', aspectRatio: '16:9' | '9:16') => {
     dispatch({ type: 'START_GENERATION' });
@@ -529,7 +572,22 @@ const App: React.FC = () => {
         const videoStream = generateVideo(prompt, resolution, aspectRatio);
         for await (const result of videoStream) {
             if (result.videoUrl) {
-                dispatch({ type: 'VIDEO_GENERATION_SUCCESS', payload: result.videoUrl });
+                dispatch({ type: 'SET_LOADING_MESSAGE', payload: 'Embedding metadata...' });
+                const filenameSlug = await summarizePromptForFilename(prompt);
+                const metadata: GenerationMetadata = {
+                    schemaVersion: METADATA_SCHEMA_VERSION,
+                    model: 'veo-3.1-fast-generate-preview',
+                    prompt,
+                    aspectRatio,
+                    resolution,
+                    promptMode: 'text',
+                    filenameSlug,
+                };
+                const videoUrl = await embedMetadataInVideo(result.videoUrl, metadata);
+                if (videoUrl !== result.videoUrl) {
+                    URL.revokeObjectURL(result.videoUrl);
+                }
+                dispatch({ type: 'VIDEO_GENERATION_SUCCESS', payload: { videoUrl, metadata } });
             } else {
                 dispatch({ type: 'SET_LOADING_MESSAGE', payload: result.status });
             }
@@ -554,11 +612,13 @@ const App: React.FC = () => {
             const filenameSlug = await summarizePromptForFilename(suggestionPrompt);
 
             const metadataToEmbed: GenerationMetadata = {
+                schemaVersion: METADATA_SCHEMA_VERSION,
                 model: model,
                 prompt: suggestionPrompt,
                 aspectRatio: isImagen ? state.aspectRatio : undefined,
                 promptMode: 'text',
                 filenameSlug: filenameSlug,
+                lineage: [{ operation: 'generate', prompt: suggestionPrompt, model, timestamp: Date.now() }],
             };
 
             const base64Images = await generateImagesFromPrompt(suggestionPrompt, model, {
@@ -568,22 +628,37 @@ const App: React.FC = () => {
 
             if (!base64Images || base64Images.length === 0) return null;
 
-            const imageWithMetadata = await embedMetadataInImage(base64Images[0], 'image/png', metadataToEmbed);
+            const historyId = `hist-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+            const imageWithMetadata = await embedMetadataInImage(base64Images[0], 'image/png', metadataToEmbed, {
+                outputFormat: state.outputFormat,
+                sign: state.signMetadata,
+                watermarkId: nextWatermarkId(state.watermarkImages, historyId),
+            });
             
-            return {
-                id: `hist-${Date.now()}-${Math.random().toString(36).substring(7)}`,
-                images: [imageWithMetadata],
+            const { imageKeys, thumbnailKey, imageHashes, saveError } = await saveImagesToHistory(historyId, [imageWithMetadata]);
+            const historyItem: HistoryItem = {
+                id: historyId,
+                imageKeys,
+                thumbnailKey,
+                imageHashes,
                 timestamp: Date.now(),
                 metadata: metadataToEmbed,
             };
+            return { historyItem, image: imageWithMetadata, saveError };
         });
 
         const results = await Promise.all(generationPromises);
-        const newHistoryItems = results.filter((item): item is HistoryItem => item !== null);
+        const generated = results.filter((result): result is NonNullable<typeof result> => result !== null);
 
-        if (newHistoryItems.length > 0) {
-            const allGeneratedImages = newHistoryItems.flatMap(item => item.images);
-            dispatch({ type: 'BATCH_GENERATION_SUCCESS', payload: { images: allGeneratedImages, historyItems: newHistoryItems }});
+        if (generated.length > 0) {
+            dispatch({
+                type: 'BATCH_GENERATION_SUCCESS',
+                payload: { images: generated.map(result => result.image), historyItems: generated.map(result => result.historyItem) },
+            });
+            const saveError = generated.find(result => result.saveError)?.saveError;
+            if (saveError) {
+                dispatch({ type: 'SET_ERROR', payload: saveError });
+            }
         } else {
             throw new Error("All image generations in the batch failed.");
         }
@@ -592,7 +667,7 @@ const App: React.FC = () => {
         dispatch({ type: 'SET_ERROR', payload: e.message || "An unknown error occurred during batch generation." });
         dispatch({ type: 'SET_LOADING', payload: false });
     }
-}, [model, state.aspectRatio, dispatch]);
+}, [model, state.aspectRatio, state.outputFormat, state.signMetadata, state.watermarkImages, dispatch]);
   
   const handleRefine = useCallback(async () => {
     if (!generatedImages || refinementPrompt.trim() === '') return;
@@ -605,14 +680,6 @@ const App: React.FC = () => {
         return;
     }
     
-    dispatch({ 
-        type: 'SET_UNDO_STATE', 
-        payload: { 
-            image: generatedImages[selectedImageIndex], 
-            historyItem: activeHistoryItem, 
-            selectedImageIndex: selectedImageIndex 
-        } 
-    });
     dispatch({ type: 'SET_REFINING', payload: true });
     dispatch({ type: 'SET_ERROR', payload: null });
 
@@ -627,38 +694,47 @@ const App: React.FC = () => {
             style: refinementStyle,
         });
 
-        const isFromImagen = activeHistoryItem.metadata.model === 'imagen-4.0-generate-001';
-        
-        const refinementNote = isFromImagen
-          ? `\n\n---\n\nRefined (from Imagen) with Nano Banana: ${refinementPrompt}`
-          : `\n\n---\n\nRefinement: ${refinementPrompt}`;
-        
-        const newPromptForMetadata = activeHistoryItem.metadata.prompt + refinementNote;
-        const filenameSlug = await summarizePromptForFilename(newPromptForMetadata);
+        const refinementStep: LineageStep = {
+          operation: 'refine',
+          prompt: refinementPrompt,
+          model: 'gemini-2.5-flash-image',
+          timestamp: Date.now(),
+          creativeStrength: refinementCreativeStrength,
+          ...(refinementStyle.trim() ? { style: refinementStyle.trim() } : {}),
+        };
+        const imageIndex = activeBatchHistoryIds ? 0 : selectedImageIndex;
+        const sourceMetadata = getImageMetadata(activeHistoryItem, imageIndex);
+        const filenameSlug = await summarizePromptForFilename(`${sourceMetadata.prompt}\n\n${refinementPrompt}`);
         
+        // The prompt stays the original generation prompt; each refinement is recorded as a lineage step.
         const newMetadata: GenerationMetadata = {
-          ...activeHistoryItem.metadata,
-          prompt: newPromptForMetadata,
+          ...sourceMetadata,
+          schemaVersion: METADATA_SCHEMA_VERSION,
           filenameSlug,
           model: 'gemini-2.5-flash-image', // The refined image is always a product of Nano Banana.
+          lineage: appendLineageStep(sourceMetadata, refinementStep),
         };
 
-        const refinedImageWithMetadata = await embedMetadataInImage(refinedBase64, 'image/png', newMetadata);
+        const refinedImageWithMetadata = await embedMetadataInImage(refinedBase64, 'image/png', newMetadata, {
+            outputFormat: state.outputFormat,
+            sign: state.signMetadata,
+            watermarkId: nextWatermarkId(state.watermarkImages, activeHistoryItem.id),
+        });
         
-        const updatedHistoryImages = activeBatchHistoryIds
-            ? [refinedImageWithMetadata]
-            : activeHistoryItem.images.map((img, index) =>
-                index === selectedImageIndex ? refinedImageWithMetadata : img
-              );
+        // Stored under a new key; the previous image stays in the item's version tree.
+        const [refinedImageKey] = await saveHistoryImages(activeHistoryItem.id, [refinedImageWithMetadata]);
 
-        const newHistoryItem = { ...activeHistoryItem, images: updatedHistoryImages, metadata: newMetadata };
+        // The thumbnail shows the first image, so only versions of that one need their own.
+        const thumbnailKey = imageIndex === 0 ? await saveHistoryThumbnail(activeHistoryItem.id, refinedImageWithMetadata) : undefined;
+        const imageHashes = { ...activeHistoryItem.imageHashes, ...await hashHistoryImages([refinedImageKey], [refinedImageWithMetadata]) };
+        const newHistoryItem = addImageVersion({ ...activeHistoryItem, imageHashes }, imageIndex, { imageKey: refinedImageKey, thumbnailKey, metadata: newMetadata });
 
         dispatch({ type: 'REFINEMENT_SUCCESS', payload: { newImage: refinedImageWithMetadata, newHistoryItem } });
     } catch (e: any) {
         dispatch({ type: 'SET_ERROR', payload: e.message || "An unknown error occurred during refinement." });
         dispatch({ type: 'SET_REFINING', payload: false });
     }
-  }, [generatedImages, activeHistoryId, activeBatchHistoryIds, refinementPrompt, selectedImageIndex, generationHistory, dispatch, refinementCreativeStrength, refinementStyle]);
+  }, [generatedImages, activeHistoryId, activeBatchHistoryIds, refinementPrompt, selectedImageIndex, generationHistory, dispatch, refinementCreativeStrength, refinementStyle, state.outputFormat, state.signMetadata, state.watermarkImages]);
 
   const handleRefineWithMask = useCallback(async (promptFromModal: string, mask: ReferenceImage) => {
     if (!generatedImages) return;
@@ -671,14 +747,6 @@ const App: React.FC = () => {
         return;
     }
     
-    dispatch({ 
-        type: 'SET_UNDO_STATE', 
-        payload: { 
-            image: generatedImages[selectedImageIndex], 
-            historyItem: activeHistoryItem, 
-            selectedImageIndex: selectedImageIndex 
-        } 
-    });
     dispatch({ type: 'SET_REFINING', payload: true });
     dispatch({ type: 'SET_ERROR', payload: null });
 
@@ -695,51 +763,126 @@ const App: React.FC = () => {
             mask
         );
         
-        const isFromImagen = activeHistoryItem.metadata.model === 'imagen-4.0-generate-001';
-        
-        const refinementNote = isFromImagen
-          ? `\n\n---\n\nRefined (from Imagen, Masked) with Nano Banana: ${promptFromModal}`
-          : `\n\n---\n\nRefinement (Masked): ${promptFromModal}`;
-        
-        const newPromptForMetadata = activeHistoryItem.metadata.prompt + refinementNote;
-        const filenameSlug = await summarizePromptForFilename(newPromptForMetadata);
+        const refinementStep: LineageStep = {
+          operation: 'masked-refine',
+          prompt: promptFromModal,
+          model: 'gemini-2.5-flash-image',
+          timestamp: Date.now(),
+        };
+        const imageIndex = activeBatchHistoryIds ? 0 : selectedImageIndex;
+        const sourceMetadata = getImageMetadata(activeHistoryItem, imageIndex);
+        const filenameSlug = await summarizePromptForFilename(`${sourceMetadata.prompt}\n\n${promptFromModal}`);
         
         const newMetadata: GenerationMetadata = {
-          ...activeHistoryItem.metadata,
-          prompt: newPromptForMetadata,
+          ...sourceMetadata,
+          schemaVersion: METADATA_SCHEMA_VERSION,
           filenameSlug,
           model: 'gemini-2.5-flash-image', // The refined image is always a product of Nano Banana.
+          lineage: appendLineageStep(sourceMetadata, refinementStep),
         };
 
-        const refinedImageWithMetadata = await embedMetadataInImage(refinedBase64, 'image/png', newMetadata);
+        const refinedImageWithMetadata = await embedMetadataInImage(refinedBase64, 'image/png', newMetadata, {
+            outputFormat: state.outputFormat,
+            sign: state.signMetadata,
+            watermarkId: nextWatermarkId(state.watermarkImages, activeHistoryItem.id),
+        });
         
-        const updatedHistoryImages = activeBatchHistoryIds
-            ? [refinedImageWithMetadata]
-            : activeHistoryItem.images.map((img, index) =>
-                index === selectedImageIndex ? refinedImageWithMetadata : img
-              );
+        // Stored under a new key; the previous image stays in the item's version tree.
+        const [refinedImageKey] = await saveHistoryImages(activeHistoryItem.id, [refinedImageWithMetadata]);
 
-        const newHistoryItem = { ...activeHistoryItem, images: updatedHistoryImages, metadata: newMetadata };
+        // The thumbnail shows the first image, so only versions of that one need their own.
+        const thumbnailKey = imageIndex === 0 ? await saveHistoryThumbnail(activeHistoryItem.id, refinedImageWithMetadata) : undefined;
+        const imageHashes = { ...activeHistoryItem.imageHashes, ...await hashHistoryImages([refinedImageKey], [refinedImageWithMetadata]) };
+        const newHistoryItem = addImageVersion({ ...activeHistoryItem, imageHashes }, imageIndex, { imageKey: refinedImageKey, thumbnailKey, metadata: newMetadata });
 
         dispatch({ type: 'REFINEMENT_SUCCESS', payload: { newImage: refinedImageWithMetadata, newHistoryItem } });
     } catch (e: any) {
         dispatch({ type: 'SET_ERROR', payload: e.message || "An unknown error occurred during masked refinement." });
         dispatch({ type: 'SET_REFINING', payload: false });
     }
-  }, [generatedImages, activeHistoryId, activeBatchHistoryIds, selectedImageIndex, generationHistory, dispatch]);
+  }, [generatedImages, activeHistoryId, activeBatchHistoryIds, selectedImageIndex, generationHistory, dispatch, state.outputFormat, state.signMetadata, state.watermarkImages]);
 
-  const handleUndo = useCallback(() => {
-    dispatch({ type: 'EXECUTE_UNDO' });
-  }, [dispatch]);
+  const handleStepVersionHistory = useCallback(async (direction: 'undo' | 'redo') => {
+    const historyIdToUse = activeBatchHistoryIds ? activeBatchHistoryIds[selectedImageIndex] : activeHistoryId;
+    const activeHistoryItem = generationHistory.find(h => h.id === historyIdToUse);
+    const step = activeHistoryItem && stepVersionHistory(activeHistoryItem, state.versionUndoStacks[activeHistoryItem.id], direction);
+    const version = step && getImageVersions(activeHistoryItem).find(v => v.id === step.change.versionId);
+    if (!activeHistoryItem || !step || !version) return;
+    try {
+      const [image] = await loadHistoryImages([version.imageKey]);
+      const generatedImageIndex = activeBatchHistoryIds ? selectedImageIndex : version.imageIndex;
+      dispatch({ type: 'STEP_VERSION_HISTORY', payload: { historyId: activeHistoryItem.id, direction, versionId: version.id, image, generatedImageIndex } });
+    } catch (e: any) {
+      dispatch({ type: 'SET_ERROR', payload: e.message || `Could not ${direction} the refinement.` });
+    }
+  }, [activeHistoryId, activeBatchHistoryIds, selectedImageIndex, generationHistory, state.versionUndoStacks, dispatch]);
+
+  const handleUndo = useCallback(() => handleStepVersionHistory('undo'), [handleStepVersionHistory]);
+  const handleRedo = useCallback(() => handleStepVersionHistory('redo'), [handleStepVersionHistory]);
+
+  // Ctrl/Cmd+Z undoes a refinement and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it, unless a text field has focus.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || view !== 'generate' || !generatedImages || isRefining || state.isMaskingModalOpen) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [view, generatedImages, isRefining, state.isMaskingModalOpen, handleUndo, handleRedo]);
+
+  const handleSelectVersion = useCallback(async (versionId: string) => {
+    const historyIdToUse = activeBatchHistoryIds ? activeBatchHistoryIds[selectedImageIndex] : activeHistoryId;
+    const activeHistoryItem = generationHistory.find(h => h.id === historyIdToUse);
+    const version = activeHistoryItem && getImageVersions(activeHistoryItem).find(v => v.id === versionId);
+    if (!activeHistoryItem || !version) return;
+    try {
+      const [image] = await loadHistoryImages([version.imageKey]);
+      const generatedImageIndex = activeBatchHistoryIds ? selectedImageIndex : version.imageIndex;
+      dispatch({ type: 'SELECT_IMAGE_VERSION', payload: { historyId: activeHistoryItem.id, versionId, image, generatedImageIndex } });
+    } catch (e: any) {
+      dispatch({ type: 'SET_ERROR', payload: e.message || "Could not load this version of the image." });
+    }
+  }, [activeHistoryId, activeBatchHistoryIds, selectedImageIndex, generationHistory, dispatch]);
 
-  const handleSelectHistoryItem = useCallback((item: HistoryItem) => {
-    dispatch({ type: 'SET_HISTORY_ITEM', payload: item });
-    window.scrollTo({ top: 0, behavior: 'smooth' });
+  const handleSelectHistoryItem = useCallback(async (item: HistoryItem) => {
+    if (item.imageKeys.length === 0) {
+      dispatch({ type: 'SET_ERROR', payload: "The images of this history item were not saved." });
+      return;
+    }
+    try {
+      const images = await loadHistoryImages(item.imageKeys);
+      dispatch({ type: 'SET_HISTORY_ITEM', payload: { item, images } });
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (e: any) {
+      dispatch({ type: 'SET_ERROR', payload: e.message || "Could not load the images of this history item." });
+    }
   }, [dispatch]);
 
   const handleUseExtractedPrompt = useCallback(() => {
-    if (state.extractedMetadata && state.isPromptValid) {
-      const { model, prompt, aspectRatio } = state.extractedMetadata;
+    if (state.extractedMetadata && state.isPromptValid && isVideoMetadata(state.extractedMetadata)) {
+      const { prompt, aspectRatio, resolution } = state.extractedMetadata;
+      dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'videoPrompt', value: prompt }});
+      if (aspectRatio === '16:9' || aspectRatio === '9:16') {
+        dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'videoAspectRatio', value: aspectRatio }});
+      }
+      if (resolution) {
+        dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'videoResolution', value: resolution }});
+      }
+      dispatch({ type: 'SET_VIEW', payload: 'video' });
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } else if (state.extractedMetadata && state.isPromptValid) {
+      const { prompt, aspectRatio, lineage } = state.extractedMetadata;
+      // Reuse the model that generated the original prompt, not the one that made the last refinement.
+      const model = lineage?.[0]?.model ?? state.extractedMetadata.model;
       dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'model', value: model }});
       dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'aspectRatio', value: aspectRatio || '1:1' }});
       dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'prompt', value: prompt }});
@@ -765,32 +908,67 @@ const App: React.FC = () => {
         const dataUrl = e.target?.result as string;
         if (!dataUrl) { dispatch({ type: 'SET_ERROR', payload: "Could not read file data." }); return; }
 
-        const foundMetadata = extractMetadataFromImage(dataUrl);
+        const result = extractMetadataFromImage(dataUrl);
         let metadata: GenerationMetadata | null = null;
-        let message = "Could not find embedded metadata in this image's EXIF data.";
+        let message = "Could not find embedded metadata in this image's EXIF, XMP or PNG text chunks.";
         let isValid = false;
 
-        if (typeof foundMetadata === 'object' && foundMetadata !== null) {
-            metadata = foundMetadata;
-            isValid = true;
-            message = "Successfully extracted generation metadata.";
-        } else if (typeof foundMetadata === 'string') {
-            try {
-                JSON.parse(foundMetadata);
-                metadata = { model: 'gemini-2.5-flash-image', prompt: foundMetadata };
-                isValid = true;
-                message = "Found a legacy prompt and assumed it's for the Nano Banana model.";
-            } catch {
-                metadata = { model: 'gemini-2.5-flash-image', prompt: foundMetadata };
-                isValid = false;
-                message = "An embedded prompt was found, but it is not valid JSON.";
+        if (result) {
+            metadata = result.metadata;
+            isValid = metadata !== null && result.errors.length === 0;
+            if (result.errors.length > 0) {
+                message = `Embedded metadata was found but is invalid: ${result.errors.map(error => `${error.field}: ${error.message}`).join(' ')}`;
+            } else if (result.sourceVersion === 'legacy-string' || result.sourceVersion === 'legacy-array') {
+                message = "Found a legacy prompt and upgraded it to the current metadata format.";
+            } else if (metadata?.source) {
+                message = `Imported the prompt from ${metadata.source.generator === 'comfyui' ? 'ComfyUI' : 'Automatic1111'} metadata.`;
+            } else if (result.wasMigrated) {
+                message = `Successfully extracted generation metadata (upgraded from schema version ${result.sourceVersion}).`;
+            } else {
+                message = "Successfully extracted generation metadata.";
             }
         }
         dispatch({ type: 'EXTRACTION_RESULT', payload: { dataUrl, metadata, message, isValid } });
+
+        if (metadata) {
+            // Signatures cover the payload as it was written, before any schema upgrade.
+            const signedMetadata = result?.wasMigrated ? result.original as GenerationMetadata : metadata;
+            verifyMetadataSignature(signedMetadata, dataUrl)
+                .then(verification => dispatch({ type: 'SET_SIGNATURE_VERIFICATION', payload: verification }));
+        } else if (!result && !dataUrl.startsWith('data:video/')) {
+            // The metadata may have been stripped in transit; look for one of our watermarks instead.
+            decodeWatermark(dataUrl)
+                .then(watermarkId => {
+                    if (watermarkId === null) return;
+                    const entry = lookupWatermark(watermarkId);
+                    const storedMetadata = entry ? findWatermarkedMetadata(entry, [...generationHistory, ...state.trash.map(({ item }) => item)]) : null;
+                    const recovered = storedMetadata ? migrateMetadata(storedMetadata) : null;
+                    if (!entry || !recovered?.metadata) {
+                        const notFound = entry
+                            ? `Found invisible watermark ${formatWatermarkId(watermarkId)}, but its history item has been deleted.`
+                            : `Found invisible watermark ${formatWatermarkId(watermarkId)}, but it is not in this browser's watermark registry.`;
+                        dispatch({ type: 'EXTRACTION_RESULT', payload: { dataUrl, metadata: null, message: notFound, isValid: false } });
+                        return;
+                    }
+                    const historyNote = generationHistory.some(item => item.id === entry.historyId) ? ' It is still in your generation history.' : ' It is in the trash.';
+                    dispatch({
+                        type: 'EXTRACTION_RESULT',
+                        payload: {
+                            dataUrl,
+                            metadata: recovered.metadata,
+                            message: `Metadata was stripped, but it was recovered from invisible watermark ${formatWatermarkId(watermarkId)}.${historyNote}`,
+                            isValid: recovered.errors.length === 0,
+                        },
+                    });
+                    // Pixels and metadata no longer come from the signed file, so there is nothing to verify.
+                    dispatch({ type: 'SET_SIGNATURE_VERIFICATION', payload: { status: 'unsigned', isOwnKey: false } });
+                })
+                .catch(error => console.warn("Could not decode watermark:", error));
+        }
     };
     reader.onerror = () => { dispatch({ type: 'SET_ERROR', payload: "Error reading file." }); }
     reader.readAsDataURL(file);
-  }, [dispatch]);
+  }, [dispatch, generationHistory, state.trash]);
   
   const handleDescribeImage = useCallback(async () => {
     if (!state.imagePreview) return;
@@ -808,7 +986,7 @@ const App: React.FC = () => {
         }
         
         const filenameSlug = await summarizePromptForFilename(description);
-        const newMetadata: GenerationMetadata = { model: 'gemini-2.5-flash-image', prompt: description, promptMode: 'text', filenameSlug };
+        const newMetadata: GenerationMetadata = { schemaVersion: METADATA_SCHEMA_VERSION, model: 'gemini-2.5-flash-image', prompt: description, promptMode: 'text', filenameSlug };
         dispatch({ type: 'DESCRIPTION_SUCCESS', payload: { metadata: newMetadata, message: "AI-generated description created!" } });
     } catch (e: any) {
         dispatch({ type: 'SET_ERROR', payload: e.message || "Failed to generate description." });
@@ -826,11 +1004,14 @@ const App: React.FC = () => {
         const [meta, data] = state.imagePreview.split(',');
         const mimeType = meta.match(/:(.*?);/)?.[1] || 'image/jpeg';
 
-        const imageWithMetadata = await embedMetadataInImage(data, mimeType, state.extractedMetadata);
+        const imageWithMetadata = await embedMetadataInImage(data, mimeType, state.extractedMetadata, {
+            sign: state.signMetadata,
+            exifPreservation: state.exifPreservation,
+        });
         
         await downloadImage(
           imageWithMetadata,
-          `${state.extractedMetadata.filenameSlug || 'described-image'}.jpg`
+          `${state.extractedMetadata.filenameSlug || 'described-image'}.${getFileExtension(imageWithMetadata)}`
         );
         
     } catch (e: any) {
@@ -838,7 +1019,7 @@ const App: React.FC = () => {
     } finally {
         dispatch({ type: 'SET_EMBEDDING', payload: false });
     }
-  }, [state.imagePreview, state.extractedMetadata, dispatch]);
+  }, [state.imagePreview, state.extractedMetadata, state.signMetadata, state.exifPreservation, dispatch]);
   
   const handleDownloadSingleImage = useCallback(async (index: number) => {
     if (!state.generatedImages) return;
@@ -846,10 +1027,14 @@ const App: React.FC = () => {
     const historyId = state.activeBatchHistoryIds ? state.activeBatchHistoryIds[index] : state.activeHistoryId;
     const activeItem = state.generationHistory.find(h => h.id === historyId);
     const filename = activeItem?.metadata.filenameSlug || `generated-image-${activeItem?.id || index}`;
-    const imageUrl = state.generatedImages[index];
+    let imageUrl = state.generatedImages[index];
+    if (state.embedTagsOnDownload && activeItem?.tags && activeItem.tags.length > 0) {
+      const metadata = getImageMetadata(activeItem, state.activeBatchHistoryIds ? 0 : index);
+      imageUrl = await embedTagsInImage(imageUrl, metadata, activeItem.tags, state.signMetadata);
+    }
     
-    await downloadImage(imageUrl, `${filename}.jpg`);
-  }, [state.generatedImages, state.activeBatchHistoryIds, state.activeHistoryId, state.generationHistory]);
+    await downloadImage(imageUrl, `${filename}.${getFileExtension(imageUrl)}`);
+  }, [state.generatedImages, state.activeBatchHistoryIds, state.activeHistoryId, state.generationHistory, state.embedTagsOnDownload, state.signMetadata]);
 
   const handleApiKeySelected = () => {
       setHasApiKey(true);
@@ -916,13 +1101,15 @@ const App: React.FC = () => {
                   </div>
                 </div>
                 <div className={`lg:col-span-3 mt-8 lg:mt-0 ${mobileView === 'form' ? 'hidden' : 'block'} lg:block`}>
-                  {hasResults && <ResultsViewer onRefine={handleRefine} onUndo={handleUndo} onDownloadImage={handleDownloadSingleImage} />}
+                  {hasResults && <ResultsViewer onRefine={handleRefine} onUndo={handleUndo} onRedo={handleRedo} onDownloadImage={handleDownloadSingleImage} onSelectVersion={handleSelectVersion} />}
                   {hasHistory && <GenerationHistory onSelectItem={handleSelectHistoryItem} />}
                   {!hasResults && !hasHistory && (
-                      <div className="h-full flex items-center justify-center text-center text-slate-500 bg-white/70 dark:bg-slate-900/70 rounded-xl p-8 min-h-[400px] lg:min-h-0">
+                      <div className="h-full flex flex-col gap-4 items-center justify-center text-center text-slate-500 bg-white/70 dark:bg-slate-900/70 rounded-xl p-8 min-h-[400px] lg:min-h-0">
                          <p>Your generated content and history will appear here.</p>
+                         <HistoryArchiveControls exportItems={[]} />
                       </div>
                   )}
+                  <HistoryTrash />
                 </div>
               </>
           )}
@@ -937,7 +1124,7 @@ const App: React.FC = () => {
                   </div>
                 </div>
                 <div className={`lg:col-span-3 mt-8 lg:mt-0 ${mobileView === 'form' ? 'hidden' : 'block'} lg:block`}>
-                  {hasResults && <ResultsViewer onRefine={() => {}} onUndo={() => {}} onDownloadImage={() => {}} />}
+                  {hasResults && <ResultsViewer onRefine={() => {}} onUndo={() => {}} onRedo={() => {}} onDownloadImage={() => {}} onSelectVersion={() => {}} />}
                   {!hasResults && !hasHistory && (
                       <div className="h-full flex items-center justify-center text-center text-slate-500 bg-white/70 dark:bg-slate-900/70 rounded-xl p-8 min-h-[400px] lg:min-h-0">
                          <p>Your generated content and history will appear here.</p>
@@ -948,6 +1135,36 @@ const App: React.FC = () => {
           )}
 
           {view === 'extract' && (
+            <div className="lg:col-span-5 flex justify-end mb-4">
+              <div className="flex rounded-lg shadow-sm bg-slate-100 dark:bg-slate-800/80 p-1 text-sm">
+                <button onClick={() => setExtractMode('single')} className={`px-3 py-1 rounded ${extractMode === 'single' ? 'bg-white dark:bg-slate-700 text-indigo-600' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}>Single File</button>
+                <button onClick={() => setExtractMode('bulk')} className={`px-3 py-1 rounded ${extractMode === 'bulk' ? 'bg-white dark:bg-slate-700 text-indigo-600' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}>Bulk</button>
+                <button onClick={() => setExtractMode('compare')} className={`px-3 py-1 rounded ${extractMode === 'compare' ? 'bg-white dark:bg-slate-700 text-indigo-600' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}>Compare</button>
+              </div>
+            </div>
+          )}
+
+          {view === 'extract' && extractMode === 'bulk' && (
+            <div className="lg:col-span-5">
+              <div className="bg-slate-100/70 dark:bg-slate-900/70 rounded-xl shadow-2xl p-1 backdrop-blur-lg">
+                <div className="bg-white dark:bg-slate-900 rounded-lg p-6 sm:p-8">
+                  <BulkExtractor />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {view === 'extract' && extractMode === 'compare' && (
+            <div className="lg:col-span-5">
+              <div className="bg-slate-100/70 dark:bg-slate-900/70 rounded-xl shadow-2xl p-1 backdrop-blur-lg">
+                <div className="bg-white dark:bg-slate-900 rounded-lg p-6 sm:p-8">
+                  <MetadataCompare />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {view === 'extract' && extractMode === 'single' && (
             <>
               {/* --- Left Column (EXTRACT VIEW) --- */}
               <div className="lg:col-span-2 lg:sticky lg:top-8 self-start">
@@ -0,0 +1,204 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+    BulkExtractionRow,
+    BulkExtractionStatus,
+    collectDroppedFiles,
+    extractFromFiles,
+    isExtractableFile,
+    rowsToCsv,
+    rowsToJson,
+} from '../services/bulkExtraction';
+import { EXTRACTABLE_MIME_TYPES } from '../services/metadataService';
+import Tooltip from './ui/Tooltip';
+import LoaderIcon from './ui/LoaderIcon';
+
+type SortColumn = 'path' | 'status' | 'model' | 'aspectRatio' | 'prompt';
+
+const columns: { key: SortColumn; label: string }[] = [
+    { key: 'path', label: 'File' },
+    { key: 'status', label: 'Status' },
+    { key: 'model', label: 'Model' },
+    { key: 'aspectRatio', label: 'Aspect Ratio' },
+    { key: 'prompt', label: 'Prompt' },
+];
+
+const statusStyles: Record<BulkExtractionStatus, string> = {
+    found: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    upgraded: 'bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-300',
+    invalid: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+    missing: 'bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+    error: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+};
+
+const downloadText = (text: string, filename: string, mimeType: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+const BulkExtractor: React.FC = () => {
+    const [rows, setRows] = useState<BulkExtractionRow[]>([]);
+    const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+    const [skippedCount, setSkippedCount] = useState(0);
+    const [sort, setSort] = useState<{ column: SortColumn; ascending: boolean }>({ column: 'path', ascending: true });
+    const [isDraggingOver, setIsDraggingOver] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+    const cancelRef = useRef(false);
+
+    const isRunning = progress !== null && progress.completed < progress.total;
+
+    useEffect(() => {
+        // Not part of React's input typings, so set it directly.
+        folderInputRef.current?.setAttribute('webkitdirectory', '');
+    }, []);
+
+    const processFiles = async (allFiles: File[]) => {
+        if (isRunning) return;
+        const files = allFiles.filter(isExtractableFile);
+        setSkippedCount(allFiles.length - files.length);
+        setRows([]);
+        setProgress({ completed: 0, total: files.length });
+        cancelRef.current = false;
+        await extractFromFiles(
+            files,
+            (row, completed) => {
+                setRows(previous => [...previous, row]);
+                setProgress({ completed, total: files.length });
+            },
+            () => cancelRef.current,
+        );
+        setProgress(previous => previous && { completed: previous.completed, total: previous.completed });
+    };
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (files.length > 0) processFiles(files);
+    };
+
+    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDraggingOver(false);
+        processFiles(await collectDroppedFiles(e.dataTransfer));
+    };
+
+    const handleSort = (column: SortColumn) => {
+        setSort(previous => ({ column, ascending: previous.column === column ? !previous.ascending : true }));
+    };
+
+    const sortedRows = useMemo(() => {
+        const direction = sort.ascending ? 1 : -1;
+        return [...rows].sort((a, b) => (a[sort.column] ?? '').localeCompare(b[sort.column] ?? '', undefined, { numeric: true }) * direction);
+    }, [rows, sort]);
+
+    const statusCounts = useMemo(() => {
+        return rows.reduce<Partial<Record<BulkExtractionStatus, number>>>((counts, row) => {
+            counts[row.status] = (counts[row.status] ?? 0) + 1;
+            return counts;
+        }, {});
+    }, [rows]);
+
+    const exportFilename = `metadata-report-${new Date().toISOString().slice(0, 10)}`;
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-xl font-semibold text-indigo-500 dark:text-indigo-400">Bulk Metadata Extraction</h2>
+                <p className="text-slate-600 dark:text-slate-400 mt-1">Drop many files or whole folders to audit their embedded prompts, then export the results as CSV or JSON.</p>
+            </div>
+
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDraggingOver(true); }}
+                onDragLeave={() => setIsDraggingOver(false)}
+                onDrop={handleDrop}
+                className={`p-6 rounded-lg border-2 border-dashed text-center transition-colors duration-200 ${isDraggingOver ? 'border-indigo-500 bg-slate-200/50 dark:bg-slate-800/50' : 'border-slate-300 dark:border-slate-700'}`}
+                aria-label="Bulk upload area"
+            >
+                <input ref={fileInputRef} type="file" multiple accept={EXTRACTABLE_MIME_TYPES.join(',')} onChange={handleInputChange} className="hidden" />
+                <input ref={folderInputRef} type="file" multiple onChange={handleInputChange} className="hidden" />
+                <p className="font-semibold text-slate-600 dark:text-slate-300">Drag & drop files or folders here</p>
+                <div className="mt-3 flex justify-center gap-3">
+                    <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isRunning} className="text-sm bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-400 text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-200">
+                        Select Files
+                    </button>
+                    <button type="button" onClick={() => folderInputRef.current?.click()} disabled={isRunning} className="text-sm bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 disabled:bg-slate-400 text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-200">
+                        Select Folder
+                    </button>
+                </div>
+            </div>
+
+            {progress && (
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                        {isRunning && <LoaderIcon />}
+                        <span>Processed {progress.completed} of {progress.total} files{skippedCount > 0 && ` (${skippedCount} unsupported skipped)`}.</span>
+                        {(Object.keys(statusCounts) as BulkExtractionStatus[]).map(status => (
+                            <span key={status} className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[status]}`}>{status}: {statusCounts[status]}</span>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        {isRunning ? (
+                            <button type="button" onClick={() => { cancelRef.current = true; }} className="text-sm bg-red-600 hover:bg-red-700 text-white font-semibold py-1 px-3 rounded-md">
+                                Cancel
+                            </button>
+                        ) : (
+                            <>
+                                <Tooltip tip="Download the report as a spreadsheet-friendly CSV file.">
+                                    <button type="button" onClick={() => downloadText(rowsToCsv(sortedRows), `${exportFilename}.csv`, 'text/csv')} disabled={rows.length === 0} className="text-sm bg-green-700 hover:bg-green-600 disabled:bg-slate-400 text-white font-semibold py-1 px-3 rounded-md">
+                                        Export CSV
+                                    </button>
+                                </Tooltip>
+                                <Tooltip tip="Download the report, including the full metadata of each file, as JSON.">
+                                    <button type="button" onClick={() => downloadText(rowsToJson(sortedRows), `${exportFilename}.json`, 'application/json')} disabled={rows.length === 0} className="text-sm bg-green-700 hover:bg-green-600 disabled:bg-slate-400 text-white font-semibold py-1 px-3 rounded-md">
+                                        Export JSON
+                                    </button>
+                                </Tooltip>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {rows.length > 0 && (
+                <div className="overflow-x-auto rounded-lg border border-slate-200 dark:border-slate-800">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-slate-100 dark:bg-slate-800/80 text-left">
+                            <tr>
+                                {columns.map(({ key, label }) => (
+                                    <th key={key} scope="col" aria-sort={sort.column === key ? (sort.ascending ? 'ascending' : 'descending') : 'none'} className="px-3 py-2 font-semibold text-slate-600 dark:text-slate-300">
+                                        <button type="button" onClick={() => handleSort(key)} className="flex items-center gap-1 hover:text-indigo-500">
+                                            {label}
+                                            {sort.column === key && <span aria-hidden="true">{sort.ascending ? '▲' : '▼'}</span>}
+                                        </button>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                            {sortedRows.map(row => (
+                                <tr key={row.path} className="align-top">
+                                    <td className="px-3 py-2 font-mono text-xs text-slate-700 dark:text-slate-300 break-all">{row.path}</td>
+                                    <td className="px-3 py-2">
+                                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[row.status]}`} title={row.message}>{row.status}</span>
+                                    </td>
+                                    <td className="px-3 py-2 font-mono text-xs text-slate-700 dark:text-slate-300">{row.model ?? '—'}</td>
+                                    <td className="px-3 py-2 font-mono text-xs text-slate-700 dark:text-slate-300">{row.aspectRatio ?? '—'}</td>
+                                    <td className="px-3 py-2 text-xs text-slate-700 dark:text-slate-300">
+                                        <p className="line-clamp-3 whitespace-pre-wrap break-words" title={row.prompt}>{row.prompt ?? row.message}</p>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BulkExtractor;
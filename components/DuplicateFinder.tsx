@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAppContext, HistoryItem } from '../state/AppContext';
+import { HASH_BITS, chooseItemToKeep, computeImageHash } from '../services/duplicateDetection';
+import { loadHistoryImageBlob } from '../services/historyStore';
+import Tooltip from './ui/Tooltip';
+
+interface DuplicateFinderProps {
+    groups: HistoryItem[][];
+}
+
+const MAX_THRESHOLD = 16;
+
+// Threshold and merge controls for near-duplicate history items. While shown, it also hashes the
+// images of items saved before hashes were kept.
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ groups }) => {
+    const { state, dispatch } = useAppContext();
+    const { generationHistory: history, duplicateThreshold } = state;
+    const [pendingCount, setPendingCount] = useState(0);
+    const failedKeysRef = useRef(new Set<string>());
+
+    useEffect(() => {
+        let isCancelled = false;
+        const unhashed = history.filter(item => item.imageKeys.some(key => !item.imageHashes?.[key] && !failedKeysRef.current.has(key)));
+        setPendingCount(unhashed.length);
+        const hashMissing = async () => {
+            for (const item of unhashed) {
+                const hashes: Record<string, string> = {};
+                for (const key of item.imageKeys.filter(key => !item.imageHashes?.[key] && !failedKeysRef.current.has(key))) {
+                    const blob = await loadHistoryImageBlob(key).catch(() => null);
+                    const hash = blob && await computeImageHash(blob).catch(() => null);
+                    if (isCancelled) return;
+                    if (hash) {
+                        hashes[key] = hash;
+                    } else {
+                        failedKeysRef.current.add(key);
+                    }
+                }
+                if (Object.keys(hashes).length > 0) {
+                    // Updating the history re-runs this effect, which picks up the remaining items.
+                    dispatch({ type: 'SET_IMAGE_HASHES', payload: { id: item.id, hashes } });
+                    return;
+                }
+                setPendingCount(count => count - 1);
+            }
+        };
+        hashMissing().catch(error => console.warn('Could not hash history images', error));
+        return () => {
+            isCancelled = true;
+        };
+    }, [history, dispatch]);
+
+    const duplicateCount = groups.reduce((total, group) => total + group.length - 1, 0);
+
+    const handleMerge = () => {
+        const merges = groups.map(group => {
+            const kept = chooseItemToKeep(group);
+            return { kept, merged: group.filter(item => item !== kept) };
+        });
+        if (!window.confirm(`Move ${duplicateCount} near-duplicate item${duplicateCount === 1 ? '' : 's'} to the trash? For each group the favorite (or else the newest) item is kept and takes over the others' tags, collections and notes.`)) return;
+        dispatch({ type: 'MERGE_HISTORY_ITEMS', payload: merges.map(({ kept, merged }) => ({ keepId: kept.id, mergedIds: merged.map(item => item.id) })) });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 p-3 text-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/60 rounded-lg">
+            <label className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
+                <Tooltip tip={`How many of the ${HASH_BITS} bits of two images' perceptual hashes may differ for them to count as duplicates. Higher finds looser matches.`}>
+                    <span>Tolerance</span>
+                </Tooltip>
+                <input
+                    type="range"
+                    min={0}
+                    max={MAX_THRESHOLD}
+                    value={duplicateThreshold}
+                    onChange={(e) => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'duplicateThreshold', value: Number(e.target.value) } })}
+                    className="w-28 accent-amber-600"
+                />
+                <span className="w-6 tabular-nums">{duplicateThreshold}</span>
+            </label>
+            <p className="text-slate-600 dark:text-slate-400">
+                {groups.length === 0
+                    ? 'No near-duplicates found.'
+                    : `${groups.length} group${groups.length === 1 ? '' : 's'}, ${duplicateCount} duplicate${duplicateCount === 1 ? '' : 's'}.`}
+                {pendingCount > 0 && ` Analyzing ${pendingCount} older item${pendingCount === 1 ? '' : 's'}...`}
+            </p>
+            {groups.length > 0 && (
+                <button type="button" onClick={handleMerge} className="ml-auto text-sm bg-amber-600 hover:bg-amber-700 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200">
+                    Merge Duplicates
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default DuplicateFinder;
@@ -1,6 +1,18 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useAppContext, HistoryItem } from '../state/AppContext';
+import { embedTagsInImage, getExtensionForMimeType } from '../services/metadataService';
+import { bytesToDataUrl, dataUrlToBytes } from '../services/binaryUtils';
+import { collectTags, hasTag } from '../services/historyTags';
+import { findDuplicateGroups } from '../services/duplicateDetection';
+import { createHistorySearchIndex, highlightMatches, parseSearchQuery, ParsedQuery } from '../services/historySearch';
+import { HISTORY_IMAGE_DRAG_TYPE, loadHistoryImageBlob } from '../services/historyStore';
+import { saveHistoryThumbnail } from '../services/thumbnail';
+import { getImageMetadata } from '../services/versionTree';
 import Tooltip from './ui/Tooltip';
+import LineageTimeline from './LineageTimeline';
+import HistoryArchiveControls from './HistoryArchiveControls';
+import HistoryItemOrganizer from './HistoryItemOrganizer';
+import DuplicateFinder from './DuplicateFinder';
 
 interface GenerationHistoryProps {
   onSelectItem: (item: HistoryItem) => void;
@@ -12,6 +24,126 @@ const FavoriteStar: React.FC<{ isFavorite: boolean }> = ({ isFavorite }) => (
     </svg>
 );
 
+interface HistoryThumbnailProps {
+    item: HistoryItem;
+    className: string;
+    onClick?: () => void;
+}
+
+// Reads the thumbnail from IndexedDB only once it scrolls into view. Items saved before thumbnails
+// existed get one made from their first image the first time they are shown.
+const HistoryThumbnail: React.FC<HistoryThumbnailProps> = ({ item, className, onClick }) => {
+    const { dispatch } = useAppContext();
+    const { id: historyId, thumbnailKey } = item;
+    const imageKey = item.imageKeys[0];
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [isVisible, setIsVisible] = useState(false);
+    const [objectUrl, setObjectUrl] = useState<string | null>(null);
+    const [isMissing, setIsMissing] = useState(false);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                setIsVisible(true);
+                observer.disconnect();
+            }
+        }, { rootMargin: '200px' });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        if (!isVisible) return;
+        if (!thumbnailKey && !imageKey) {
+            setIsMissing(true);
+            return;
+        }
+        let url: string | null = null;
+        let isCancelled = false;
+        const loadThumbnail = async () => {
+            const blob = await loadHistoryImageBlob(thumbnailKey ?? imageKey);
+            if (blob && !thumbnailKey) {
+                const newThumbnailKey = await saveHistoryThumbnail(historyId, blob);
+                if (newThumbnailKey) {
+                    // Re-runs this effect with the new key.
+                    if (!isCancelled) dispatch({ type: 'SET_HISTORY_THUMBNAIL', payload: { id: historyId, thumbnailKey: newThumbnailKey } });
+                    return;
+                }
+            }
+            if (isCancelled) return;
+            if (!blob) {
+                setIsMissing(true);
+                return;
+            }
+            url = URL.createObjectURL(blob);
+            setObjectUrl(url);
+            setIsMissing(false);
+        };
+        loadThumbnail().catch(error => {
+            console.warn('Could not load history thumbnail', error);
+            if (!isCancelled) setIsMissing(true);
+        });
+        return () => {
+            isCancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [isVisible, thumbnailKey, imageKey, historyId, dispatch]);
+
+    const handleDragStart = (e: React.DragEvent) => {
+        if (!imageKey) return;
+        e.dataTransfer.setData(HISTORY_IMAGE_DRAG_TYPE, imageKey);
+        e.dataTransfer.effectAllowed = 'copy';
+    };
+
+    return (
+        <div ref={containerRef} className={className} onClick={onClick}>
+            {objectUrl ? (
+                <img src={objectUrl} alt="History thumbnail" className="w-full h-full object-cover" draggable onDragStart={handleDragStart} />
+            ) : (
+                <div className={`w-full h-full flex items-center justify-center bg-slate-200 dark:bg-slate-800 text-slate-400 dark:text-slate-500 text-xs text-center p-1 ${isMissing ? '' : 'animate-pulse'}`}>
+                    {isMissing && 'Image unavailable'}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TrashIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
+);
+
+const downloadHistoryImage = async (item: HistoryItem, imageIndex: number, embedTags: boolean, sign: boolean) => {
+    const imageKey = item.imageKeys[imageIndex];
+    let blob = imageKey ? await loadHistoryImageBlob(imageKey) : null;
+    if (!blob) {
+        throw new Error("This image is missing from storage.");
+    }
+    if (embedTags && item.tags && item.tags.length > 0) {
+        const dataUrl = bytesToDataUrl(new Uint8Array(await blob.arrayBuffer()), blob.type);
+        const taggedDataUrl = await embedTagsInImage(dataUrl, getImageMetadata(item, imageIndex), item.tags, sign);
+        blob = new Blob([dataUrlToBytes(taggedDataUrl)], { type: blob.type });
+    }
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    const suffix = item.imageKeys.length > 1 ? `-${imageIndex + 1}` : '';
+    link.download = `${item.metadata.filenameSlug || `generated-image-${item.id}`}${suffix}.${getExtensionForMimeType(blob.type)}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+const HighlightedText: React.FC<{ text: string; query: ParsedQuery }> = ({ text, query }) => (
+    <>
+        {highlightMatches(text, query).map((segment, index) => segment.isMatch
+            ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{segment.text}</mark>
+            : <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )}
+    </>
+);
+
 const groupHistoryByDate = (history: HistoryItem[]) => {
     const groups: { [key: string]: HistoryItem[] } = {
         'Today': [],
@@ -47,24 +179,130 @@ const groupHistoryByDate = (history: HistoryItem[]) => {
 
 const GenerationHistory: React.FC<GenerationHistoryProps> = ({ onSelectItem }) => {
     const { state, dispatch } = useAppContext();
-    const { generationHistory: history } = state;
+    const { generationHistory: history, collections, savedSearches } = state;
     
     const [isOpen, setIsOpen] = useState(true);
     const [searchQuery, setSearchQuery] = useState('');
     const [viewMode, setViewMode] = useState<'list' | 'grid'>('grid');
     const [showFavorites, setShowFavorites] = useState(false);
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+    const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+    const [showDuplicates, setShowDuplicates] = useState(false);
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [isBulkDownloading, setIsBulkDownloading] = useState(false);
+
+    const allTags = useMemo(() => collectTags(history), [history]);
+    const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+    // The index lives across renders so only changed items are re-indexed.
+    const searchIndexRef = useRef(createHistorySearchIndex());
+    const matchingIds = useMemo(() => {
+        searchIndexRef.current.update(history);
+        return parsedQuery.terms.length > 0 ? searchIndexRef.current.search(parsedQuery, collections) : null;
+    }, [history, parsedQuery, collections]);
+    const duplicateGroups = useMemo(() => findDuplicateGroups(history, state.duplicateThreshold), [history, state.duplicateThreshold]);
+    const duplicateIds = useMemo(() => new Set(duplicateGroups.flatMap(group => group.map(item => item.id))), [duplicateGroups]);
+    const selectedCollection = collections.find(collection => collection.id === selectedCollectionId) ?? null;
 
     if (history.length === 0) return null;
     
     const handleClearHistory = () => {
-        if (window.confirm('Are you sure you want to clear all generation history? This action cannot be undone.')) {
+        if (window.confirm(`Move all ${history.length} history items to the trash? You can restore them for ${state.trashRetentionDays} days.`)) {
             dispatch({ type: 'CLEAR_HISTORY' });
+            setSelectedIds(new Set());
         }
     };
-    
-    const handleDragStart = (e: React.DragEvent, imageSrc: string) => {
-        e.dataTransfer.setData('text/plain', imageSrc);
-        e.dataTransfer.effectAllowed = 'copy';
+
+    const handleDownload = (item: HistoryItem) => {
+        downloadHistoryImage(item, 0, state.embedTagsOnDownload, state.signMetadata).catch((e: any) => {
+            dispatch({ type: 'SET_ERROR', payload: e.message || "Could not download the image." });
+        });
+    };
+
+    const handleDelete = (item: HistoryItem) => {
+        dispatch({ type: 'TRASH_HISTORY_ITEMS', payload: [item.id] });
+    };
+
+    // Selected items that are still in the history, in history order.
+    const selectedItems = history.filter(item => selectedIds.has(item.id));
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(previous => {
+            const next = new Set(previous);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const stopSelecting = () => {
+        setIsSelecting(false);
+        setSelectedIds(new Set());
+    };
+
+    const handleBulkFavorite = (isFavorite: boolean) => {
+        dispatch({ type: 'SET_FAVORITES', payload: { ids: selectedItems.map(item => item.id), isFavorite } });
+    };
+
+    const handleBulkDelete = () => {
+        if (!window.confirm(`Move ${selectedItems.length} item${selectedItems.length === 1 ? '' : 's'} to the trash?`)) return;
+        dispatch({ type: 'TRASH_HISTORY_ITEMS', payload: selectedItems.map(item => item.id) });
+        stopSelecting();
+    };
+
+    // Downloads one file per image, one at a time, so the browser doesn't drop any of them.
+    const handleBulkDownload = async () => {
+        setIsBulkDownloading(true);
+        let failedCount = 0;
+        for (const item of selectedItems) {
+            for (let imageIndex = 0; imageIndex < item.imageKeys.length; imageIndex++) {
+                try {
+                    await downloadHistoryImage(item, imageIndex, state.embedTagsOnDownload, state.signMetadata);
+                } catch (error) {
+                    console.warn('Could not download a history image', error);
+                    failedCount++;
+                }
+            }
+        }
+        setIsBulkDownloading(false);
+        if (failedCount > 0) {
+            dispatch({ type: 'SET_ERROR', payload: `${failedCount} image${failedCount === 1 ? ' is' : 's are'} missing from storage and could not be downloaded.` });
+        }
+    };
+
+    const toggleTagFilter = (tag: string) => {
+        setSelectedTags(previous => previous.includes(tag) ? previous.filter(existing => existing !== tag) : [...previous, tag]);
+    };
+
+    const handleCreateCollection = () => {
+        const name = window.prompt('Name of the new collection:')?.trim();
+        if (!name) return;
+        const id = `col-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+        dispatch({ type: 'CREATE_COLLECTION', payload: { id, name } });
+        setSelectedCollectionId(id);
+    };
+
+    const handleRenameCollection = () => {
+        if (!selectedCollection) return;
+        const name = window.prompt('New name for this collection:', selectedCollection.name)?.trim();
+        if (name) dispatch({ type: 'RENAME_COLLECTION', payload: { id: selectedCollection.id, name } });
+    };
+
+    const handleDeleteCollection = () => {
+        if (selectedCollection && window.confirm(`Delete the collection "${selectedCollection.name}"? Its items stay in your history.`)) {
+            dispatch({ type: 'DELETE_COLLECTION', payload: selectedCollection.id });
+            setSelectedCollectionId(null);
+        }
+    };
+
+    const handleSaveSearch = () => {
+        const name = window.prompt('Name for this search:')?.trim();
+        if (!name) return;
+        const id = `search-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+        dispatch({ type: 'SAVE_SEARCH', payload: { id, name, query: searchQuery.trim() } });
     };
 
     const filteredHistory = useMemo(() => {
@@ -72,16 +310,18 @@ const GenerationHistory: React.FC<GenerationHistoryProps> = ({ onSelectItem }) =
             if (showFavorites && !item.isFavorite) {
                 return false;
             }
-            if (!searchQuery.trim()) {
-                return true;
+            if (showDuplicates && !duplicateIds.has(item.id)) {
+                return false;
             }
-            const query = searchQuery.toLowerCase();
-            const prompt = item.metadata.prompt.toLowerCase();
-            const originalPrompt = item.metadata.originalPrompt?.toLowerCase() || '';
-            const modelName = item.metadata.model.includes('imagen') ? 'imagen' : 'nano banana';
-            return prompt.includes(query) || originalPrompt.includes(query) || modelName.includes(query);
+            if (selectedCollectionId && !item.collectionIds?.includes(selectedCollectionId)) {
+                return false;
+            }
+            if (!selectedTags.every(tag => hasTag(item, tag))) {
+                return false;
+            }
+            return !matchingIds || matchingIds.has(item.id);
         });
-    }, [history, searchQuery, showFavorites]);
+    }, [history, matchingIds, showFavorites, showDuplicates, duplicateIds, selectedCollectionId, selectedTags]);
 
     const groupedAndFilteredHistory = useMemo(() => {
         return groupHistoryByDate(filteredHistory);
@@ -103,59 +343,78 @@ const GenerationHistory: React.FC<GenerationHistoryProps> = ({ onSelectItem }) =
     };
     
     const renderItem = (item: HistoryItem) => {
-        const downloadFilename = `${item.metadata.filenameSlug || `generated-image-${item.id}`}.jpg`;
         const modelDisplayName = item.metadata.model === 'imagen-4.0-generate-001' ? 'Imagen' : 'Nano Banana';
         const isImagen = modelDisplayName === 'Imagen';
 
         if (viewMode === 'grid') {
             return (
                 <li key={item.id} className="relative group aspect-square">
-                    <img 
-                        src={item.images[0]} 
-                        alt="History thumbnail" 
-                        className="w-full h-full object-cover rounded-xl cursor-pointer transition-transform duration-300 group-hover:scale-105" 
-                        onClick={() => onSelectItem(item)}
-                        draggable
-                        onDragStart={(e) => handleDragStart(e, item.images[0])}
+                    <HistoryThumbnail
+                        item={item}
+                        className={`w-full h-full overflow-hidden rounded-xl cursor-pointer transition-transform duration-300 group-hover:scale-105 ${isSelecting && selectedIds.has(item.id) ? 'ring-4 ring-indigo-500' : ''}`}
+                        onClick={() => isSelecting ? toggleSelected(item.id) : onSelectItem(item)}
                     />
                     <div className="absolute inset-0 bg-gradient-to-t from-black/70 to-transparent opacity-0 group-hover:opacity-100 transition-opacity rounded-xl pointer-events-none">
                         <div className="absolute bottom-0 left-0 p-2 text-white w-full">
                             <p className="text-xs font-mono whitespace-pre-wrap break-words line-clamp-2" title={item.metadata.prompt}>
-                                {item.metadata.prompt.split('---')[0].trim()}
+                                {item.metadata.prompt}
                             </p>
                         </div>
                     </div>
-                     {item.images.length > 1 && (
-                        <span className="absolute top-2 right-2 bg-indigo-600 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center ring-2 ring-white dark:ring-slate-800" aria-label={`${item.images.length} images`}>
-                            {item.images.length}
+                     {item.imageKeys.length > 1 && (
+                        <span className={`absolute top-2 right-2 bg-indigo-600 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center ring-2 ring-white dark:ring-slate-800 ${isSelecting ? '' : 'group-hover:opacity-0 transition-opacity'}`} aria-label={`${item.imageKeys.length} images`}>
+                            {item.imageKeys.length}
                         </span>
                     )}
-                    <Tooltip tip={item.isFavorite ? "Remove from Favorites" : "Add to Favorites"} position="top">
-                        <button onClick={() => dispatch({type: 'TOGGLE_FAVORITE', payload: item.id})} className={`absolute top-2 left-2 p-1.5 rounded-full transition-colors text-yellow-400 bg-black/40 hover:bg-black/60`}>
-                            <FavoriteStar isFavorite={item.isFavorite ?? false} />
-                        </button>
-                    </Tooltip>
+                    {duplicateIds.has(item.id) && (
+                        <span className="absolute bottom-2 right-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-amber-500 text-white pointer-events-none group-hover:opacity-0 transition-opacity">Duplicate</span>
+                    )}
+                    {isSelecting ? (
+                        <input
+                            type="checkbox"
+                            checked={selectedIds.has(item.id)}
+                            onChange={() => toggleSelected(item.id)}
+                            aria-label="Select this item"
+                            className="absolute top-2 left-2 h-5 w-5 rounded accent-indigo-600 cursor-pointer"
+                        />
+                    ) : (
+                        <>
+                            <Tooltip tip={item.isFavorite ? "Remove from Favorites" : "Add to Favorites"} position="top">
+                                <button onClick={() => dispatch({type: 'TOGGLE_FAVORITE', payload: item.id})} className={`absolute top-2 left-2 p-1.5 rounded-full transition-colors text-yellow-400 bg-black/40 hover:bg-black/60`}>
+                                    <FavoriteStar isFavorite={item.isFavorite ?? false} />
+                                </button>
+                            </Tooltip>
+                            <Tooltip tip="Move to Trash" position="top">
+                                <button onClick={() => handleDelete(item)} aria-label="Move to Trash" className="absolute top-2 right-2 p-1.5 rounded-full text-white bg-black/40 hover:bg-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity">
+                                    <TrashIcon />
+                                </button>
+                            </Tooltip>
+                        </>
+                    )}
                 </li>
             )
         }
         
         // List View
         return (
-            <li key={item.id} className="bg-slate-100 dark:bg-slate-800/50 p-4 rounded-xl flex items-start gap-4">
+            <li key={item.id} className={`bg-slate-100 dark:bg-slate-800/50 p-4 rounded-xl flex items-start gap-4 ${isSelecting && selectedIds.has(item.id) ? 'ring-2 ring-indigo-500' : ''}`}>
+                {isSelecting && (
+                    <input
+                        type="checkbox"
+                        checked={selectedIds.has(item.id)}
+                        onChange={() => toggleSelected(item.id)}
+                        aria-label="Select this item"
+                        className="mt-1 h-5 w-5 flex-shrink-0 rounded accent-indigo-600 cursor-pointer"
+                    />
+                )}
                 <div 
                     className="relative flex-shrink-0 group cursor-pointer"
-                    onClick={() => onSelectItem(item)}
+                    onClick={() => isSelecting ? toggleSelected(item.id) : onSelectItem(item)}
                 >
-                    <img 
-                        src={item.images[0]} 
-                        alt="History thumbnail" 
-                        className="w-20 h-20 object-cover rounded-lg" 
-                        draggable
-                        onDragStart={(e) => handleDragStart(e, item.images[0])}
-                    />
-                    {item.images.length > 1 && (
-                        <span className="absolute -top-2 -right-2 bg-indigo-600 text-white text-xs font-bold rounded-full h-6 w-6 flex items-center justify-center ring-2 ring-white dark:ring-slate-800/50" aria-label={`${item.images.length} images`}>
-                            {item.images.length}
+                    <HistoryThumbnail item={item} className="w-20 h-20 overflow-hidden rounded-lg" />
+                    {item.imageKeys.length > 1 && (
+                        <span className="absolute -top-2 -right-2 bg-indigo-600 text-white text-xs font-bold rounded-full h-6 w-6 flex items-center justify-center ring-2 ring-white dark:ring-slate-800/50" aria-label={`${item.imageKeys.length} images`}>
+                            {item.imageKeys.length}
                         </span>
                     )}
                 </div>
@@ -163,14 +422,39 @@ const GenerationHistory: React.FC<GenerationHistoryProps> = ({ onSelectItem }) =
                     <span className={`inline-block mb-1 px-2 py-0.5 text-xs font-semibold rounded-full ${isImagen ? 'bg-sky-200 text-sky-800 dark:bg-sky-900 dark:text-sky-300' : 'bg-violet-200 text-violet-800 dark:bg-violet-900 dark:text-violet-300'}`}>
                         {modelDisplayName}
                     </span>
+                    {duplicateIds.has(item.id) && (
+                        <span className="inline-block mb-1 ml-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-200 text-amber-800 dark:bg-amber-900 dark:text-amber-300">Near-duplicate</span>
+                    )}
                     <p className="text-xs text-slate-600 dark:text-slate-400 font-mono whitespace-pre-wrap break-words line-clamp-3" title={item.metadata.prompt}>
                         {item.metadata.originalPrompt && (
                             <span className="block text-slate-500 text-[10px] italic" title={`Original: ${item.metadata.originalPrompt}`}>
                                 Grounded from: "{item.metadata.originalPrompt}"
                             </span>
                         )}
-                        {formatJsonDisplay(item.metadata.prompt)}
+                        <HighlightedText text={formatJsonDisplay(item.metadata.prompt)} query={parsedQuery} />
                     </p>
+                    {item.tags && item.tags.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-1">
+                            {item.tags.map(tag => (
+                                <span key={tag} className="px-2 py-0.5 text-[10px] rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-900/60 dark:text-indigo-300">{tag}</span>
+                            ))}
+                        </div>
+                    )}
+                    {item.notes && <p className="mt-1 text-xs text-slate-500 dark:text-slate-400 italic line-clamp-2" title={item.notes}><HighlightedText text={item.notes} query={parsedQuery} /></p>}
+                    {item.metadata.lineage && item.metadata.lineage.length > 1 && (
+                        <details className="mt-2">
+                            <summary className="text-xs text-slate-500 dark:text-slate-400 cursor-pointer">{item.metadata.lineage.length - 1} refinement(s)</summary>
+                            <div className="mt-2">
+                                <LineageTimeline lineage={item.metadata.lineage} compact />
+                            </div>
+                        </details>
+                    )}
+                    <details className="mt-2">
+                        <summary className="text-xs text-slate-500 dark:text-slate-400 cursor-pointer">Organize</summary>
+                        <div className="mt-2">
+                            <HistoryItemOrganizer item={item} />
+                        </div>
+                    </details>
                     <div className="mt-3 flex items-center gap-3">
                         <Tooltip tip="Load this generation's settings and results back into the main interface.">
                             <button onClick={() => onSelectItem(item)} className="text-sm bg-indigo-700 hover:bg-indigo-600 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200">
@@ -178,9 +462,14 @@ const GenerationHistory: React.FC<GenerationHistoryProps> = ({ onSelectItem }) =
                             </button>
                         </Tooltip>
                         <Tooltip tip="Download the first image of this batch with its embedded metadata.">
-                            <a href={item.images[0]} download={downloadFilename} className="text-sm bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200">
+                            <button onClick={() => handleDownload(item)} className="text-sm bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200">
                                 Download
-                            </a>
+                            </button>
+                        </Tooltip>
+                        <Tooltip tip="Move this item to the trash. You can restore it from there.">
+                            <button onClick={() => handleDelete(item)} className="text-sm text-red-600 hover:bg-red-100 dark:hover:bg-red-900/40 font-semibold py-1 px-3 rounded-md transition-colors duration-200">
+                                Delete
+                            </button>
                         </Tooltip>
                     </div>
                 </div>
@@ -210,9 +499,16 @@ const GenerationHistory: React.FC<GenerationHistoryProps> = ({ onSelectItem }) =
                                 type="search"
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
-                                placeholder="Search by prompt or model..."
+                                placeholder='Search... e.g. model:imagen fav:true "neon city" -cat'
+                                aria-describedby="history-search-help"
                                 className="w-full pl-10 pr-4 py-2 bg-slate-100 dark:bg-slate-800/80 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm transition-colors duration-200"
                             />
+                            {parsedQuery.errors.length > 0 && (
+                                <p className="mt-1 text-xs text-red-600 dark:text-red-400">{parsedQuery.errors.join(' ')}</p>
+                            )}
+                            <p id="history-search-help" className="sr-only">
+                                Filters: model, ratio, mode, tag, collection, fav, refined, after and before, e.g. after:2026-09-01. Quote phrases and prefix a term with a minus sign to exclude it.
+                            </p>
                         </div>
                         <div className="flex gap-2 items-center justify-between md:justify-end">
                             <div className="flex rounded-lg shadow-sm bg-slate-100 dark:bg-slate-800/80 p-1">
@@ -220,9 +516,82 @@ const GenerationHistory: React.FC<GenerationHistoryProps> = ({ onSelectItem }) =
                                 <Tooltip tip="List View"><button onClick={() => setViewMode('list')} className={`p-1.5 rounded ${viewMode === 'list' ? 'bg-white dark:bg-slate-700 text-indigo-600' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" /></svg></button></Tooltip>
                             </div>
                             <Tooltip tip={showFavorites ? "Show All" : "Show Favorites"}><button onClick={() => setShowFavorites(!showFavorites)} className={`p-2 rounded-lg shadow-sm transition-colors ${showFavorites ? 'bg-yellow-400 text-yellow-900' : 'bg-slate-100 dark:bg-slate-800/80 text-slate-500'}`}><FavoriteStar isFavorite={showFavorites} /></button></Tooltip>
-                            <Tooltip tip="Permanently delete all history items."><button onClick={handleClearHistory} className="p-2 rounded-lg shadow-sm bg-red-600 hover:bg-red-700 text-white"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg></button></Tooltip>
+                            <Tooltip tip={showDuplicates ? "Show All" : "Find near-duplicate images"}><button onClick={() => setShowDuplicates(!showDuplicates)} aria-pressed={showDuplicates} className={`p-2 rounded-lg shadow-sm transition-colors ${showDuplicates ? 'bg-amber-500 text-white' : 'bg-slate-100 dark:bg-slate-800/80 text-slate-500'}`}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M7 9a2 2 0 012-2h6a2 2 0 012 2v6a2 2 0 01-2 2H9a2 2 0 01-2-2V9z" /><path d="M5 3a2 2 0 00-2 2v6a2 2 0 002 2V5h8a2 2 0 00-2-2H5z" /></svg></button></Tooltip>
+                            <Tooltip tip={isSelecting ? "Stop Selecting" : "Select Items"}><button onClick={() => isSelecting ? stopSelecting() : setIsSelecting(true)} aria-pressed={isSelecting} className={`p-2 rounded-lg shadow-sm transition-colors ${isSelecting ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800/80 text-slate-500'}`}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg></button></Tooltip>
+                            <Tooltip tip="Move all history items to the trash."><button onClick={handleClearHistory} className="p-2 rounded-lg shadow-sm bg-red-600 hover:bg-red-700 text-white"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg></button></Tooltip>
                         </div>
                     </div>
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <select
+                            value={selectedCollectionId ?? ''}
+                            onChange={(e) => setSelectedCollectionId(e.target.value || null)}
+                            aria-label="Filter by collection"
+                            className="py-1 pl-2 pr-8 bg-slate-100 dark:bg-slate-800/80 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                        >
+                            <option value="">All collections</option>
+                            {collections.map(collection => <option key={collection.id} value={collection.id}>{collection.name}</option>)}
+                        </select>
+                        <button type="button" onClick={handleCreateCollection} className="px-2 py-1 rounded-md text-indigo-600 dark:text-indigo-400 hover:bg-slate-200 dark:hover:bg-slate-700">New Collection</button>
+                        {selectedCollection && (
+                            <>
+                                <button type="button" onClick={handleRenameCollection} className="px-2 py-1 rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700">Rename</button>
+                                <button type="button" onClick={handleDeleteCollection} className="px-2 py-1 rounded-md text-red-600 hover:bg-red-100 dark:hover:bg-red-900/40">Delete</button>
+                            </>
+                        )}
+                    </div>
+                    {(savedSearches.length > 0 || searchQuery.trim() !== '') && (
+                        <div className="flex flex-wrap items-center gap-1 text-xs" aria-label="Saved searches">
+                            {savedSearches.map(search => (
+                                <span key={search.id} className={`flex items-center gap-1 px-2 py-0.5 rounded-full ${search.query === searchQuery.trim() ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300'}`}>
+                                    <button type="button" onClick={() => setSearchQuery(search.query)} title={search.query}>{search.name}</button>
+                                    <button type="button" onClick={() => dispatch({ type: 'DELETE_SAVED_SEARCH', payload: search.id })} aria-label={`Delete saved search ${search.name}`} className="hover:text-red-500">×</button>
+                                </span>
+                            ))}
+                            {searchQuery.trim() !== '' && !savedSearches.some(search => search.query === searchQuery.trim()) && (
+                                <button type="button" onClick={handleSaveSearch} className="px-2 py-0.5 rounded-md text-indigo-600 dark:text-indigo-400 hover:bg-slate-200 dark:hover:bg-slate-700">Save Search</button>
+                            )}
+                        </div>
+                    )}
+                    {allTags.length > 0 && (
+                        <div className="flex flex-wrap gap-1" aria-label="Filter by tag">
+                            {allTags.map(({ tag, count }) => {
+                                const isSelected = selectedTags.some(selected => selected.toLowerCase() === tag.toLowerCase());
+                                return (
+                                    <button
+                                        key={tag}
+                                        type="button"
+                                        onClick={() => toggleTagFilter(tag)}
+                                        aria-pressed={isSelected}
+                                        className={`px-2 py-0.5 text-xs rounded-full transition-colors ${isSelected ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-700'}`}
+                                    >
+                                        {tag} <span className="opacity-70">{count}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                    {showDuplicates && <DuplicateFinder groups={duplicateGroups} />}
+                    {isSelecting && (
+                        <div className="flex flex-wrap items-center gap-2 p-3 text-sm bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800/60 rounded-lg">
+                            <span className="text-slate-700 dark:text-slate-300">{selectedItems.length} selected</span>
+                            {filteredHistory.every(item => selectedIds.has(item.id)) ? (
+                                <button type="button" onClick={() => setSelectedIds(new Set())} className="px-2 py-1 rounded-md text-indigo-600 dark:text-indigo-400 hover:bg-slate-200 dark:hover:bg-slate-700">Clear Selection</button>
+                            ) : (
+                                <button type="button" onClick={() => setSelectedIds(new Set(filteredHistory.map(item => item.id)))} className="px-2 py-1 rounded-md text-indigo-600 dark:text-indigo-400 hover:bg-slate-200 dark:hover:bg-slate-700">Select All ({filteredHistory.length})</button>
+                            )}
+                            <div className="flex flex-wrap items-center gap-2 ml-auto">
+                                <button type="button" onClick={() => handleBulkFavorite(true)} disabled={selectedItems.length === 0} className="px-2 py-1 rounded-md text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50">Favorite</button>
+                                <button type="button" onClick={() => handleBulkFavorite(false)} disabled={selectedItems.length === 0} className="px-2 py-1 rounded-md text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50">Unfavorite</button>
+                                <button type="button" onClick={handleBulkDownload} disabled={selectedItems.length === 0 || isBulkDownloading} className="px-2 py-1 rounded-md text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50">{isBulkDownloading ? 'Downloading...' : 'Download'}</button>
+                                <button type="button" onClick={handleBulkDelete} disabled={selectedItems.length === 0} className="px-2 py-1 rounded-md text-red-600 hover:bg-red-100 dark:hover:bg-red-900/40 disabled:opacity-50">Delete</button>
+                                <button type="button" onClick={stopSelecting} className="px-2 py-1 rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700">Done</button>
+                            </div>
+                        </div>
+                    )}
+                    <HistoryArchiveControls
+                        exportItems={filteredHistory}
+                        isFiltered={showFavorites || showDuplicates || searchQuery.trim() !== '' || selectedCollectionId !== null || selectedTags.length > 0}
+                    />
                     
                     {Object.entries(groupedAndFilteredHistory).map(([groupName, items]) => {
                         // FIX: Add type guard to ensure `items` is an array before accessing its properties.
@@ -0,0 +1,87 @@
+import React, { useState, useRef } from 'react';
+import { useAppContext, HistoryItem } from '../state/AppContext';
+import { exportHistoryArchive, importHistoryArchive } from '../services/historyArchive';
+import Tooltip from './ui/Tooltip';
+import LoaderIcon from './ui/LoaderIcon';
+
+interface HistoryArchiveControlsProps {
+    exportItems: HistoryItem[]; // Export is hidden when empty
+    isFiltered?: boolean;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+const HistoryArchiveControls: React.FC<HistoryArchiveControlsProps> = ({ exportItems, isFiltered = false }) => {
+    const { state, dispatch } = useAppContext();
+    const [busyAction, setBusyAction] = useState<'export' | 'import' | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const handleExport = async () => {
+        setBusyAction('export');
+        setMessage(null);
+        try {
+            const { archive, missingImageCount } = await exportHistoryArchive(exportItems, state.collections);
+            downloadBlob(archive, `generation-history-${new Date().toISOString().slice(0, 10)}.zip`);
+            if (missingImageCount > 0) {
+                setMessage(`${missingImageCount} image${missingImageCount === 1 ? ' was' : 's were'} missing from storage and left out.`);
+            }
+        } catch (e: any) {
+            dispatch({ type: 'SET_ERROR', payload: e.message || "Could not export the history." });
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setBusyAction('import');
+        setMessage(null);
+        try {
+            const { items, collections, duplicateCount, invalidCount } = await importHistoryArchive(file, state.generationHistory, state.collections, state.trash.map(({ item }) => item.id));
+            dispatch({ type: 'IMPORT_HISTORY_ITEMS', payload: { items, collections } });
+            const skipped = [
+                duplicateCount > 0 && `${duplicateCount} already in history`,
+                invalidCount > 0 && `${invalidCount} unreadable`,
+            ].filter(Boolean);
+            setMessage(`Imported ${items.length} item${items.length === 1 ? '' : 's'}${skipped.length > 0 ? ` (skipped ${skipped.join(', ')})` : ''}.`);
+        } catch (e: any) {
+            dispatch({ type: 'SET_ERROR', payload: e.message || "Could not import the archive." });
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <input ref={inputRef} type="file" accept=".zip,application/zip" onChange={handleImport} className="hidden" />
+            {exportItems.length > 0 && (
+                <Tooltip tip={isFiltered ? "Download the items matching the current filters, with their images, as a ZIP archive." : "Download the whole history, with its images, as a ZIP archive."}>
+                    <button type="button" onClick={handleExport} disabled={busyAction !== null} className="flex items-center gap-1 text-sm bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 disabled:bg-slate-400 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200">
+                        {busyAction === 'export' && <LoaderIcon />}
+                        Export {isFiltered ? `${exportItems.length} Item${exportItems.length === 1 ? '' : 's'}` : 'All'}
+                    </button>
+                </Tooltip>
+            )}
+            <Tooltip tip="Add the items from a history archive to this history. Items already here are skipped.">
+                <button type="button" onClick={() => inputRef.current?.click()} disabled={busyAction !== null} className="flex items-center gap-1 text-sm bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 disabled:bg-slate-400 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200">
+                    {busyAction === 'import' && <LoaderIcon />}
+                    Import
+                </button>
+            </Tooltip>
+            {message && <p className="text-xs text-slate-500 dark:text-slate-400">{message}</p>}
+        </div>
+    );
+};
+
+export default HistoryArchiveControls;
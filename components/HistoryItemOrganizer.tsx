@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext, HistoryItem } from '../state/AppContext';
+import { parseTagInput } from '../services/historyTags';
+
+interface HistoryItemOrganizerProps {
+    item: HistoryItem;
+}
+
+// Tags, collection membership and notes for one history item.
+const HistoryItemOrganizer: React.FC<HistoryItemOrganizerProps> = ({ item }) => {
+    const { state, dispatch } = useAppContext();
+    const { collections } = state;
+    const tags = item.tags ?? [];
+    const [tagInput, setTagInput] = useState('');
+    const [notes, setNotes] = useState(item.notes ?? '');
+
+    useEffect(() => {
+        setNotes(item.notes ?? '');
+    }, [item.notes]);
+
+    const setTags = (newTags: string[]) => dispatch({ type: 'SET_HISTORY_TAGS', payload: { id: item.id, tags: newTags } });
+
+    const addTypedTags = () => {
+        const typed = parseTagInput(tagInput);
+        if (typed.length > 0) setTags([...tags, ...typed]);
+        setTagInput('');
+    };
+
+    const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTypedTags();
+        } else if (e.key === 'Backspace' && tagInput === '' && tags.length > 0) {
+            setTags(tags.slice(0, -1));
+        }
+    };
+
+    // Notes are saved when the field loses focus rather than on every keystroke.
+    const saveNotes = () => {
+        if (notes !== (item.notes ?? '')) {
+            dispatch({ type: 'SET_HISTORY_NOTES', payload: { id: item.id, notes } });
+        }
+    };
+
+    return (
+        <div className="space-y-3 text-xs">
+            <div>
+                <label htmlFor={`tags-${item.id}`} className="block font-semibold text-slate-600 dark:text-slate-400 mb-1">Tags</label>
+                <div className="flex flex-wrap items-center gap-1 p-1.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-md">
+                    {tags.map(tag => (
+                        <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-900/60 dark:text-indigo-300">
+                            {tag}
+                            <button type="button" onClick={() => setTags(tags.filter(existing => existing !== tag))} aria-label={`Remove tag ${tag}`} className="hover:text-red-600">×</button>
+                        </span>
+                    ))}
+                    <input
+                        id={`tags-${item.id}`}
+                        type="text"
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        onKeyDown={handleTagKeyDown}
+                        onBlur={addTypedTags}
+                        placeholder={tags.length === 0 ? 'Add tags, separated by commas' : ''}
+                        className="flex-grow min-w-[6rem] bg-transparent focus:outline-none"
+                    />
+                </div>
+            </div>
+            {collections.length > 0 && (
+                <fieldset>
+                    <legend className="font-semibold text-slate-600 dark:text-slate-400 mb-1">Collections</legend>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {collections.map(collection => (
+                            <label key={collection.id} className="flex items-center gap-1 text-slate-700 dark:text-slate-300">
+                                <input
+                                    type="checkbox"
+                                    checked={item.collectionIds?.includes(collection.id) ?? false}
+                                    onChange={() => dispatch({ type: 'TOGGLE_HISTORY_COLLECTION', payload: { id: item.id, collectionId: collection.id } })}
+                                    className="rounded text-indigo-600 focus:ring-indigo-500"
+                                />
+                                {collection.name}
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
+            )}
+            <div>
+                <label htmlFor={`notes-${item.id}`} className="block font-semibold text-slate-600 dark:text-slate-400 mb-1">Notes</label>
+                <textarea
+                    id={`notes-${item.id}`}
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    onBlur={saveNotes}
+                    rows={2}
+                    className="w-full p-1.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default HistoryItemOrganizer;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { useAppContext, TrashedHistoryItem } from '../state/AppContext';
+import { getDaysUntilPurge } from '../services/historyTrash';
+import { deleteHistoryImages } from '../services/historyStore';
+import { unregisterWatermarks } from '../services/watermark';
+import { getHistoryItemStorageKeys } from '../services/versionTree';
+
+// Deleted history items, until they are restored, deleted for good or expire.
+const HistoryTrash: React.FC = () => {
+    const { state, dispatch } = useAppContext();
+    const { trash, trashRetentionDays } = state;
+    const [isOpen, setIsOpen] = useState(false);
+
+    if (trash.length === 0) return null;
+
+    const handleRestore = (entries: TrashedHistoryItem[]) => {
+        dispatch({ type: 'RESTORE_TRASHED_ITEMS', payload: entries.map(entry => entry.item.id) });
+    };
+
+    const handlePurge = (entries: TrashedHistoryItem[]) => {
+        const message = entries.length === 1
+            ? 'Permanently delete this item and its images? This action cannot be undone.'
+            : `Permanently delete all ${entries.length} items in the trash and their images? This action cannot be undone.`;
+        if (!window.confirm(message)) return;
+        dispatch({ type: 'PURGE_TRASHED_ITEMS', payload: entries.map(entry => entry.item.id) });
+        unregisterWatermarks(entries.map(entry => entry.item.id));
+        deleteHistoryImages(entries.flatMap(entry => getHistoryItemStorageKeys(entry.item)))
+            .catch(error => console.warn('Could not delete the images of purged history items', error));
+    };
+
+    return (
+        <div className="mt-6 pt-4 border-t border-slate-200 dark:border-slate-800">
+            <button onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center text-left text-sm font-semibold text-slate-500 dark:text-slate-400" aria-expanded={isOpen}>
+                Trash ({trash.length})
+                <svg className={`w-5 h-5 transform transition-transform duration-200 ${isOpen ? 'rotate-180' : 'rotate-0'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+            </button>
+            {isOpen && (
+                <div className="mt-3 space-y-3 animate-fade-in">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mr-auto">Deleted items are removed for good after {trashRetentionDays} day{trashRetentionDays === 1 ? '' : 's'}.</p>
+                        <button type="button" onClick={() => handleRestore(trash)} className="px-2 py-1 rounded-md text-indigo-600 dark:text-indigo-400 hover:bg-slate-200 dark:hover:bg-slate-700">Restore All</button>
+                        <button type="button" onClick={() => handlePurge(trash)} className="px-2 py-1 rounded-md text-red-600 hover:bg-red-100 dark:hover:bg-red-900/40">Empty Trash</button>
+                    </div>
+                    <ul className="space-y-2">
+                        {trash.map(entry => {
+                            const daysLeft = getDaysUntilPurge(entry, trashRetentionDays);
+                            return (
+                                <li key={entry.item.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-100 dark:bg-slate-800/50 text-sm">
+                                    <div className="flex-grow min-w-0">
+                                        <p className="text-xs font-mono text-slate-600 dark:text-slate-400 truncate" title={entry.item.metadata.prompt}>{entry.item.metadata.prompt}</p>
+                                        <p className="text-[10px] text-slate-500">
+                                            Deleted {new Date(entry.deletedAt).toLocaleString()} · {daysLeft === 0 ? 'removed soon' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                                        </p>
+                                    </div>
+                                    <button type="button" onClick={() => handleRestore([entry])} className="flex-shrink-0 text-xs bg-indigo-700 hover:bg-indigo-600 text-white font-semibold py-1 px-2 rounded-md transition-colors duration-200">Restore</button>
+                                    <button type="button" onClick={() => handlePurge([entry])} className="flex-shrink-0 text-xs text-red-600 hover:bg-red-100 dark:hover:bg-red-900/40 font-semibold py-1 px-2 rounded-md">Delete Forever</button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HistoryTrash;
@@ -2,6 +2,7 @@ import React, { useState, useCallback, useRef, useMemo } from 'react';
 import type { AspectRatio, ImageModel } from '../types';
 import { useAppContext } from '../state/AppContext';
 import { enhancePromptStream } from '../services/geminiService';
+import { HISTORY_IMAGE_DRAG_TYPE, loadHistoryImages } from '../services/historyStore';
 import LoaderIcon from './ui/LoaderIcon';
 import Tooltip from './ui/Tooltip';
 
@@ -131,28 +132,41 @@ const ImageGeneratorForm: React.FC<ImageGeneratorFormProps> = ({ onGenerate, onG
       setIsDraggingOver(false);
   }, []);
 
+  const addDraggedReferenceImage = useCallback((dataUrl: string) => {
+      dispatch({ 
+          type: 'SET_FORM_FIELD', 
+          payload: { field: 'referenceImages', value: [...referenceImages, dataUrl].slice(0, 5) }
+      });
+      if (!isImagen && promptMode === 'json') {
+          dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'promptMode', value: 'text' } });
+          onPromptChange('');
+      }
+  }, [referenceImages, dispatch, isImagen, promptMode, onPromptChange]);
+
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       setIsDraggingOver(false);
 
-      // Check for dragged image URL from history
+      // Check for an image dragged from history, which is read back from storage by key
+      const historyImageKey = e.dataTransfer.getData(HISTORY_IMAGE_DRAG_TYPE);
+      if (historyImageKey) {
+          loadHistoryImages([historyImageKey])
+              .then(([dataUrl]) => addDraggedReferenceImage(dataUrl))
+              .catch((error: any) => dispatch({ type: 'SET_ERROR', payload: error.message || "Could not load the dragged image." }));
+          return; // Stop processing here
+      }
+
+      // Check for a dragged image data URL
       const draggedUrl = e.dataTransfer.getData('text/plain');
       if (draggedUrl && draggedUrl.startsWith('data:image/')) {
-          dispatch({ 
-              type: 'SET_FORM_FIELD', 
-              payload: { field: 'referenceImages', value: [...referenceImages, draggedUrl].slice(0, 5) }
-          });
-          if (!isImagen && promptMode === 'json') {
-              dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'promptMode', value: 'text' } });
-              onPromptChange('');
-          }
+          addDraggedReferenceImage(draggedUrl);
           return; // Stop processing here
       }
 
       if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
           processFiles(e.dataTransfer.files);
       }
-  }, [processFiles, referenceImages, dispatch, isImagen, promptMode, onPromptChange]);
+  }, [processFiles, addDraggedReferenceImage, dispatch]);
 
   const handleRemoveImage = (indexToRemove: number) => {
       dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'referenceImages', value: referenceImages.filter((_, index) => index !== indexToRemove) } });
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { LineageStep } from '../state/AppContext';
+
+export const operationLabels: Record<LineageStep['operation'], string> = {
+    'generate': 'Generated',
+    'refine': 'Refined',
+    'masked-refine': 'Masked refinement',
+};
+
+const operationStyles: Record<LineageStep['operation'], string> = {
+    'generate': 'bg-indigo-500',
+    'refine': 'bg-violet-500',
+    'masked-refine': 'bg-fuchsia-500',
+};
+
+interface LineageTimelineProps {
+    lineage: LineageStep[];
+    // Compact mode clamps prompts to one line, for use inside history list items.
+    compact?: boolean;
+}
+
+const LineageTimeline: React.FC<LineageTimelineProps> = ({ lineage, compact = false }) => (
+    <ol className="relative border-l border-slate-300 dark:border-slate-700 ml-1.5 space-y-3">
+        {lineage.map((step, index) => {
+            const modelDisplayName = step.model === 'imagen-4.0-generate-001' ? 'Imagen' : 'Nano Banana';
+            const details = [
+                modelDisplayName,
+                step.creativeStrength && `strength ${step.creativeStrength.toLowerCase()}`,
+                step.style && `style "${step.style}"`,
+                step.timestamp !== undefined && new Date(step.timestamp).toLocaleString(),
+            ].filter(Boolean).join(' · ');
+
+            return (
+                <li key={index} className="ml-4">
+                    <span className={`absolute -left-1.5 mt-1 h-3 w-3 rounded-full ring-2 ring-white dark:ring-slate-900 ${operationStyles[step.operation]}`} />
+                    <p className="text-xs font-semibold text-slate-700 dark:text-slate-300">
+                        {operationLabels[step.operation]} <span className="font-normal text-slate-500 dark:text-slate-400">{details}</span>
+                    </p>
+                    <p className={`text-xs font-mono text-slate-600 dark:text-slate-400 whitespace-pre-wrap break-words ${compact ? 'line-clamp-1' : 'max-h-32 overflow-y-auto'}`} title={step.prompt}>
+                        {step.prompt}
+                    </p>
+                </li>
+            );
+        })}
+    </ol>
+);
+
+export default LineageTimeline;
@@ -0,0 +1,220 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { BulkExtractionRow, extractFromFile, isExtractableFile } from '../services/bulkExtraction';
+import { EXTRACTABLE_MIME_TYPES } from '../services/metadataService';
+import { DiffKind, JsonValueDiff, WordDiffSegment, diffMetadata, diffWords } from '../services/metadataDiff';
+import LoaderIcon from './ui/LoaderIcon';
+
+interface CompareSlot {
+    previewUrl: string;
+    isVideo: boolean;
+    row: BulkExtractionRow | null; // null while extracting
+}
+
+type CompareSlots = [CompareSlot | null, CompareSlot | null];
+
+const replaceSlot = (slots: CompareSlots, index: 0 | 1, slot: CompareSlot): CompareSlots => (index === 0 ? [slot, slots[1]] : [slots[0], slot]);
+
+const kindStyles: Record<DiffKind, string> = {
+    added: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    removed: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    changed: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+    unchanged: 'bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+};
+
+const WordDiff: React.FC<{ segments: WordDiffSegment[] }> = ({ segments }) => (
+    <p className="text-sm text-slate-800 dark:text-slate-200 whitespace-pre-wrap break-words">
+        {segments.map((segment, index) => {
+            if (segment.kind === 'added') {
+                return <ins key={index} className="bg-green-200/70 dark:bg-green-900/60 no-underline rounded-sm">{segment.text}</ins>;
+            }
+            if (segment.kind === 'removed') {
+                return <del key={index} className="bg-red-200/70 dark:bg-red-900/60 rounded-sm">{segment.text}</del>;
+            }
+            return <span key={index}>{segment.text}</span>;
+        })}
+    </p>
+);
+
+const formatJsonValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const JsonValueRow: React.FC<{ diff: JsonValueDiff }> = ({ diff }) => (
+    <div className="grid grid-cols-[8rem_1fr] gap-2 text-sm">
+        <span className="font-mono text-xs text-slate-500 dark:text-slate-400 pt-0.5 break-all">{diff.path || '(value)'}</span>
+        {diff.kind === 'changed' && typeof diff.before === 'string' && typeof diff.after === 'string'
+            ? <WordDiff segments={diffWords(diff.before, diff.after)} />
+            : <WordDiff segments={[{ kind: diff.kind === 'changed' ? 'added' : diff.kind, text: formatJsonValue(diff.after ?? diff.before) }]} />}
+    </div>
+);
+
+const KindBadge: React.FC<{ kind: DiffKind }> = ({ kind }) => (
+    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${kindStyles[kind]}`}>{kind}</span>
+);
+
+interface SlotPickerProps {
+    label: string;
+    slot: CompareSlot | null;
+    onFile: (file: File) => void;
+}
+
+const SlotPicker: React.FC<SlotPickerProps> = ({ label, slot, onFile }) => {
+    const [isDraggingOver, setIsDraggingOver] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDraggingOver(false);
+        const file = e.dataTransfer.files?.[0];
+        if (file) onFile(file);
+    };
+
+    return (
+        <div className="space-y-2">
+            <h3 className="font-semibold text-slate-600 dark:text-slate-300">{label}</h3>
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDraggingOver(true); }}
+                onDragLeave={() => setIsDraggingOver(false)}
+                onDrop={handleDrop}
+                onClick={() => inputRef.current?.click()}
+                className={`cursor-pointer p-3 rounded-lg border-2 border-dashed transition-colors duration-200 ${isDraggingOver ? 'border-indigo-500 bg-slate-200/50 dark:bg-slate-800/50' : 'border-slate-300 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'}`}
+                aria-label={`${label} upload area`}
+            >
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept={EXTRACTABLE_MIME_TYPES.join(',')}
+                    onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) onFile(file); }}
+                    className="hidden"
+                />
+                {slot ? (
+                    slot.isVideo
+                        ? <video src={slot.previewUrl} controls muted className="rounded-lg shadow-lg max-w-full mx-auto max-h-72 object-contain" />
+                        : <img src={slot.previewUrl} alt={label} className="rounded-lg shadow-lg max-w-full mx-auto max-h-72 object-contain" />
+                ) : (
+                    <p className="text-center text-slate-500 dark:text-slate-400 py-16 text-sm">Drag & drop or click to select a file</p>
+                )}
+            </div>
+            {slot && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 break-all">
+                    {slot.row ? <><span className="font-mono">{slot.row.path}</span> — {slot.row.message || 'Metadata found.'}</> : <span className="flex items-center gap-2"><LoaderIcon /> Reading metadata...</span>}
+                </p>
+            )}
+        </div>
+    );
+};
+
+const MetadataCompare: React.FC = () => {
+    const [slots, setSlots] = useState<CompareSlots>([null, null]);
+    const [error, setError] = useState<string | null>(null);
+    const slotsRef = useRef(slots);
+    slotsRef.current = slots;
+
+    useEffect(() => () => {
+        slotsRef.current.forEach(slot => {
+            if (slot) URL.revokeObjectURL(slot.previewUrl);
+        });
+    }, []);
+
+    const handleFile = async (index: 0 | 1, file: File) => {
+        if (!isExtractableFile(file)) {
+            setError('Invalid file type. Please upload a JPEG, PNG, WebP, AVIF or HEIC image, or an MP4 video.');
+            return;
+        }
+        setError(null);
+        const previewUrl = URL.createObjectURL(file);
+        const isVideo = file.type === 'video/mp4' || /\.mp4$/i.test(file.name);
+        const replaced = slotsRef.current[index];
+        if (replaced) URL.revokeObjectURL(replaced.previewUrl);
+        setSlots(previous => replaceSlot(previous, index, { previewUrl, isVideo, row: null }));
+        const row = await extractFromFile(file);
+        setSlots(previous => {
+            // Ignore the result if the slot was replaced while extracting.
+            if (previous[index]?.previewUrl !== previewUrl) return previous;
+            return replaceSlot(previous, index, { previewUrl, isVideo, row });
+        });
+    };
+
+    const [before, after] = slots.map(slot => slot?.row?.metadata ?? null);
+    const diff = useMemo(() => (before && after ? diffMetadata(before, after) : null), [before, after]);
+    const changedCount = diff ? diff.fields.filter(field => field.kind !== 'unchanged').length + (diff.prompt.kind !== 'unchanged' ? 1 : 0) : 0;
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-xl font-semibold text-indigo-500 dark:text-indigo-400">Compare Metadata</h2>
+                <p className="text-slate-600 dark:text-slate-400 mt-1">Load two versions of an asset to see exactly what changed between their embedded generation metadata.</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <SlotPicker label="Before" slot={slots[0]} onFile={(file) => handleFile(0, file)} />
+                <SlotPicker label="After" slot={slots[1]} onFile={(file) => handleFile(1, file)} />
+            </div>
+
+            {error && <p className="p-3 rounded-lg bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-300 text-sm">{error}</p>}
+
+            {slots[0]?.row && slots[1]?.row && !diff && (
+                <p className="p-3 rounded-lg bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-300 text-sm">
+                    Both files need embedded metadata to be compared.
+                </p>
+            )}
+
+            {diff && (
+                <div className="space-y-4 pt-4 border-t border-slate-200 dark:border-slate-800">
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200">
+                        {changedCount === 0 ? 'The metadata is identical.' : `${changedCount} field${changedCount === 1 ? '' : 's'} differ.`}
+                    </h3>
+
+                    <div className="bg-slate-100 dark:bg-slate-800/50 p-4 rounded-lg space-y-2">
+                        <div className="flex items-center gap-2">
+                            <h4 className="font-semibold text-sm text-slate-600 dark:text-slate-400">Prompt</h4>
+                            <KindBadge kind={diff.prompt.kind} />
+                        </div>
+                        {diff.prompt.words && <WordDiff segments={diff.prompt.words} />}
+                        {diff.prompt.parts && (
+                            <ol className="space-y-2">
+                                {diff.prompt.parts.map((part, index) => (
+                                    <li key={index} className="p-2 rounded-md bg-white dark:bg-slate-900 space-y-1">
+                                        <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                                            <span>Part {index + 1}</span>
+                                            <KindBadge kind={part.kind} />
+                                        </div>
+                                        {part.values.map(value => <JsonValueRow key={value.path} diff={value} />)}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+
+                    <div className="overflow-x-auto rounded-lg border border-slate-200 dark:border-slate-800">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-slate-100 dark:bg-slate-800/80 text-left">
+                                <tr>
+                                    <th scope="col" className="px-3 py-2 font-semibold text-slate-600 dark:text-slate-300">Field</th>
+                                    <th scope="col" className="px-3 py-2 font-semibold text-slate-600 dark:text-slate-300">Before</th>
+                                    <th scope="col" className="px-3 py-2 font-semibold text-slate-600 dark:text-slate-300">After</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                                {diff.fields.map(field => (
+                                    <tr key={field.field} className="align-top">
+                                        <td className="px-3 py-2 whitespace-nowrap">
+                                            <span className="font-semibold text-slate-700 dark:text-slate-300 mr-2">{field.label}</span>
+                                            <KindBadge kind={field.kind} />
+                                        </td>
+                                        <td className="px-3 py-2 font-mono text-xs text-slate-700 dark:text-slate-300 whitespace-pre-wrap break-words">{field.before ?? '—'}</td>
+                                        <td className="px-3 py-2 font-mono text-xs text-slate-700 dark:text-slate-300 whitespace-pre-wrap break-words">
+                                            {field.kind === 'changed' && field.before !== undefined && field.after !== undefined
+                                                ? <WordDiff segments={diffWords(field.before, field.after)} />
+                                                : field.after ?? '—'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MetadataCompare;
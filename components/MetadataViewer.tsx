@@ -1,7 +1,10 @@
 import React from 'react';
 import { useAppContext } from '../state/AppContext';
+import type { SignatureVerification } from '../services/signatureService';
+import type { ExifPreservation } from '../types';
 import Tooltip from './ui/Tooltip';
 import LoaderIcon from './ui/LoaderIcon';
+import LineageTimeline from './LineageTimeline';
 
 const formatJsonDisplay = (jsonString: string | null): string => {
     if (!jsonString) return '';
@@ -44,6 +47,37 @@ const MetadataItem: React.FC<MetadataItemProps> = ({ label, value, isCode = fals
     </div>
 );
 
+const SignatureBadge: React.FC<{ verification: SignatureVerification | null }> = ({ verification }) => {
+    if (!verification) {
+        return <p className="text-sm text-slate-500 dark:text-slate-400">Checking signature...</p>;
+    }
+    const { status, isOwnKey } = verification;
+    const styles = {
+        valid: 'bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-300',
+        tampered: 'bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-300',
+        unsigned: 'bg-slate-200 dark:bg-slate-800 text-slate-700 dark:text-slate-300',
+    };
+    const labels = {
+        valid: isOwnKey ? 'Signature valid (signed in this browser)' : 'Signature valid (signed by another key)',
+        tampered: 'Signature invalid: the metadata or pixels were modified after signing',
+        unsigned: 'Unsigned: the origin of this metadata cannot be verified',
+    };
+    return (
+        <div className={`p-3 rounded-lg text-sm font-semibold ${styles[status]}`} role="status">
+            {labels[status]}
+            {status === 'tampered' && (
+                <p className="mt-1 text-xs font-normal">Browsers that alter decoded pixels, e.g. for anti-fingerprinting, can also cause this for an unmodified image.</p>
+            )}
+        </div>
+    );
+};
+
+const exifPreservationOptions: { field: keyof ExifPreservation; label: string }[] = [
+    { field: 'camera', label: 'Camera make & model' },
+    { field: 'dateTime', label: 'Date & time taken' },
+    { field: 'gps', label: 'GPS location' },
+];
+
 interface MetadataViewerProps {
     onUsePrompt: () => void;
     onDownloadDescribedImage: () => void;
@@ -51,7 +85,7 @@ interface MetadataViewerProps {
 
 const MetadataViewer: React.FC<MetadataViewerProps> = ({ onUsePrompt, onDownloadDescribedImage }) => {
     const { state, dispatch } = useAppContext();
-    const { imagePreview, extractedMetadata, isEditingPrompt, isPromptValid, isDescriptionGenerated, isEmbedding } = state;
+    const { imagePreview, extractedMetadata, isEditingPrompt, isPromptValid, isDescriptionGenerated, isEmbedding, signatureVerification, exifPreservation } = state;
     const displayPrompt = formatJsonDisplay(extractedMetadata?.prompt || null);
 
     if (!imagePreview) {
@@ -83,16 +117,32 @@ const MetadataViewer: React.FC<MetadataViewerProps> = ({ onUsePrompt, onDownload
                 <div className="bg-white dark:bg-slate-900 rounded-lg p-6 sm:p-8 space-y-6">
                     <div>
                         <h2 className="text-xl font-semibold text-indigo-500 dark:text-indigo-400 mb-4">Image Preview</h2>
-                        <img src={imagePreview} alt="Uploaded for metadata extraction" className="rounded-xl shadow-lg max-w-full mx-auto" />
+                        {imagePreview.startsWith('data:video/')
+                            ? <video src={imagePreview} controls muted className="rounded-xl shadow-lg max-w-full mx-auto" />
+                            : <img src={imagePreview} alt="Uploaded for metadata extraction" className="rounded-xl shadow-lg max-w-full mx-auto" />}
                     </div>
 
                     {extractedMetadata && (
                         <div className="space-y-4 pt-4 border-t border-slate-200 dark:border-slate-800">
                             <h3 className="text-xl font-semibold text-indigo-500 dark:text-indigo-400">Extracted Metadata</h3>
+                            {!isDescriptionGenerated && <SignatureBadge verification={signatureVerification} />}
                             <div className="bg-slate-100 dark:bg-slate-800/50 p-4 rounded-lg space-y-4">
                                 <MetadataItem label="Model" value={extractedMetadata.model} isMono />
                                 {extractedMetadata.aspectRatio && <MetadataItem label="Aspect Ratio" value={extractedMetadata.aspectRatio} isMono />}
+                                {extractedMetadata.resolution && <MetadataItem label="Resolution" value={extractedMetadata.resolution} isMono />}
                                 {extractedMetadata.originalPrompt && <MetadataItem label="Original Prompt" value={extractedMetadata.originalPrompt} isMono />}
+                                {extractedMetadata.source && (
+                                    <MetadataItem
+                                        label="Imported From"
+                                        value={[
+                                            extractedMetadata.source.generator === 'comfyui' ? 'ComfyUI' : 'Automatic1111',
+                                            extractedMetadata.source.modelName,
+                                            extractedMetadata.source.width && extractedMetadata.source.height && `${extractedMetadata.source.width}x${extractedMetadata.source.height}`,
+                                        ].filter(Boolean).join(' · ')}
+                                        isMono
+                                    />
+                                )}
+                                {extractedMetadata.negativePrompt && <MetadataItem label="Negative Prompt" value={extractedMetadata.negativePrompt} isCode />}
                             </div>
 
                             <div className="space-y-2">
@@ -112,6 +162,12 @@ const MetadataViewer: React.FC<MetadataViewerProps> = ({ onUsePrompt, onDownload
                                     }`}><code>{displayPrompt}</code></pre>
                                 )}
                             </div>
+                            {extractedMetadata.lineage && extractedMetadata.lineage.length > 1 && (
+                                <div className="space-y-2">
+                                    <h4 className="font-semibold text-sm text-slate-600 dark:text-slate-400">Lineage</h4>
+                                    <LineageTimeline lineage={extractedMetadata.lineage} />
+                                </div>
+                            )}
                             <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-4 pt-2">
                                 <Tooltip tip="Manually edit the extracted prompt and other metadata." className="flex-1">
                                     <button onClick={onToggleEdit} className="w-full bg-green-700 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200">
@@ -125,7 +181,24 @@ const MetadataViewer: React.FC<MetadataViewerProps> = ({ onUsePrompt, onDownload
                                 </Tooltip>
                             </div>
                              {isDescriptionGenerated && (
-                                <div className="pt-2">
+                                <div className="pt-2 space-y-3">
+                                    <fieldset className="bg-slate-100 dark:bg-slate-800/50 p-3 rounded-lg">
+                                        <legend className="sr-only">Original EXIF to keep</legend>
+                                        <p className="font-semibold text-sm text-slate-600 dark:text-slate-400 mb-2">Keep from the original photo</p>
+                                        <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                            {exifPreservationOptions.map(({ field, label }) => (
+                                                <label key={field} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={exifPreservation[field]}
+                                                        onChange={() => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'exifPreservation', value: { ...exifPreservation, [field]: !exifPreservation[field] } } })}
+                                                        className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                                    />
+                                                    {label}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </fieldset>
                                     <Tooltip tip="Download the uploaded image with the new AI-generated description embedded in its metadata.">
                                         <button
                                             onClick={onDownloadDescribedImage}
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { useAppContext } from '../state/AppContext';
+import { EXTRACTABLE_MIME_TYPES } from '../services/metadataService';
 import LoaderIcon from './ui/LoaderIcon';
 import Tooltip from './ui/Tooltip';
 
@@ -13,6 +14,7 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ onFileSelect, onDescr
   const { 
     extractedMetadata, imagePreview, extractionMessage, isPromptValid, isDescribing
   } = state;
+  const isVideoPreview = !!imagePreview?.startsWith('data:video/');
 
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -20,12 +22,11 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ onFileSelect, onDescr
   const processFile = useCallback((file: File | null) => {
     if (!file) return;
 
-    const allowedTypes = ['image/jpeg', 'image/png'];
-    if (allowedTypes.includes(file.type)) {
+    if (EXTRACTABLE_MIME_TYPES.includes(file.type)) {
       dispatch({ type: 'SET_ERROR', payload: null }); // Clear previous validation error
       onFileSelect(file);
     } else {
-      dispatch({ type: 'SET_ERROR', payload: 'Invalid file type. Please upload a JPEG or PNG image.' });
+      dispatch({ type: 'SET_ERROR', payload: 'Invalid file type. Please upload a JPEG, PNG, WebP, AVIF or HEIC image, or an MP4 video.' });
     }
   }, [onFileSelect, dispatch]);
 
@@ -58,7 +59,7 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ onFileSelect, onDescr
     <div className="space-y-6">
       <div>
         <h2 className="text-xl font-semibold text-indigo-500 dark:text-indigo-400">Extract Metadata from Image</h2>
-        <p className="text-slate-600 dark:text-slate-400 mt-1">Upload an image (JPEG/PNG) to check for an embedded generation prompt and other metadata.</p>
+        <p className="text-slate-600 dark:text-slate-400 mt-1">Upload an image (JPEG/PNG/WebP/AVIF/HEIC) or MP4 video to check for an embedded generation prompt and other metadata.</p>
       </div>
 
       <div
@@ -69,11 +70,13 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ onFileSelect, onDescr
           className={`relative cursor-pointer p-4 rounded-lg border-2 border-dashed transition-colors duration-200 ${isDraggingOver ? 'border-indigo-500 bg-slate-200/50 dark:bg-slate-800/50' : 'border-slate-300 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'}`}
           aria-label="Image upload area"
       >
-        <input ref={fileInputRef} type="file" accept="image/jpeg,image/png" onChange={handleFileChange} className="hidden" />
+        <input ref={fileInputRef} type="file" accept={EXTRACTABLE_MIME_TYPES.join(',')} onChange={handleFileChange} className="hidden" />
         
         {imagePreview ? (
             <div className="relative group">
-                <img src={imagePreview} alt="Uploaded preview" className="rounded-lg shadow-lg max-w-full mx-auto max-h-64 object-contain" />
+                {isVideoPreview
+                    ? <video src={imagePreview} muted className="rounded-lg shadow-lg max-w-full mx-auto max-h-64 object-contain" />
+                    : <img src={imagePreview} alt="Uploaded preview" className="rounded-lg shadow-lg max-w-full mx-auto max-h-64 object-contain" />}
                 <div className="absolute inset-0 bg-black/60 rounded-lg flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                     <p className="text-white font-semibold text-center px-2">Click or drop a new image to replace</p>
                 </div>
@@ -105,7 +108,7 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ onFileSelect, onDescr
             )}
         </div>
       )}
-       {imagePreview && !extractedMetadata && (
+       {imagePreview && !extractedMetadata && !isVideoPreview && (
         <div className="pt-2">
             <Tooltip tip="If no metadata is found, use AI to analyze the image and generate a descriptive prompt for you.">
                 <button
@@ -2,21 +2,28 @@ import React from 'react';
 import { useAppContext } from '../state/AppContext';
 import LoaderIcon from './ui/LoaderIcon';
 import Tooltip from './ui/Tooltip';
+import VersionNavigator from './VersionNavigator';
 
 interface ResultsViewerProps {
     onRefine: () => void;
     onUndo: () => void;
+    onRedo: () => void;
     onDownloadImage: (index: number) => void;
+    onSelectVersion: (versionId: string) => void;
 }
 
-const ResultsViewer: React.FC<ResultsViewerProps> = ({ onRefine, onUndo, onDownloadImage }) => {
+const ResultsViewer: React.FC<ResultsViewerProps> = ({ onRefine, onUndo, onRedo, onDownloadImage, onSelectVersion }) => {
     const { state, dispatch } = useAppContext();
-    const { generatedImages, generatedVideoUrl, selectedImageIndex, isLoading, loadingMessage, isRefining, refinementPrompt, model, refinementCreativeStrength, refinementStyle, activeHistoryId, activeBatchHistoryIds, generationHistory, undoState } = state;
+    const { generatedImages, generatedVideoUrl, generatedVideoMetadata, selectedImageIndex, isLoading, loadingMessage, isRefining, refinementPrompt, model, refinementCreativeStrength, refinementStyle, activeHistoryId, activeBatchHistoryIds, generationHistory, versionUndoStacks } = state;
 
     const historyIdToUse = activeBatchHistoryIds ? activeBatchHistoryIds[selectedImageIndex] : activeHistoryId;
     const activeHistoryItem = generationHistory.find(h => h.id === historyIdToUse);
 
     const isImagen = activeHistoryItem?.metadata.model === 'imagen-4.0-generate-001';
+    // Undo/redo cover every image of the item, so steps for other images count too.
+    const undoStack = activeHistoryItem ? versionUndoStacks[activeHistoryItem.id] : undefined;
+    const undoCount = undoStack?.past.length ?? 0;
+    const redoCount = undoStack?.future.length ?? 0;
 
     if (isLoading) {
         return (
@@ -41,7 +48,7 @@ const ResultsViewer: React.FC<ResultsViewerProps> = ({ onRefine, onUndo, onDownl
                  </div>
                  <a 
                     href={generatedVideoUrl} 
-                    download="generated-video.mp4" 
+                    download={`${generatedVideoMetadata?.filenameSlug || 'generated-video'}.mp4`}
                     className="block w-full text-center bg-green-600 hover:bg-green-500 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200"
                 >
                     Download Video
@@ -102,6 +109,14 @@ const ResultsViewer: React.FC<ResultsViewerProps> = ({ onRefine, onUndo, onDownl
                     <button onClick={() => onDownloadImage(selectedImageIndex)} className="block w-full text-center bg-green-600 hover:bg-green-500 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200">
                         Download Selected Image with Metadata
                     </button>
+                    {activeHistoryItem && (
+                        <VersionNavigator
+                            item={activeHistoryItem}
+                            imageIndex={activeBatchHistoryIds ? 0 : selectedImageIndex}
+                            onSelectVersion={onSelectVersion}
+                            disabled={isRefining}
+                        />
+                    )}
                 </div>
             )}
 
@@ -177,20 +192,38 @@ const ResultsViewer: React.FC<ResultsViewerProps> = ({ onRefine, onUndo, onDownl
                             >
                                 {isRefining ? <><LoaderIcon /> Refining...</> : 'Apply Refinement'}
                             </button>
-                            {undoState && undoState.selectedImageIndex === selectedImageIndex && (
-                                <Tooltip tip="Revert the last refinement applied to this image." className="flex-shrink-0">
-                                    <button
-                                        onClick={onUndo}
-                                        disabled={isLoading || isRefining}
-                                        className="w-full sm:w-auto flex justify-center items-center gap-2 bg-slate-500 hover:bg-slate-600 disabled:bg-slate-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors"
-                                        aria-label="Undo last refinement"
-                                    >
-                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9.707 14.707a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 1.414L7.414 9H15a1 1 0 110 2H7.414l2.293 2.293a1 1 0 010 1.414z" clipRule="evenodd" /></svg>
-                                        Undo
-                                    </button>
-                                </Tooltip>
+                            {(undoCount > 0 || redoCount > 0) && (
+                                <div className="flex flex-shrink-0 gap-2">
+                                    <Tooltip tip={`Revert the last refinement or version change (Ctrl+Z). ${undoCount} step${undoCount === 1 ? '' : 's'} available.`} className="flex-1 sm:flex-none">
+                                        <button
+                                            onClick={onUndo}
+                                            disabled={isLoading || isRefining || undoCount === 0}
+                                            className="w-full sm:w-auto flex justify-center items-center gap-2 bg-slate-500 hover:bg-slate-600 disabled:bg-slate-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors"
+                                            aria-label="Undo last refinement"
+                                        >
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9.707 14.707a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 1.414L7.414 9H15a1 1 0 110 2H7.414l2.293 2.293a1 1 0 010 1.414z" clipRule="evenodd" /></svg>
+                                            Undo
+                                        </button>
+                                    </Tooltip>
+                                    <Tooltip tip="Reapply the change you last undid (Ctrl+Shift+Z)." className="flex-1 sm:flex-none">
+                                        <button
+                                            onClick={onRedo}
+                                            disabled={isLoading || isRefining || redoCount === 0}
+                                            className="w-full sm:w-auto flex justify-center items-center gap-2 bg-slate-500 hover:bg-slate-600 disabled:bg-slate-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors"
+                                            aria-label="Redo refinement"
+                                        >
+                                            Redo
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10.293 5.293a1 1 0 011.414 0l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414-1.414L12.586 11H5a1 1 0 110-2h7.586l-2.293-2.293a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                                        </button>
+                                    </Tooltip>
+                                </div>
                             )}
                         </div>
+                        {redoCount > 0 && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400" aria-live="polite">
+                                {redoCount} step{redoCount === 1 ? '' : 's'} back. A new refinement replaces the steps you undid.
+                            </p>
+                        )}
                     </div>
                     <div className="relative flex py-2 items-center">
                         <div className="flex-grow border-t border-slate-300 dark:border-slate-700"></div>
@@ -1,15 +1,38 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAppContext } from '../state/AppContext';
+import type { EvictionPolicy, OutputFormat } from '../types';
+import { StorageUsage, formatBytes, getStorageUsage } from '../services/storageManager';
 import Tooltip from './ui/Tooltip';
 
+const outputFormats: { value: OutputFormat; label: string }[] = [
+    { value: 'png', label: 'PNG' },
+    { value: 'webp', label: 'WebP' },
+    { value: 'jpeg', label: 'JPEG' },
+];
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Empty inputs mean "no limit".
+const parseLimit = (value: string): number | null => {
+    const parsed = Number(value);
+    return value.trim() === '' || !Number.isFinite(parsed) || parsed <= 0 ? null : parsed;
+};
+
+const limitFields: { field: 'maxItems' | 'maxAgeDays' | 'maxBytes'; label: string; unit: string; scale: number }[] = [
+    { field: 'maxItems', label: 'Max items', unit: 'items', scale: 1 },
+    { field: 'maxAgeDays', label: 'Max age', unit: 'days', scale: 1 },
+    { field: 'maxBytes', label: 'Max size', unit: 'MB', scale: BYTES_PER_MB },
+];
+
 interface SettingsProps {
     onCheckKey: () => void;
 }
 
 const Settings: React.FC<SettingsProps> = ({ onCheckKey }) => {
     const { state, dispatch } = useAppContext();
-    const { isNightMode } = state;
+    const { isNightMode, outputFormat, signMetadata, watermarkImages, embedTagsOnDownload, evictionPolicy, trashRetentionDays } = state;
     const [isOpen, setIsOpen] = useState(false);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
     const menuRef = useRef<HTMLDivElement>(null);
 
     const toggleNightMode = () => {
@@ -28,6 +51,17 @@ const Settings: React.FC<SettingsProps> = ({ onCheckKey }) => {
         };
     }, []);
     
+    useEffect(() => {
+        if (!isOpen) return;
+        getStorageUsage()
+            .then(setStorageUsage)
+            .catch(error => console.warn('Could not estimate storage usage', error));
+    }, [isOpen, state.generationHistory]);
+
+    const updateEvictionPolicy = (changes: Partial<EvictionPolicy>) => {
+        dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'evictionPolicy', value: { ...evictionPolicy, ...changes } } });
+    };
+
     const handleCheckKey = () => {
         onCheckKey();
         setIsOpen(false);
@@ -47,7 +81,7 @@ const Settings: React.FC<SettingsProps> = ({ onCheckKey }) => {
                 </svg>
             </button>
             {isOpen && (
-                <div className="absolute top-full right-0 mt-2 w-56 bg-white dark:bg-slate-800 rounded-lg shadow-2xl ring-1 ring-black ring-opacity-5 z-50 p-2 space-y-1">
+                <div className="absolute top-full right-0 mt-2 w-72 bg-white dark:bg-slate-800 rounded-lg shadow-2xl ring-1 ring-black ring-opacity-5 z-50 p-2 space-y-1">
                     <div className="flex items-center justify-between p-2">
                         <label htmlFor="night-mode-toggle" className="text-sm font-medium text-slate-700 dark:text-slate-300">
                             Night Mode
@@ -65,6 +99,143 @@ const Settings: React.FC<SettingsProps> = ({ onCheckKey }) => {
                             </button>
                         </Tooltip>
                     </div>
+                    <div className="flex items-center justify-between p-2">
+                        <label htmlFor="sign-metadata-toggle" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                            Sign Metadata
+                        </label>
+                        <Tooltip tip="Sign embedded metadata with a key stored in this browser so edits can be detected." position="left">
+                            <button
+                                type="button"
+                                role="switch"
+                                aria-checked={signMetadata}
+                                onClick={() => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'signMetadata', value: !signMetadata } })}
+                                id="sign-metadata-toggle"
+                                className={`${signMetadata ? 'bg-indigo-600' : 'bg-slate-300 dark:bg-slate-600'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-slate-800`}
+                            >
+                                <span className={`${signMetadata ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`} />
+                            </button>
+                        </Tooltip>
+                    </div>
+                    <div className="flex items-center justify-between p-2">
+                        <label htmlFor="watermark-toggle" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                            Invisible Watermark
+                        </label>
+                        <Tooltip tip="Hide an ID in the pixels so images can be matched to your history even after apps strip their metadata." position="left">
+                            <button
+                                type="button"
+                                role="switch"
+                                aria-checked={watermarkImages}
+                                onClick={() => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'watermarkImages', value: !watermarkImages } })}
+                                id="watermark-toggle"
+                                className={`${watermarkImages ? 'bg-indigo-600' : 'bg-slate-300 dark:bg-slate-600'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-slate-800`}
+                            >
+                                <span className={`${watermarkImages ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`} />
+                            </button>
+                        </Tooltip>
+                    </div>
+                    <div className="flex items-center justify-between p-2">
+                        <label htmlFor="embed-tags-toggle" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                            Embed Tags on Download
+                        </label>
+                        <Tooltip tip="Add a history item's tags to the image metadata when it is downloaded." position="left">
+                            <button
+                                type="button"
+                                role="switch"
+                                aria-checked={embedTagsOnDownload}
+                                onClick={() => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'embedTagsOnDownload', value: !embedTagsOnDownload } })}
+                                id="embed-tags-toggle"
+                                className={`${embedTagsOnDownload ? 'bg-indigo-600' : 'bg-slate-300 dark:bg-slate-600'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-slate-800`}
+                            >
+                                <span className={`${embedTagsOnDownload ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`} />
+                            </button>
+                        </Tooltip>
+                    </div>
+                    <div className="border-t border-slate-200 dark:border-slate-700"></div>
+                    <div className="p-2">
+                        <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Image Format</p>
+                        <div className="grid grid-cols-3 gap-1">
+                            {outputFormats.map(({ value, label }) => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    onClick={() => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'outputFormat', value } })}
+                                    className={`py-1 text-xs rounded-md transition-colors ${outputFormat === value ? 'bg-indigo-600 text-white' : 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-slate-500 mt-2">Format used when saving generated images with their metadata.</p>
+                    </div>
+                    <div className="border-t border-slate-200 dark:border-slate-700"></div>
+                    <div className="p-2 space-y-2">
+                        <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Storage</p>
+                        {storageUsage ? (
+                            <div>
+                                <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                                    <div className="h-full bg-indigo-600" style={{ width: `${storageUsage.quota > 0 ? Math.min(100, (storageUsage.usage / storageUsage.quota) * 100) : 0}%` }} />
+                                </div>
+                                <p className="text-xs text-slate-500 mt-1">
+                                    {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used{storageUsage.persisted ? ' · persistent' : ''}
+                                </p>
+                            </div>
+                        ) : (
+                            <p className="text-xs text-slate-500">Storage usage is not available in this browser.</p>
+                        )}
+                        <p className="text-xs text-slate-500">After each generation, the oldest history items beyond these limits are moved to the trash. The size limit counts the trash too: beyond it, the longest-trashed items are deleted for good. Leave a field empty for no limit.</p>
+                        {limitFields.map(({ field, label, unit, scale }) => (
+                            <div key={field} className="flex items-center justify-between gap-2">
+                                <label htmlFor={`eviction-${field}`} className="text-xs text-slate-700 dark:text-slate-300">{label}</label>
+                                <div className="flex items-center gap-1">
+                                    <input
+                                        id={`eviction-${field}`}
+                                        type="number"
+                                        min={1}
+                                        value={evictionPolicy[field] === null ? '' : evictionPolicy[field]! / scale}
+                                        onChange={(e) => {
+                                            const limit = parseLimit(e.target.value);
+                                            updateEvictionPolicy({ [field]: limit === null ? null : Math.max(1, Math.round(limit * scale)) });
+                                        }}
+                                        placeholder="No limit"
+                                        className="w-20 px-2 py-1 text-xs bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                    <span className="w-8 text-xs text-slate-500">{unit}</span>
+                                </div>
+                            </div>
+                        ))}
+                        <div className="flex items-center justify-between">
+                            <label htmlFor="keep-favorites-toggle" className="text-xs text-slate-700 dark:text-slate-300">
+                                Never remove favorites
+                            </label>
+                            <button
+                                type="button"
+                                role="switch"
+                                aria-checked={evictionPolicy.keepFavorites}
+                                onClick={() => updateEvictionPolicy({ keepFavorites: !evictionPolicy.keepFavorites })}
+                                id="keep-favorites-toggle"
+                                className={`${evictionPolicy.keepFavorites ? 'bg-indigo-600' : 'bg-slate-300 dark:bg-slate-600'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-slate-800`}
+                            >
+                                <span className={`${evictionPolicy.keepFavorites ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`} />
+                            </button>
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <label htmlFor="trash-retention" className="text-xs text-slate-700 dark:text-slate-300">Keep deleted items in the trash for</label>
+                            <div className="flex items-center gap-1">
+                                <input
+                                    id="trash-retention"
+                                    type="number"
+                                    min={1}
+                                    value={trashRetentionDays}
+                                    onChange={(e) => {
+                                        const days = parseLimit(e.target.value);
+                                        if (days !== null) dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'trashRetentionDays', value: Math.max(1, Math.round(days)) } });
+                                    }}
+                                    className="w-20 px-2 py-1 text-xs bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                                <span className="w-8 text-xs text-slate-500">days</span>
+                            </div>
+                        </div>
+                    </div>
                     <div className="border-t border-slate-200 dark:border-slate-700"></div>
                      <button onClick={handleCheckKey} className="w-full text-left p-2 rounded-md text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700">
                         Check API Key Status
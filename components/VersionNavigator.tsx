@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import type { HistoryItem, ImageVersion } from '../state/AppContext';
+import { loadHistoryImageBlob } from '../services/historyStore';
+import { flattenVersionTree, getCurrentVersion } from '../services/versionTree';
+import { operationLabels } from './LineageTimeline';
+
+interface VersionNavigatorProps {
+    item: HistoryItem;
+    imageIndex: number;
+    onSelectVersion: (versionId: string) => void;
+    disabled?: boolean;
+}
+
+const VersionPreview: React.FC<{ version: ImageVersion }> = ({ version }) => {
+    const [objectUrl, setObjectUrl] = useState<string | null>(null);
+    const key = version.thumbnailKey ?? version.imageKey;
+
+    useEffect(() => {
+        let url: string | null = null;
+        let isCancelled = false;
+        loadHistoryImageBlob(key).then(blob => {
+            if (!blob || isCancelled) return;
+            url = URL.createObjectURL(blob);
+            setObjectUrl(url);
+        }).catch(error => console.warn('Could not load image version', error));
+        return () => {
+            isCancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [key]);
+
+    return objectUrl
+        ? <img src={objectUrl} alt="" className="w-12 h-12 object-cover rounded" />
+        : <div className="w-12 h-12 rounded bg-slate-200 dark:bg-slate-800" />;
+};
+
+// The version tree of one image: each refinement is indented under the version it was made from.
+const VersionNavigator: React.FC<VersionNavigatorProps> = ({ item, imageIndex, onSelectVersion, disabled = false }) => {
+    const nodes = flattenVersionTree(item, imageIndex);
+    if (nodes.length < 2) return null;
+    const currentId = getCurrentVersion(item, imageIndex)?.id;
+
+    return (
+        <div>
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Versions ({nodes.length})</h4>
+            <ol className="max-h-64 overflow-y-auto space-y-1 pr-1">
+                {nodes.map(({ version, depth }) => {
+                    const lastStep = version.metadata.lineage?.[version.metadata.lineage.length - 1];
+                    const isCurrent = version.id === currentId;
+                    return (
+                        <li key={version.id} style={{ paddingLeft: `${Math.min(depth, 8)}rem` }}>
+                            <button
+                                type="button"
+                                onClick={() => onSelectVersion(version.id)}
+                                disabled={disabled || isCurrent}
+                                aria-current={isCurrent}
+                                className={`w-full flex items-center gap-2 p-1 rounded-lg text-left transition-colors ${isCurrent ? 'bg-teal-100 dark:bg-teal-900/40 ring-1 ring-teal-500' : 'hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-60'}`}
+                            >
+                                <VersionPreview version={version} />
+                                <span className="min-w-0 text-xs">
+                                    <span className="block font-semibold text-slate-700 dark:text-slate-300">
+                                        {lastStep ? operationLabels[lastStep.operation] : 'Generated'}
+                                        <span className="ml-1 font-normal text-slate-500 dark:text-slate-400">{new Date(version.timestamp).toLocaleTimeString()}</span>
+                                    </span>
+                                    <span className="block font-mono text-slate-600 dark:text-slate-400 truncate" title={lastStep?.prompt ?? version.metadata.prompt}>
+                                        {lastStep?.prompt ?? version.metadata.prompt}
+                                    </span>
+                                </span>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default VersionNavigator;
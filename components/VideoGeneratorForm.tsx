@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { useAppContext } from '../state/AppContext';
 import { VideoAspectRatio, VideoResolution } from '../types';
 import LoaderIcon from './ui/LoaderIcon';
@@ -12,12 +12,12 @@ interface VideoGeneratorFormProps {
 }
 
 const VideoGeneratorForm: React.FC<VideoGeneratorFormProps> = ({ onGenerate }) => {
-    const { state } = useAppContext();
-    const { isLoading } = state;
+    const { state, dispatch } = useAppContext();
+    const { isLoading, videoPrompt: prompt, videoResolution: resolution, videoAspectRatio: aspectRatio } = state;
 
-    const [prompt, setPrompt] = useState('A cinematic shot of a futuristic city at sunset, with flying cars weaving through holographic advertisements.');
-    const [resolution, setResolution] = useState<VideoResolution>('720p');
-    const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>('16:9');
+    const setPrompt = (value: string) => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'videoPrompt', value } });
+    const setResolution = (value: VideoResolution) => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'videoResolution', value } });
+    const setAspectRatio = (value: VideoAspectRatio) => dispatch({ type: 'SET_FORM_FIELD', payload: { field: 'videoAspectRatio', value } });
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
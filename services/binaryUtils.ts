@@ -0,0 +1,146 @@
+// Low-level helpers shared by the image container codecs.
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const utf8Encode = (text: string): Uint8Array => textEncoder.encode(text);
+
+export const utf8Decode = (bytes: Uint8Array): string => textDecoder.decode(bytes);
+
+export const latin1Encode = (text: string): Uint8Array => {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+        bytes[i] = text.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+};
+
+export const latin1Decode = (bytes: Uint8Array): string => {
+    let result = '';
+    for (let i = 0; i < bytes.length; i++) {
+        result += String.fromCharCode(bytes[i]);
+    }
+    return result;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    // Chunked to avoid blowing the argument limit of String.fromCharCode on large images.
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+export const getMimeTypeFromDataUrl = (dataUrl: string): string => {
+    return dataUrl.match(/^data:(.*?)[;,]/)?.[1] || 'application/octet-stream';
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const [, data] = dataUrl.split(',');
+    return base64ToBytes(data || '');
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+    return `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+};
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+export const readUint32BE = (bytes: Uint8Array, offset: number): number => {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+};
+
+export const writeUint32BE = (bytes: Uint8Array, offset: number, value: number) => {
+    bytes[offset] = (value >>> 24) & 0xff;
+    bytes[offset + 1] = (value >>> 16) & 0xff;
+    bytes[offset + 2] = (value >>> 8) & 0xff;
+    bytes[offset + 3] = value & 0xff;
+};
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+// MD5 is required by the Extended XMP format to identify its packet; it is not used for security.
+export const md5Hex = (bytes: Uint8Array): string => {
+    const paddedLength = (((bytes.length + 8) >> 6) + 1) << 6;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(bytes);
+    padded[bytes.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, (bytes.length * 8) >>> 0, true);
+    view.setUint32(paddedLength - 4, Math.floor(bytes.length / 2 ** 29), true);
+
+    const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+    for (let block = 0; block < paddedLength; block += 64) {
+        let [a, b, c, d] = state;
+        for (let i = 0; i < 64; i++) {
+            let f: number;
+            let g: number;
+            if (i < 16) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (i < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (i < 48) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+            const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+            const sum = (a + f + MD5_CONSTANTS[i] + view.getUint32(block + g * 4, true)) >>> 0;
+            [a, d, c] = [d, c, b];
+            b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0;
+        }
+        state[0] = (state[0] + a) >>> 0;
+        state[1] = (state[1] + b) >>> 0;
+        state[2] = (state[2] + c) >>> 0;
+        state[3] = (state[3] + d) >>> 0;
+    }
+
+    const digest = new DataView(new ArrayBuffer(16));
+    state.forEach((word, index) => digest.setUint32(index * 4, word, true));
+    return Array.from(new Uint8Array(digest.buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+};
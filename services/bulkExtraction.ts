@@ -0,0 +1,138 @@
+import type { GenerationMetadata } from '../state/AppContext';
+import { EXTRACTABLE_MIME_TYPES, extractMetadataFromImage } from './metadataService';
+
+// Runs metadata extraction over many files (or dropped folders) and exports the results as CSV or JSON.
+
+export type BulkExtractionStatus = 'found' | 'upgraded' | 'invalid' | 'missing' | 'error';
+
+export interface BulkExtractionRow {
+    path: string; // Relative path inside a dropped folder, or the file name
+    size: number;
+    status: BulkExtractionStatus;
+    message: string;
+    model?: string;
+    prompt?: string;
+    aspectRatio?: string;
+    metadata?: GenerationMetadata;
+}
+
+// Some platforms report an empty type for HEIC files, so fall back to the extension.
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    heic: 'image/heic',
+    heif: 'image/heif',
+    mp4: 'video/mp4',
+};
+
+const getFilePath = (file: File): string => file.webkitRelativePath || file.name;
+
+export const isExtractableFile = (file: File): boolean => {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    return EXTRACTABLE_MIME_TYPES.includes(file.type) || extension in EXTENSION_MIME_TYPES;
+};
+
+const readFileAsDataUrl = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error("Error reading file."));
+        reader.readAsDataURL(file);
+    });
+};
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+    return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+};
+
+const entryToFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        // Keep the folder structure in the report; dropped files don't get a webkitRelativePath.
+        Object.defineProperty(file, 'webkitRelativePath', { value: entry.fullPath.replace(/^\//, '') });
+        return [file];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    // readEntries returns results in batches until it yields an empty one.
+    for (let batch = await readDirectoryEntries(reader); batch.length > 0; batch = await readDirectoryEntries(reader)) {
+        for (const child of batch) {
+            files.push(...await entryToFiles(child));
+        }
+    }
+    return files;
+};
+
+// Flattens dropped files and folders into a list of files.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry());
+    if (entries.some(entry => entry === null)) {
+        return Array.from(dataTransfer.files);
+    }
+    const files = await Promise.all(entries.map(entry => entryToFiles(entry!)));
+    return files.flat();
+};
+
+export const extractFromFile = async (file: File): Promise<BulkExtractionRow> => {
+    const base = { path: getFilePath(file), size: file.size };
+    try {
+        const dataUrl = await readFileAsDataUrl(file);
+        const result = extractMetadataFromImage(dataUrl);
+        if (!result) {
+            return { ...base, status: 'missing', message: 'No embedded metadata found.' };
+        }
+
+        const { metadata, errors } = result;
+        const fields = metadata ? { model: metadata.model, prompt: metadata.prompt, aspectRatio: metadata.aspectRatio, metadata } : {};
+        if (!metadata || errors.length > 0) {
+            return { ...base, ...fields, status: 'invalid', message: errors.map(error => `${error.field}: ${error.message}`).join(' ') };
+        }
+        if (result.wasMigrated) {
+            return { ...base, ...fields, status: 'upgraded', message: `Upgraded from schema version ${result.sourceVersion}.` };
+        }
+        return { ...base, ...fields, status: 'found', message: metadata.source ? `Imported from ${metadata.source.generator}.` : '' };
+    } catch (e: any) {
+        return { ...base, status: 'error', message: e.message || 'Could not read file.' };
+    }
+};
+
+// Files are processed one at a time so a folder of large images doesn't exhaust memory.
+export const extractFromFiles = async (
+    files: File[],
+    onProgress: (row: BulkExtractionRow, completed: number) => void,
+    shouldCancel: () => boolean = () => false,
+): Promise<BulkExtractionRow[]> => {
+    const rows: BulkExtractionRow[] = [];
+    for (const file of files) {
+        if (shouldCancel()) break;
+        const row = await extractFromFile(file);
+        rows.push(row);
+        onProgress(row, rows.length);
+    }
+    return rows;
+};
+
+const CSV_COLUMNS: (keyof BulkExtractionRow)[] = ['path', 'status', 'model', 'aspectRatio', 'prompt', 'message', 'size'];
+
+const escapeCsvField = (value: unknown): string => {
+    let text = value === undefined || value === null ? '' : String(value);
+    // Stop spreadsheet apps from evaluating prompts that happen to start like a formula.
+    if (/^[=+\-@]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const rowsToCsv = (rows: BulkExtractionRow[]): string => {
+    const lines = [CSV_COLUMNS.join(','), ...rows.map(row => CSV_COLUMNS.map(column => escapeCsvField(row[column])).join(','))];
+    return lines.join('\r\n');
+};
+
+export const rowsToJson = (rows: BulkExtractionRow[]): string => {
+    return JSON.stringify(rows.map(({ path, size, status, message, metadata }) => ({ path, size, status, message, metadata: metadata ?? null })), null, 2);
+};
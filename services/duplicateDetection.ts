@@ -0,0 +1,130 @@
+import type { HistoryItem } from '../state/AppContext';
+import { normalizeTags } from './historyTags';
+
+// Near-duplicate detection for history items, based on a difference hash (dHash): the image is
+// shrunk to 9x8 grayscale pixels and each of the 64 bits records whether a pixel is brighter than
+// its right-hand neighbour. Similar images differ in only a few bits, whatever their size or format.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+export const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+export const DEFAULT_DUPLICATE_THRESHOLD = 6; // Maximum number of differing bits
+
+export const computeImageHash = (source: string | Blob): Promise<string> => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    return new Promise<string>((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = HASH_WIDTH;
+            canvas.height = HASH_HEIGHT;
+            const ctx = canvas.getContext('2d', { willReadFrequently: true });
+            if (!ctx) return reject(new Error('Could not get canvas context'));
+            ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+            const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+            const luma = (x: number, y: number) => {
+                const offset = (y * HASH_WIDTH + x) * 4;
+                return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+            };
+            let hex = '';
+            for (let y = 0; y < HASH_HEIGHT; y++) {
+                let byte = 0;
+                for (let x = 0; x < HASH_WIDTH - 1; x++) {
+                    byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+                }
+                hex += byte.toString(16).padStart(2, '0');
+            }
+            resolve(hex);
+        };
+        img.onerror = () => reject(new Error('Failed to load image for hashing.'));
+        img.src = url;
+    }).finally(() => {
+        if (url !== source) URL.revokeObjectURL(url);
+    });
+};
+
+// Hashes are only used to spot duplicates, so images that can't be hashed are left out instead of
+// failing the save. Returns a map from image key to hash.
+export const hashHistoryImages = async (imageKeys: string[], images: (string | Blob)[]): Promise<Record<string, string>> => {
+    const hashes: Record<string, string> = {};
+    for (const [index, key] of imageKeys.entries()) {
+        try {
+            hashes[key] = await computeImageHash(images[index]);
+        } catch (error) {
+            console.warn('Could not hash a history image', error);
+        }
+    }
+    return hashes;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+        for (; diff; diff &= diff - 1) distance++;
+    }
+    return distance;
+};
+
+// The hashes of the images an item currently shows, or null while any of them is missing.
+export const getCurrentImageHashes = (item: HistoryItem): string[] | null => {
+    const hashes = item.imageKeys.map(key => item.imageHashes?.[key]);
+    return hashes.length > 0 && hashes.every(Boolean) ? hashes as string[] : null;
+};
+
+// Two items are near-duplicates when they have the same number of images and each image is within
+// `threshold` bits of its counterpart. Groups are transitive and sorted newest first.
+export const findDuplicateGroups = (history: HistoryItem[], threshold: number): HistoryItem[][] => {
+    const hashed = history.flatMap(item => {
+        const hashes = getCurrentImageHashes(item);
+        return hashes ? [{ item, hashes }] : [];
+    });
+
+    const parent = hashed.map((_, index) => index);
+    const find = (index: number): number => {
+        while (parent[index] !== index) {
+            parent[index] = parent[parent[index]];
+            index = parent[index];
+        }
+        return index;
+    };
+    for (let i = 0; i < hashed.length; i++) {
+        for (let j = i + 1; j < hashed.length; j++) {
+            const a = hashed[i].hashes;
+            const b = hashed[j].hashes;
+            if (a.length === b.length && a.every((hash, index) => hammingDistance(hash, b[index]) <= threshold)) {
+                parent[find(j)] = find(i);
+            }
+        }
+    }
+
+    const groups = new Map<number, HistoryItem[]>();
+    hashed.forEach(({ item }, index) => {
+        const root = find(index);
+        groups.set(root, [...(groups.get(root) ?? []), item]);
+    });
+    return Array.from(groups.values())
+        .filter(group => group.length > 1)
+        .map(group => group.sort((a, b) => b.timestamp - a.timestamp));
+};
+
+// Favorites win over other items, then the newest one.
+export const chooseItemToKeep = (group: HistoryItem[]): HistoryItem => (
+    group.reduce((best, item) => {
+        if (!!item.isFavorite !== !!best.isFavorite) return item.isFavorite ? item : best;
+        return item.timestamp > best.timestamp ? item : best;
+    })
+);
+
+// The kept item takes over the tags, collections and notes of the items merged into it.
+export const mergeHistoryItems = (kept: HistoryItem, merged: HistoryItem[]): HistoryItem => {
+    const all = [kept, ...merged];
+    const notes = Array.from(new Set(all.map(item => item.notes?.trim()).filter((note): note is string => !!note)));
+    return {
+        ...kept,
+        isFavorite: all.some(item => item.isFavorite),
+        tags: normalizeTags(all.flatMap(item => item.tags ?? [])),
+        collectionIds: Array.from(new Set(all.flatMap(item => item.collectionIds ?? []))),
+        notes: notes.length > 0 ? notes.join('\n\n') : undefined,
+    };
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExifData, createAsciiEntry, createExifData, createShortEntry, readAsciiEntry, readExif, writeExif, EXIF_TYPE_UNDEFINED } from './exifMetadata';
+import { latin1Encode } from './binaryUtils';
+
+const ORIENTATION = 274;
+const IMAGE_DESCRIPTION = 270;
+const MAKE = 271;
+
+// Little-endian TIFF built by hand: IFD0 with an out-of-line ASCII value and an inline SHORT.
+const buildLittleEndianTiff = (description: string): Uint8Array => {
+    const text = latin1Encode(`${description}\0`);
+    const ifdOffset = 8;
+    const valueOffset = ifdOffset + 2 + 2 * 12 + 4;
+    const bytes = new Uint8Array(valueOffset + text.length);
+    const view = new DataView(bytes.buffer);
+    bytes.set([0x49, 0x49], 0);
+    view.setUint16(2, 42, true);
+    view.setUint32(4, ifdOffset, true);
+    view.setUint16(ifdOffset, 2, true);
+    // ImageDescription, ASCII
+    view.setUint16(ifdOffset + 2, IMAGE_DESCRIPTION, true);
+    view.setUint16(ifdOffset + 4, 2, true);
+    view.setUint32(ifdOffset + 6, text.length, true);
+    view.setUint32(ifdOffset + 10, valueOffset, true);
+    // Orientation, SHORT 6
+    view.setUint16(ifdOffset + 14, ORIENTATION, true);
+    view.setUint16(ifdOffset + 16, 3, true);
+    view.setUint32(ifdOffset + 18, 1, true);
+    view.setUint16(ifdOffset + 22, 6, true);
+    view.setUint32(ifdOffset + 26, 0, true); // No IFD1
+    bytes.set(text, valueOffset);
+    return bytes;
+};
+
+const buildSampleExif = (): ExifData => {
+    const data = createExifData();
+    data.image.set(IMAGE_DESCRIPTION, createAsciiEntry('{"prompt":"a lighthouse at dusk"}'));
+    data.image.set(ORIENTATION, createShortEntry(1));
+    data.exif.set(36867, createAsciiEntry('2026:10:19 12:00:00'));
+    data.exif.set(37500, { type: EXIF_TYPE_UNDEFINED, count: 6, data: new Uint8Array([1, 2, 3, 4, 5, 6]) });
+    data.gps.set(0, { type: 1, count: 4, data: new Uint8Array([2, 3, 0, 0]) });
+    data.interop.set(1, createAsciiEntry('R98'));
+    data.thumbnailIfd.set(259, createShortEntry(6));
+    data.thumbnail = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+    return data;
+};
+
+describe('exifMetadata', () => {
+    it('round-trips every IFD and the thumbnail through big-endian TIFF', () => {
+        const original = buildSampleExif();
+        const tiff = writeExif(original);
+        expect(Array.from(tiff.subarray(0, 4))).toEqual([0x4d, 0x4d, 0x00, 42]);
+
+        const read = readExif(tiff);
+        expect(read).toEqual(original);
+        expect(writeExif(read)).toEqual(tiff);
+    });
+
+    it('reads little-endian TIFF and writes it back big-endian', () => {
+        const read = readExif(buildLittleEndianTiff('little endian'));
+        expect(readAsciiEntry(read.image.get(IMAGE_DESCRIPTION))).toBe('little endian');
+        expect(read.image.get(ORIENTATION)).toEqual(createShortEntry(6));
+
+        const rewritten = writeExif(read);
+        expect(rewritten[0]).toBe(0x4d);
+        expect(readExif(rewritten)).toEqual(read);
+    });
+
+    it('keeps tags of unknown meaning byte for byte', () => {
+        const data = createExifData();
+        data.image.set(0xc4a5, { type: EXIF_TYPE_UNDEFINED, count: 9, data: new Uint8Array([9, 8, 7, 6, 5, 4, 3, 2, 1]) });
+        expect(readExif(writeExif(data)).image.get(0xc4a5)?.data).toEqual(new Uint8Array([9, 8, 7, 6, 5, 4, 3, 2, 1]));
+    });
+
+    it('rejects data too short for a TIFF header', () => {
+        expect(() => readExif(new Uint8Array([0x4d, 0x4d, 0x00]))).toThrow(/too short/);
+    });
+
+    it('rejects an invalid byte order marker or TIFF magic number', () => {
+        const tiff = writeExif(buildSampleExif());
+        const badOrder = tiff.slice();
+        badOrder.set([0x58, 0x58], 0);
+        expect(() => readExif(badOrder)).toThrow(/byte order/);
+
+        const badMagic = tiff.slice();
+        badMagic[3] = 43;
+        expect(() => readExif(badMagic)).toThrow(/TIFF header/);
+    });
+
+    it('rejects an IFD0 offset or entry table outside the data', () => {
+        const tiff = writeExif(buildSampleExif());
+        const badOffset = tiff.slice();
+        new DataView(badOffset.buffer).setUint32(4, tiff.length + 10);
+        expect(() => readExif(badOffset)).toThrow(/truncated/);
+
+        expect(() => readExif(tiff.subarray(0, 20))).toThrow(/truncated/);
+    });
+
+    it('skips an entry whose value points outside the data and keeps the rest', () => {
+        const tiff = buildLittleEndianTiff('a description longer than four bytes');
+        new DataView(tiff.buffer).setUint32(8 + 10, 0xfff0, true);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const read = readExif(tiff);
+        expect(warn).toHaveBeenCalledWith(`Skipping EXIF tag ${IMAGE_DESCRIPTION}:`, expect.any(Error));
+        warn.mockRestore();
+        expect(read.image.has(IMAGE_DESCRIPTION)).toBe(false);
+        expect(read.image.get(ORIENTATION)).toEqual(createShortEntry(6));
+    });
+
+    it('drops a sub-IFD whose pointer is broken instead of failing', () => {
+        const data = createExifData();
+        data.image.set(MAKE, createAsciiEntry('Camera'));
+        data.exif.set(36867, createAsciiEntry('2026:10:19 12:00:00'));
+        const tiff = writeExif(data);
+        // The Exif IFD pointer is the second IFD0 entry (tags are sorted); point it past the end.
+        const pointerValue = 8 + 2 + 12 + 8;
+        new DataView(tiff.buffer).setUint32(pointerValue, tiff.length + 100);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const read = readExif(tiff);
+        expect(warn).toHaveBeenCalledWith('Could not read the EXIF Exif IFD:', expect.any(Error));
+        warn.mockRestore();
+        expect(readAsciiEntry(read.image.get(MAKE))).toBe('Camera');
+        expect(read.exif.size).toBe(0);
+        expect(read.image.get(34665)).toBeUndefined();
+    });
+});
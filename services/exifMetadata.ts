@@ -0,0 +1,294 @@
+import { concatBytes, latin1Decode, latin1Encode } from './binaryUtils';
+
+// Reads and writes EXIF data in its TIFF layout (the payload after "Exif\0\0" in JPEG/WebP/HEIF).
+//
+// Values are kept as raw bytes so tags we don't understand survive a read/write round trip unchanged.
+// They are normalized to big-endian on read and always written big-endian ("MM"). The pointers to the
+// Exif, GPS and Interoperability IFDs and to the thumbnail are recomputed on write, so they never
+// appear in the IFD maps. Offsets stored inside tag values (e.g. some maker notes) are not rewritten.
+
+// TIFF field types used by the helpers below; entries may carry any of the twelve types.
+export const EXIF_TYPE_BYTE = 1;
+export const EXIF_TYPE_ASCII = 2;
+export const EXIF_TYPE_SHORT = 3;
+export const EXIF_TYPE_LONG = 4;
+export const EXIF_TYPE_UNDEFINED = 7;
+
+export interface ExifEntry {
+    type: number; // TIFF field type, 1-12
+    count: number;
+    data: Uint8Array; // Big-endian value bytes
+}
+
+export type ExifIfd = Map<number, ExifEntry>;
+
+export interface ExifData {
+    image: ExifIfd; // IFD0, a.k.a. "0th"
+    exif: ExifIfd;
+    gps: ExifIfd;
+    interop: ExifIfd;
+    thumbnailIfd: ExifIfd; // IFD1, a.k.a. "1st"
+    thumbnail: Uint8Array | null; // JPEG thumbnail referenced from IFD1
+}
+
+const TAG_EXIF_IFD = 34665;
+const TAG_GPS_IFD = 34853;
+const TAG_INTEROP_IFD = 40965;
+const TAG_THUMBNAIL_OFFSET = 513;
+const TAG_THUMBNAIL_LENGTH = 514;
+
+const TIFF_MAGIC = 42;
+const TIFF_HEADER_SIZE = 8;
+const IFD_ENTRY_SIZE = 12;
+
+// Bytes per component, and the size of the unit whose byte order is swapped (rationals are two longs).
+const TYPE_SIZES: Record<number, { size: number; unit: number }> = {
+    1: { size: 1, unit: 1 }, // BYTE
+    2: { size: 1, unit: 1 }, // ASCII
+    3: { size: 2, unit: 2 }, // SHORT
+    4: { size: 4, unit: 4 }, // LONG
+    5: { size: 8, unit: 4 }, // RATIONAL
+    6: { size: 1, unit: 1 }, // SBYTE
+    7: { size: 1, unit: 1 }, // UNDEFINED
+    8: { size: 2, unit: 2 }, // SSHORT
+    9: { size: 4, unit: 4 }, // SLONG
+    10: { size: 8, unit: 4 }, // SRATIONAL
+    11: { size: 4, unit: 4 }, // FLOAT
+    12: { size: 8, unit: 8 }, // DOUBLE
+};
+
+export const createExifData = (): ExifData => ({
+    image: new Map(),
+    exif: new Map(),
+    gps: new Map(),
+    interop: new Map(),
+    thumbnailIfd: new Map(),
+    thumbnail: null,
+});
+
+export const cloneExifData = (data: ExifData): ExifData => ({
+    image: new Map(data.image),
+    exif: new Map(data.exif),
+    gps: new Map(data.gps),
+    interop: new Map(data.interop),
+    thumbnailIfd: new Map(data.thumbnailIfd),
+    thumbnail: data.thumbnail,
+});
+
+// ASCII values are NUL-terminated; any byte above 0x7f is kept as its Latin-1 character.
+export const createAsciiEntry = (text: string): ExifEntry => {
+    const data = concatBytes(latin1Encode(text), new Uint8Array([0]));
+    return { type: EXIF_TYPE_ASCII, count: data.length, data };
+};
+
+export const readAsciiEntry = (entry: ExifEntry | undefined): string | null => {
+    if (!entry || (entry.type !== EXIF_TYPE_ASCII && entry.type !== EXIF_TYPE_UNDEFINED && entry.type !== EXIF_TYPE_BYTE)) {
+        return null;
+    }
+    return latin1Decode(entry.data).replace(/\0+$/, '');
+};
+
+export const createShortEntry = (value: number): ExifEntry => {
+    return { type: EXIF_TYPE_SHORT, count: 1, data: new Uint8Array([(value >> 8) & 0xff, value & 0xff]) };
+};
+
+const createLongEntry = (value: number): ExifEntry => {
+    return { type: EXIF_TYPE_LONG, count: 1, data: new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]) };
+};
+
+// --- Reading ---
+
+interface TiffReader {
+    uint16: (offset: number) => number;
+    uint32: (offset: number) => number;
+    value: (offset: number, type: number, count: number) => Uint8Array;
+    check: (offset: number, length: number) => void;
+}
+
+const createTiffReader = (bytes: Uint8Array, littleEndian: boolean): TiffReader => {
+    const check = (offset: number, length: number) => {
+        if (offset < 0 || offset + length > bytes.length) {
+            throw new Error(`EXIF data is truncated (offset ${offset} is out of range).`);
+        }
+    };
+    return {
+        check,
+        uint16: (offset) => {
+            check(offset, 2);
+            const [a, b] = [bytes[offset], bytes[offset + 1]];
+            return littleEndian ? a | (b << 8) : (a << 8) | b;
+        },
+        uint32: (offset) => {
+            check(offset, 4);
+            const [a, b, c, d] = [bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]];
+            return (littleEndian ? a | (b << 8) | (c << 16) | (d << 24) : (a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+        },
+        // Copies the value bytes, reversing each unit when the file is little-endian.
+        value: (offset, type, count) => {
+            const { size, unit } = TYPE_SIZES[type];
+            check(offset, size * count);
+            const data = bytes.slice(offset, offset + size * count);
+            if (littleEndian && unit > 1) {
+                for (let i = 0; i < data.length; i += unit) {
+                    data.subarray(i, i + unit).reverse();
+                }
+            }
+            return data;
+        },
+    };
+};
+
+const readIfd = (reader: TiffReader, offset: number): { entries: ExifIfd; next: number } => {
+    const count = reader.uint16(offset);
+    reader.check(offset + 2, count * IFD_ENTRY_SIZE + 4);
+
+    const entries: ExifIfd = new Map();
+    for (let i = 0; i < count; i++) {
+        const entryOffset = offset + 2 + i * IFD_ENTRY_SIZE;
+        const tag = reader.uint16(entryOffset);
+        const type = reader.uint16(entryOffset + 2);
+        const valueCount = reader.uint32(entryOffset + 4);
+        if (!TYPE_SIZES[type]) continue; // Unknown type, so the value size is unknown too
+
+        const byteLength = TYPE_SIZES[type].size * valueCount;
+        const valueOffset = byteLength > 4 ? reader.uint32(entryOffset + 8) : entryOffset + 8;
+        try {
+            entries.set(tag, { type, count: valueCount, data: reader.value(valueOffset, type, valueCount) });
+        } catch (e) {
+            // A single entry pointing outside the data shouldn't make the rest unreadable.
+            console.warn(`Skipping EXIF tag ${tag}:`, e);
+        }
+    }
+    return { entries, next: reader.uint32(offset + 2 + count * IFD_ENTRY_SIZE) };
+};
+
+const readPointer = (ifd: ExifIfd, tag: number): number | null => {
+    const entry = ifd.get(tag);
+    ifd.delete(tag);
+    if (!entry || entry.data.length < 4 || (entry.type !== EXIF_TYPE_LONG && entry.type !== EXIF_TYPE_UNDEFINED)) {
+        return null;
+    }
+    const b = entry.data;
+    return ((b[0] << 24) | (b[1] << 16) | (b[2] << 8) | b[3]) >>> 0;
+};
+
+// Reads a sub-IFD, returning an empty one if its pointer is missing or broken.
+const readSubIfd = (reader: TiffReader, pointer: number | null, name: string): ExifIfd => {
+    if (!pointer) return new Map();
+    try {
+        return readIfd(reader, pointer).entries;
+    } catch (e) {
+        console.warn(`Could not read the EXIF ${name} IFD:`, e);
+        return new Map();
+    }
+};
+
+// Throws when the TIFF header or IFD0 is unreadable; damaged sub-IFDs and entries are skipped.
+export const readExif = (tiff: Uint8Array): ExifData => {
+    if (tiff.length < TIFF_HEADER_SIZE) {
+        throw new Error("EXIF data is too short for a TIFF header.");
+    }
+    const byteOrder = latin1Decode(tiff.subarray(0, 2));
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+        throw new Error("EXIF data has an invalid byte order marker.");
+    }
+    const reader = createTiffReader(tiff, byteOrder === 'II');
+    if (reader.uint16(2) !== TIFF_MAGIC) {
+        throw new Error("EXIF data has an invalid TIFF header.");
+    }
+
+    const data = createExifData();
+    const ifd0 = readIfd(reader, reader.uint32(4));
+    data.image = ifd0.entries;
+    data.exif = readSubIfd(reader, readPointer(data.image, TAG_EXIF_IFD), 'Exif');
+    data.gps = readSubIfd(reader, readPointer(data.image, TAG_GPS_IFD), 'GPS');
+    data.interop = readSubIfd(reader, readPointer(data.exif, TAG_INTEROP_IFD), 'Interoperability');
+
+    if (ifd0.next) {
+        data.thumbnailIfd = readSubIfd(reader, ifd0.next, 'thumbnail');
+        const thumbnailOffset = readPointer(data.thumbnailIfd, TAG_THUMBNAIL_OFFSET);
+        const thumbnailLength = readPointer(data.thumbnailIfd, TAG_THUMBNAIL_LENGTH);
+        if (thumbnailOffset && thumbnailLength && thumbnailOffset + thumbnailLength <= tiff.length) {
+            data.thumbnail = tiff.slice(thumbnailOffset, thumbnailOffset + thumbnailLength);
+        }
+    }
+    return data;
+};
+
+// --- Writing ---
+
+const valueSize = (entry: ExifEntry) => entry.data.length;
+
+// Values longer than four bytes live after the entry table, padded to an even offset.
+const ifdSize = (ifd: ExifIfd): number => {
+    let size = 2 + ifd.size * IFD_ENTRY_SIZE + 4;
+    ifd.forEach(entry => {
+        if (valueSize(entry) > 4) size += valueSize(entry) + (valueSize(entry) % 2);
+    });
+    return size;
+};
+
+const encodeIfd = (ifd: ExifIfd, offset: number, next: number): Uint8Array => {
+    const bytes = new Uint8Array(ifdSize(ifd));
+    const view = new DataView(bytes.buffer);
+    const tags = Array.from(ifd.keys()).sort((a, b) => a - b);
+    view.setUint16(0, tags.length);
+
+    let dataOffset = 2 + tags.length * IFD_ENTRY_SIZE + 4;
+    tags.forEach((tag, index) => {
+        const entry = ifd.get(tag)!;
+        const entryOffset = 2 + index * IFD_ENTRY_SIZE;
+        view.setUint16(entryOffset, tag);
+        view.setUint16(entryOffset + 2, entry.type);
+        view.setUint32(entryOffset + 4, entry.count);
+        if (valueSize(entry) <= 4) {
+            bytes.set(entry.data, entryOffset + 8);
+        } else {
+            view.setUint32(entryOffset + 8, offset + dataOffset);
+            bytes.set(entry.data, dataOffset);
+            dataOffset += valueSize(entry) + (valueSize(entry) % 2);
+        }
+    });
+    view.setUint32(2 + tags.length * IFD_ENTRY_SIZE, next);
+    return bytes;
+};
+
+// Returns big-endian TIFF bytes, without the "Exif\0\0" prefix. Empty sub-IFDs are left out.
+export const writeExif = (data: ExifData): Uint8Array => {
+    const image: ExifIfd = new Map(data.image);
+    const exif: ExifIfd = new Map(data.exif);
+    const thumbnailIfd: ExifIfd = new Map(data.thumbnailIfd);
+    const hasThumbnailIfd = thumbnailIfd.size > 0 || data.thumbnail !== null;
+
+    // Pointers are fixed-size, so placeholders give the final layout before the offsets are known.
+    if (data.interop.size > 0) exif.set(TAG_INTEROP_IFD, createLongEntry(0));
+    if (exif.size > 0) image.set(TAG_EXIF_IFD, createLongEntry(0));
+    if (data.gps.size > 0) image.set(TAG_GPS_IFD, createLongEntry(0));
+    if (data.thumbnail) {
+        thumbnailIfd.set(TAG_THUMBNAIL_OFFSET, createLongEntry(0));
+        thumbnailIfd.set(TAG_THUMBNAIL_LENGTH, createLongEntry(data.thumbnail.length));
+    }
+
+    const imageOffset = TIFF_HEADER_SIZE;
+    const exifOffset = imageOffset + ifdSize(image);
+    const gpsOffset = exifOffset + (exif.size > 0 ? ifdSize(exif) : 0);
+    const interopOffset = gpsOffset + (data.gps.size > 0 ? ifdSize(data.gps) : 0);
+    const thumbnailIfdOffset = interopOffset + (data.interop.size > 0 ? ifdSize(data.interop) : 0);
+    const thumbnailOffset = thumbnailIfdOffset + (hasThumbnailIfd ? ifdSize(thumbnailIfd) : 0);
+
+    if (image.has(TAG_EXIF_IFD)) image.set(TAG_EXIF_IFD, createLongEntry(exifOffset));
+    if (image.has(TAG_GPS_IFD)) image.set(TAG_GPS_IFD, createLongEntry(gpsOffset));
+    if (exif.has(TAG_INTEROP_IFD)) exif.set(TAG_INTEROP_IFD, createLongEntry(interopOffset));
+    if (thumbnailIfd.has(TAG_THUMBNAIL_OFFSET)) thumbnailIfd.set(TAG_THUMBNAIL_OFFSET, createLongEntry(thumbnailOffset));
+
+    const header = new Uint8Array([0x4d, 0x4d, 0x00, TIFF_MAGIC, 0x00, 0x00, 0x00, TIFF_HEADER_SIZE]);
+    return concatBytes(
+        header,
+        encodeIfd(image, imageOffset, hasThumbnailIfd ? thumbnailIfdOffset : 0),
+        exif.size > 0 ? encodeIfd(exif, exifOffset, 0) : new Uint8Array(0),
+        data.gps.size > 0 ? encodeIfd(data.gps, gpsOffset, 0) : new Uint8Array(0),
+        data.interop.size > 0 ? encodeIfd(data.interop, interopOffset, 0) : new Uint8Array(0),
+        hasThumbnailIfd ? encodeIfd(thumbnailIfd, thumbnailIfdOffset, 0) : new Uint8Array(0),
+        data.thumbnail ?? new Uint8Array(0),
+    );
+};
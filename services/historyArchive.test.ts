@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GenerationMetadata, HistoryItem } from '../state/AppContext';
+import { HISTORY_ARCHIVE_FORMAT, HISTORY_ARCHIVE_VERSION, importHistoryArchive } from './historyArchive';
+import { utf8Encode } from './binaryUtils';
+import { createZip } from './zipArchive';
+
+// Image storage, thumbnails and hashes need IndexedDB and a canvas.
+vi.mock('./historyStore', () => ({
+    saveHistoryImages: async (historyId: string, dataUrls: string[]) => dataUrls.map((_, index) => `${historyId}-${index}`),
+    loadHistoryImageBlob: async () => null,
+}));
+vi.mock('./thumbnail', () => ({ saveHistoryThumbnail: async () => undefined }));
+vi.mock('./duplicateDetection', () => ({ hashHistoryImages: async () => ({}) }));
+
+const metadata: GenerationMetadata = { schemaVersion: 2, model: 'imagen-4.0-generate-001', prompt: 'a lighthouse', aspectRatio: '1:1' };
+
+const buildArchive = (manifest: unknown): Blob => createZip([
+    { name: 'manifest.json', data: utf8Encode(JSON.stringify(manifest)) },
+    { name: 'images/hist-1-0.png', data: new Uint8Array([1, 2, 3]) },
+]);
+
+const archive = buildArchive({
+    format: HISTORY_ARCHIVE_FORMAT,
+    version: HISTORY_ARCHIVE_VERSION,
+    items: [{ id: 'hist-1', timestamp: 1000, metadata, images: [{ path: 'images/hist-1-0.png', mimeType: 'image/png' }] }],
+});
+
+const unrelatedItem: HistoryItem = { id: 'hist-1', imageKeys: ['hist-1-0'], timestamp: 2000, metadata: { ...metadata, prompt: 'a forest' } };
+
+describe('historyArchive', () => {
+    it('renames an item whose ID is taken and skips it when the archive is imported again', async () => {
+        const first = await importHistoryArchive(archive, [unrelatedItem], []);
+        expect(first.items).toHaveLength(1);
+        expect(first.items[0].id).toMatch(/^hist-1-import-/);
+
+        const second = await importHistoryArchive(archive, [unrelatedItem, ...first.items], []);
+        expect(second.items).toEqual([]);
+        expect(second.duplicateCount).toBe(1);
+    });
+
+    it('does not reuse the ID of a trashed item', async () => {
+        const { items } = await importHistoryArchive(archive, [], [], ['hist-1']);
+        expect(items[0].id).not.toBe('hist-1');
+    });
+
+    it('counts malformed items and collections as unreadable instead of failing', async () => {
+        const malformed = buildArchive({
+            format: HISTORY_ARCHIVE_FORMAT,
+            version: HISTORY_ARCHIVE_VERSION,
+            items: [null, { id: 'hist-2', timestamp: 1, metadata, images: [{ path: 3 }] }, { id: 'hist-3', timestamp: 1, metadata, images: [], tags: 'castle' }],
+            collections: [{ id: 7 }, 'favorites'],
+        });
+        await expect(importHistoryArchive(malformed, [], [])).resolves.toEqual({ items: [], collections: [], duplicateCount: 0, invalidCount: 3 });
+        await expect(importHistoryArchive(buildArchive({ format: 'other', items: [] }), [], [])).rejects.toThrow(/not a history archive/);
+    });
+});
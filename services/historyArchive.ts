@@ -0,0 +1,196 @@
+import type { HistoryCollection, HistoryItem } from '../state/AppContext';
+import { bytesToDataUrl, utf8Decode, utf8Encode } from './binaryUtils';
+import { loadHistoryImageBlob, saveHistoryImages } from './historyStore';
+import { migrateMetadata } from './metadataSchema';
+import { getExtensionForMimeType } from './metadataService';
+import { hashHistoryImages } from './duplicateDetection';
+import { saveHistoryThumbnail } from './thumbnail';
+import { ZipEntry, createZip, readZip } from './zipArchive';
+
+// Portable history archives: a ZIP holding each item's images (with their embedded metadata) and a
+// manifest.json with the history items. Image keys are local to a browser, so the manifest refers
+// to images by their path in the archive instead.
+
+export const HISTORY_ARCHIVE_FORMAT = 'gemini-exif-history';
+export const HISTORY_ARCHIVE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface ArchivedImage {
+    path: string;
+    mimeType: string;
+}
+
+// Thumbnails and image hashes are not archived; they are recreated on import. Only the chosen version
+// of each image is archived.
+type ArchivedHistoryItem = Omit<HistoryItem, 'imageKeys' | 'thumbnailKey' | 'versions' | 'imageHashes'> & { images: ArchivedImage[] };
+
+interface HistoryArchiveManifest {
+    format: typeof HISTORY_ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    items: ArchivedHistoryItem[];
+    collections?: HistoryCollection[]; // The collections the items belong to
+}
+
+export interface HistoryImportResult {
+    items: HistoryItem[];
+    collections: HistoryCollection[]; // Collections to create for the imported items
+    duplicateCount: number; // Already in this history
+    invalidCount: number; // Unreadable items or items with missing images
+}
+
+// Items whose images are all missing from storage are left out; `missingImageCount` reports them.
+export const exportHistoryArchive = async (items: HistoryItem[], collections: HistoryCollection[]): Promise<{ archive: Blob; missingImageCount: number }> => {
+    const entries: ZipEntry[] = [];
+    const archivedItems: ArchivedHistoryItem[] = [];
+    let missingImageCount = 0;
+
+    for (const { imageKeys, thumbnailKey: _thumbnailKey, versions: _versions, imageHashes: _imageHashes, ...item } of items) {
+        const images: ArchivedImage[] = [];
+        for (const [index, key] of imageKeys.entries()) {
+            const blob = await loadHistoryImageBlob(key);
+            if (!blob) {
+                missingImageCount++;
+                continue;
+            }
+            const path = `images/${item.id}-${index}.${getExtensionForMimeType(blob.type)}`;
+            entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+            images.push({ path, mimeType: blob.type });
+        }
+        if (images.length > 0) {
+            archivedItems.push({ ...item, images });
+        }
+    }
+
+    const manifest: HistoryArchiveManifest = {
+        format: HISTORY_ARCHIVE_FORMAT,
+        version: HISTORY_ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        items: archivedItems,
+        collections: collections.filter(collection => archivedItems.some(item => item.collectionIds?.includes(collection.id))),
+    };
+    entries.unshift({ name: MANIFEST_PATH, data: utf8Encode(JSON.stringify(manifest, null, 2)) });
+    return { archive: createZip(entries), missingImageCount };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+// The manifest is untrusted input; its items and collections are checked one by one when imported.
+const readManifest = (entries: Map<string, Uint8Array>): { items: unknown[]; collections: unknown[] } => {
+    const data = entries.get(MANIFEST_PATH);
+    if (!data) {
+        throw new Error("This ZIP file is not a history archive (manifest.json is missing).");
+    }
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(utf8Decode(data));
+    } catch {
+        throw new Error("The archive's manifest.json is not valid JSON.");
+    }
+    if (!isRecord(manifest) || manifest.format !== HISTORY_ARCHIVE_FORMAT || typeof manifest.version !== 'number' || !Array.isArray(manifest.items)) {
+        throw new Error("This ZIP file is not a history archive.");
+    }
+    if (manifest.version > HISTORY_ARCHIVE_VERSION) {
+        throw new Error(`This archive was made by a newer version of the app (archive version ${manifest.version}).`);
+    }
+    return { items: manifest.items, collections: Array.isArray(manifest.collections) ? manifest.collections : [] };
+};
+
+const isArchivedImage = (image: unknown): image is ArchivedImage => (
+    isRecord(image) && typeof image.path === 'string' && typeof image.mimeType === 'string'
+);
+
+const isArchivedItem = (item: unknown): item is ArchivedHistoryItem => (
+    isRecord(item)
+    && typeof item.id === 'string'
+    && typeof item.timestamp === 'number'
+    && Array.isArray(item.images)
+    && item.images.every(isArchivedImage)
+    && (item.tags === undefined || isStringArray(item.tags))
+    && (item.collectionIds === undefined || isStringArray(item.collectionIds))
+    && (item.notes === undefined || typeof item.notes === 'string')
+    && (item.isFavorite === undefined || typeof item.isFavorite === 'boolean')
+);
+
+const isArchivedCollection = (collection: unknown): collection is HistoryCollection => (
+    isRecord(collection) && typeof collection.id === 'string' && typeof collection.name === 'string'
+);
+
+const isSameItem = (a: Pick<HistoryItem, 'timestamp' | 'metadata'>, b: Pick<HistoryItem, 'timestamp' | 'metadata'>) => (
+    a.timestamp === b.timestamp && JSON.stringify(a.metadata) === JSON.stringify(b.metadata)
+);
+
+// Archived collections are matched to existing ones by ID, then by name; the rest are created.
+// Returns a map from archived to local collection IDs.
+const mergeCollections = (archived: HistoryCollection[], existing: HistoryCollection[], created: HistoryCollection[]): Map<string, string> => {
+    const idMap = new Map<string, string>();
+    for (const collection of archived) {
+        const match = existing.find(local => local.id === collection.id)
+            ?? existing.find(local => local.name.toLowerCase() === collection.name.toLowerCase());
+        if (match) {
+            idMap.set(collection.id, match.id);
+        } else {
+            created.push({ id: collection.id, name: collection.name });
+            idMap.set(collection.id, collection.id);
+        }
+    }
+    return idMap;
+};
+
+const createImportId = (id: string, takenIds: Set<string>): string => {
+    let importId = id;
+    while (takenIds.has(importId)) {
+        importId = `${id}-import-${Math.random().toString(36).substring(2, 8)}`;
+    }
+    return importId;
+};
+
+// Reads an archive and stores its images. Items already in `existingHistory` are skipped, whatever
+// ID they were stored under; an unrelated item whose ID is taken, by a history or trash item, gets a new ID.
+export const importHistoryArchive = async (
+    file: Blob,
+    existingHistory: HistoryItem[],
+    existingCollections: HistoryCollection[],
+    trashedIds: string[] = [],
+): Promise<HistoryImportResult> => {
+    const entries = new Map((await readZip(new Uint8Array(await file.arrayBuffer()))).map(entry => [entry.name, entry.data]));
+    const manifest = readManifest(entries);
+
+    const knownItems = [...existingHistory];
+    const takenIds = new Set([...existingHistory.map(item => item.id), ...trashedIds]);
+    const result: HistoryImportResult = { items: [], collections: [], duplicateCount: 0, invalidCount: 0 };
+    const collectionIdMap = mergeCollections(manifest.collections.filter(isArchivedCollection), existingCollections, result.collections);
+
+    for (const archivedItem of manifest.items) {
+        if (!isArchivedItem(archivedItem)) {
+            result.invalidCount++;
+            continue;
+        }
+        const { metadata } = migrateMetadata(archivedItem.metadata);
+        const images = archivedItem.images.map(image => ({ ...image, data: entries.get(image.path) }));
+        if (!metadata || images.length === 0 || images.some(image => !image.data)) {
+            result.invalidCount++;
+            continue;
+        }
+
+        const { images: _images, ...item } = archivedItem;
+        if (knownItems.some(known => isSameItem(known, { ...item, metadata }))) {
+            result.duplicateCount++;
+            continue;
+        }
+        const id = createImportId(item.id, takenIds);
+
+        const dataUrls = images.map(image => bytesToDataUrl(image.data!, image.mimeType));
+        const imageKeys = await saveHistoryImages(id, dataUrls);
+        const thumbnailKey = await saveHistoryThumbnail(id, dataUrls[0]);
+        const imageHashes = await hashHistoryImages(imageKeys, dataUrls);
+        const collectionIds = (item.collectionIds ?? []).flatMap(collectionId => collectionIdMap.get(collectionId) ?? []);
+        const importedItem: HistoryItem = { ...item, id, imageKeys, thumbnailKey, imageHashes, metadata, collectionIds, isFavorite: item.isFavorite ?? false };
+        knownItems.push(importedItem);
+        takenIds.add(id);
+        result.items.push(importedItem);
+    }
+    return result;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { HistoryItem } from '../state/AppContext';
+import { createHistorySearchIndex, highlightMatches, parseSearchQuery } from './historySearch';
+
+const createItem = (id: string, prompt: string, extra: Partial<HistoryItem> = {}): HistoryItem => ({
+    id,
+    imageKeys: [],
+    timestamp: 0,
+    metadata: { schemaVersion: 2, model: 'imagen-4.0-generate-001', prompt, aspectRatio: '1:1' },
+    ...extra,
+});
+
+const history = [
+    createItem('cat', 'a cat on a windowsill'),
+    createItem('catalog', 'a furniture catalog page'),
+    createItem('city', 'neon  city\n at   night', { notes: 'rainy' }),
+    createItem('fields', 'a quiet neon', { notes: 'city lights' }),
+];
+
+const search = (query: string, items = history): string[] => {
+    const index = createHistorySearchIndex();
+    index.update(items);
+    return Array.from(index.search(parseSearchQuery(query), [])).sort();
+};
+
+describe('historySearch', () => {
+    it('matches words by prefix', () => {
+        expect(search('cat')).toEqual(['cat', 'catalog']);
+        expect(search('ci nig')).toEqual(['city']);
+        expect(search('zebra')).toEqual([]);
+    });
+
+    it('excludes only whole words for a negated term', () => {
+        expect(search('-cat')).toEqual(['catalog', 'city', 'fields']);
+        expect(search('cat -catalog')).toEqual(['cat']);
+    });
+
+    it('matches phrases regardless of runs of whitespace', () => {
+        expect(search('"neon city at night"')).toEqual(['city']);
+        expect(search('"neon   city"')).toEqual(['city']);
+        expect(search('-"neon city"')).toEqual(['cat', 'catalog', 'fields']);
+    });
+
+    it('does not match a phrase across two fields', () => {
+        expect(search('"neon city lights"')).toEqual([]);
+        expect(search('"quiet neon"')).toEqual(['fields']);
+    });
+
+    it('keeps prefix lookups correct as items are added and removed', () => {
+        const index = createHistorySearchIndex();
+        index.update(history);
+        expect(Array.from(index.search(parseSearchQuery('cat'), [])).sort()).toEqual(['cat', 'catalog']);
+
+        index.update([...history.filter(item => item.id !== 'catalog'), createItem('caterpillar', 'a caterpillar')]);
+        expect(Array.from(index.search(parseSearchQuery('cat'), [])).sort()).toEqual(['cat', 'caterpillar']);
+        expect(Array.from(index.search(parseSearchQuery('catal'), []))).toEqual([]);
+    });
+
+    it('highlights phrases across runs of whitespace', () => {
+        expect(highlightMatches('neon  city lights', parseSearchQuery('"neon city"'))).toEqual([
+            { text: 'neon  city', isMatch: true },
+            { text: ' lights', isMatch: false },
+        ]);
+    });
+});
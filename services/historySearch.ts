@@ -0,0 +1,239 @@
+import type { HistoryCollection, HistoryItem } from '../state/AppContext';
+import { hasTag } from './historyTags';
+
+// Query language for the history search box. Terms are ANDed together:
+//   neon city            items containing words starting with "neon" and "city"
+//   "neon city"          the exact phrase (runs of whitespace count as one space)
+//   -cat                 excludes items containing the word "cat" (works with fields and phrases too)
+//   model:imagen         field filters: model, ratio, mode, tag, collection, fav, refined,
+//   after:2026-09-01     after and before (dates are local days; after is inclusive, before exclusive)
+// Free text is matched through an inverted index of word tokens that is updated incrementally.
+
+export const SEARCH_FIELDS = ['model', 'ratio', 'mode', 'tag', 'collection', 'fav', 'refined', 'after', 'before'] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+export type SearchTerm =
+    | { kind: 'text'; value: string; isPhrase: boolean; isNegated: boolean }
+    | { kind: 'field'; field: SearchField; value: string; isNegated: boolean };
+
+export interface ParsedQuery {
+    terms: SearchTerm[];
+    errors: string[];
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = { aspect: 'ratio', favorite: 'fav', is: 'fav' };
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, yes: true, '1': true, false: false, no: false, '0': false };
+
+const tokenizeWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ');
+
+// Splits on whitespace, keeping quoted sections (including `field:"quoted value"`) together.
+const splitQuery = (query: string): string[] => query.match(/-?(?:[^\s"]+:)?"[^"]*"?|\S+/g) ?? [];
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+const parseDay = (value: string): number | null => {
+    const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return Number.isNaN(date.getTime()) ? null : date.getTime();
+};
+
+export const parseSearchQuery = (query: string): ParsedQuery => {
+    const terms: SearchTerm[] = [];
+    const errors: string[] = [];
+    for (const rawToken of splitQuery(query)) {
+        const isNegated = rawToken.startsWith('-') && rawToken.length > 1;
+        const token = isNegated ? rawToken.slice(1) : rawToken;
+
+        const fieldMatch = token.match(/^([a-z]+):(.+)$/i);
+        const fieldName = fieldMatch?.[1].toLowerCase();
+        const field = fieldName && ((SEARCH_FIELDS as readonly string[]).includes(fieldName) ? fieldName as SearchField : FIELD_ALIASES[fieldName]);
+        if (fieldMatch && field) {
+            const value = unquote(fieldMatch[2]).toLowerCase();
+            if ((field === 'after' || field === 'before') && parseDay(value) === null) {
+                errors.push(`"${fieldMatch[2]}" is not a date; use YYYY-MM-DD.`);
+                continue;
+            }
+            if ((field === 'fav' || field === 'refined') && BOOLEAN_VALUES[value] === undefined && !(fieldName === 'is' && value === 'favorite')) {
+                errors.push(`${field}: expects true or false.`);
+                continue;
+            }
+            terms.push({ kind: 'field', field, value, isNegated });
+            continue;
+        }
+
+        const isPhrase = token.startsWith('"');
+        const value = isPhrase ? collapseWhitespace(unquote(token).toLowerCase()) : unquote(token).toLowerCase();
+        if (value.trim()) {
+            terms.push({ kind: 'text', value, isPhrase, isNegated });
+        }
+    }
+    return { terms, errors };
+};
+
+// The text free-text terms are matched against. Each field is on its own line, so phrases don't span fields.
+const getSearchableText = (item: HistoryItem): string => [
+    item.metadata.prompt,
+    item.metadata.originalPrompt,
+    ...(item.metadata.lineage ?? []).slice(1).map(step => step.prompt),
+    item.metadata.model.includes('imagen') ? 'imagen' : 'nano banana',
+    item.notes,
+    ...(item.tags ?? []),
+].filter(Boolean).map(part => collapseWhitespace(part!)).join('\n').toLowerCase();
+
+const matchesField = (item: HistoryItem, field: SearchField, value: string, collections: HistoryCollection[]): boolean => {
+    switch (field) {
+        case 'model': {
+            const model = item.metadata.model.toLowerCase();
+            const displayName = model.includes('imagen') ? 'imagen' : 'nano banana';
+            return model.includes(value) || displayName.includes(value);
+        }
+        case 'ratio':
+            return (item.metadata.aspectRatio ?? '') === value;
+        case 'mode':
+            return (item.metadata.promptMode ?? 'text') === value;
+        case 'tag':
+            return hasTag(item, value);
+        case 'collection': {
+            const ids = new Set(collections.filter(collection => collection.name.toLowerCase() === value).map(collection => collection.id));
+            return (item.collectionIds ?? []).some(id => ids.has(id));
+        }
+        case 'fav':
+            return !!item.isFavorite === (BOOLEAN_VALUES[value] ?? value === 'favorite');
+        case 'refined':
+            return ((item.metadata.lineage?.length ?? 0) > 1) === BOOLEAN_VALUES[value];
+        case 'after':
+            return item.timestamp >= parseDay(value)!;
+        case 'before':
+            return item.timestamp < parseDay(value)!;
+    }
+};
+
+interface IndexedItem {
+    item: HistoryItem;
+    text: string;
+    tokens: Set<string>;
+}
+
+export interface HistorySearchIndex {
+    // Re-indexes only items that were added, removed or replaced since the last call.
+    update: (history: HistoryItem[]) => void;
+    search: (query: ParsedQuery, collections: HistoryCollection[]) => Set<string>;
+}
+
+export const createHistorySearchIndex = (): HistorySearchIndex => {
+    const indexedItems = new Map<string, IndexedItem>();
+    const postings = new Map<string, Set<string>>(); // token -> item IDs
+    let sortedTokens: string[] | null = null; // Rebuilt on the next lookup after tokens come or go
+
+    const removeItem = (id: string) => {
+        const indexed = indexedItems.get(id);
+        if (!indexed) return;
+        indexed.tokens.forEach(token => {
+            const ids = postings.get(token);
+            ids?.delete(id);
+            if (ids?.size === 0) {
+                postings.delete(token);
+                sortedTokens = null;
+            }
+        });
+        indexedItems.delete(id);
+    };
+
+    const addItem = (item: HistoryItem) => {
+        const text = getSearchableText(item);
+        const tokens = new Set(tokenizeWords(text));
+        tokens.forEach(token => {
+            if (!postings.has(token)) {
+                postings.set(token, new Set());
+                sortedTokens = null;
+            }
+            postings.get(token)!.add(item.id);
+        });
+        indexedItems.set(item.id, { item, text, tokens });
+    };
+
+    // IDs of items with a token starting with `prefix`. Those tokens are adjacent in sorted order, so a
+    // binary search finds the first one.
+    const lookupPrefix = (prefix: string): Set<string> => {
+        if (!sortedTokens) sortedTokens = Array.from(postings.keys()).sort();
+        let low = 0;
+        let high = sortedTokens.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (sortedTokens[mid] < prefix) low = mid + 1;
+            else high = mid;
+        }
+        const ids = new Set<string>();
+        for (let i = low; i < sortedTokens.length && sortedTokens[i].startsWith(prefix); i++) {
+            postings.get(sortedTokens[i])!.forEach(id => ids.add(id));
+        }
+        return ids;
+    };
+
+    const lookupWord = (word: string): Set<string> => new Set(postings.get(word));
+
+    const matchesText = (term: Extract<SearchTerm, { kind: 'text' }>): Set<string> => {
+        const words = tokenizeWords(term.value);
+        if (words.length === 0) {
+            // Punctuation-only terms can't use the index.
+            return new Set(Array.from(indexedItems.values()).filter(({ text }) => text.includes(term.value)).map(({ item }) => item.id));
+        }
+        // Excluding by prefix would also drop unrelated words ("-cat" hiding "catalog"), so negated words must match whole.
+        const lookup = term.isNegated && !term.isPhrase ? lookupWord : lookupPrefix;
+        let ids = lookup(words[0]);
+        words.slice(1).forEach(word => {
+            const wordIds = lookup(word);
+            ids = new Set(Array.from(ids).filter(id => wordIds.has(id)));
+        });
+        // Phrases are narrowed down by their words first, then checked against the text.
+        return term.isPhrase ? new Set(Array.from(ids).filter(id => indexedItems.get(id)!.text.includes(term.value))) : ids;
+    };
+
+    return {
+        update: (history) => {
+            const currentIds = new Set(history.map(item => item.id));
+            Array.from(indexedItems.keys()).filter(id => !currentIds.has(id)).forEach(removeItem);
+            history.forEach(item => {
+                // The reducer replaces items it changes, so an identical object needs no re-indexing.
+                if (indexedItems.get(item.id)?.item === item) return;
+                removeItem(item.id);
+                addItem(item);
+            });
+        },
+        search: ({ terms }, collections) => {
+            let ids = new Set(indexedItems.keys());
+            for (const term of terms) {
+                const matching = term.kind === 'text'
+                    ? matchesText(term)
+                    : new Set(Array.from(ids).filter(id => matchesField(indexedItems.get(id)!.item, term.field, term.value, collections)));
+                ids = new Set(Array.from(ids).filter(id => matching.has(id) !== term.isNegated));
+            }
+            return ids;
+        },
+    };
+};
+
+export interface HighlightSegment {
+    text: string;
+    isMatch: boolean;
+}
+
+// Splits text into segments, marking where the query's (non-negated) free-text terms match.
+// Words are highlighted as prefixes, mirroring how they are matched.
+export const highlightMatches = (text: string, query: ParsedQuery): HighlightSegment[] => {
+    const patterns = query.terms
+        .filter((term): term is Extract<SearchTerm, { kind: 'text' }> => term.kind === 'text' && !term.isNegated)
+        .flatMap(term => (term.isPhrase ? [term.value] : tokenizeWords(term.value)))
+        .map(pattern => pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'));
+    if (patterns.length === 0) return [{ text, isMatch: false }];
+
+    // Splitting on a capturing group alternates unmatched and matched parts.
+    const regex = new RegExp(`(${patterns.sort((a, b) => b.length - a.length).join('|')})`, 'iu');
+    return text
+        .split(regex)
+        .map((segment, index) => ({ text: segment, isMatch: index % 2 === 1 }))
+        .filter(segment => segment.text !== '');
+};
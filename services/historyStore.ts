@@ -0,0 +1,141 @@
+import { bytesToDataUrl, dataUrlToBytes, getMimeTypeFromDataUrl } from './binaryUtils';
+
+// Stores generation history images as Blobs in IndexedDB. History items in app state only keep the
+// keys of their images, so the persisted state stays small and images are read when displayed.
+//
+// Keys are never reused: a refinement stores its result under a new key and the history item swaps
+// keys, which lets undo restore the previous item as-is. Images no longer referenced by any history
+// item are deleted on the next start.
+
+const DB_NAME = 'gemini-exif-history';
+const DB_VERSION = 1;
+const IMAGE_STORE = 'images';
+
+// Drag-and-drop data type carrying an image key, used to drag history images into the generator.
+export const HISTORY_IMAGE_DRAG_TYPE = 'application/x-gemini-history-image';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+// Keys written since the page loaded, which a cleanup must not delete before their item is in the state.
+const keysSavedThisSession = new Set<string>();
+// Set while images from the old localStorage format are being copied over; reads wait for it.
+let pendingMigration: Promise<void> = Promise.resolve();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(IMAGE_STORE)) {
+                    request.result.createObjectStore(IMAGE_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error("Could not open the history database."));
+        });
+        // Allow a later call to retry, e.g. after the user frees up storage.
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionComplete = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error("History database transaction was aborted."));
+    });
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => new Blob([dataUrlToBytes(dataUrl)], { type: getMimeTypeFromDataUrl(dataUrl) });
+
+const blobToDataUrl = async (blob: Blob): Promise<string> => bytesToDataUrl(new Uint8Array(await blob.arrayBuffer()), blob.type);
+
+const createImageKey = (historyId: string) => `${historyId}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+const putImages = async (entries: [string, string][]): Promise<void> => {
+    const database = await openDatabase();
+    const transaction = database.transaction(IMAGE_STORE, 'readwrite');
+    const store = transaction.objectStore(IMAGE_STORE);
+    entries.forEach(([key, dataUrl]) => store.put(dataUrlToBlob(dataUrl), key));
+    await transactionComplete(transaction);
+};
+
+// Stores the images in one transaction and returns their new keys, in order.
+export const saveHistoryImages = async (historyId: string, dataUrls: string[]): Promise<string[]> => {
+    const keys = dataUrls.map(() => createImageKey(historyId));
+    keys.forEach(key => keysSavedThisSession.add(key));
+    await putImages(keys.map((key, index) => [key, dataUrls[index]]));
+    return keys;
+};
+
+export const loadHistoryImageBlob = async (key: string): Promise<Blob | null> => {
+    await pendingMigration.catch(() => undefined); // A failed migration leaves the key missing; reported below
+
+    const database = await openDatabase();
+    const blob = await requestResult<Blob | undefined>(database.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).get(key));
+    return blob ?? null;
+};
+
+// Returns data URLs, which the rest of the app (embedding, refinement, downloads) works with.
+export const loadHistoryImages = async (keys: string[]): Promise<string[]> => {
+    const blobs = await Promise.all(keys.map(loadHistoryImageBlob));
+    if (blobs.some(blob => blob === null)) {
+        throw new Error("Some images of this history item are missing from storage.");
+    }
+    return Promise.all(blobs.map(blob => blobToDataUrl(blob!)));
+};
+
+export const deleteHistoryImages = async (keys: string[]): Promise<void> => {
+    const database = await openDatabase();
+    const transaction = database.transaction(IMAGE_STORE, 'readwrite');
+    const store = transaction.objectStore(IMAGE_STORE);
+    keys.forEach(key => store.delete(key));
+    await transactionComplete(transaction);
+};
+
+// Byte size of every stored image, by key. Reading a Blob's size doesn't load its data.
+export const getHistoryImageSizes = async (): Promise<Map<string, number>> => {
+    const database = await openDatabase();
+    const sizes = new Map<string, number>();
+    const request = database.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).openCursor();
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve(sizes);
+                return;
+            }
+            sizes.set(String(cursor.key), (cursor.value as Blob).size);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Images saved during this session are always kept, so this is safe to run while generating.
+export const deleteUnreferencedHistoryImages = async (referencedKeys: Set<string>): Promise<number> => {
+    const database = await openDatabase();
+    const transaction = database.transaction(IMAGE_STORE, 'readwrite');
+    const store = transaction.objectStore(IMAGE_STORE);
+    const keys = await requestResult(store.getAllKeys());
+    const unreferenced = keys.filter(key => !referencedKeys.has(String(key)) && !keysSavedThisSession.has(String(key)));
+    unreferenced.forEach(key => store.delete(key));
+    await transactionComplete(transaction);
+    return unreferenced.length;
+};
+
+// Copies images saved inline by older versions (as data URLs in localStorage) into the store.
+export const migrateLegacyHistoryImages = (images: Record<string, string>): Promise<void> => {
+    pendingMigration = putImages(Object.entries(images));
+    return pendingMigration;
+};
+
+// Keys for legacy images are derived from the history item so the migration can be retried safely.
+export const legacyImageKey = (historyId: string, index: number) => `${historyId}-legacy-${index}`;
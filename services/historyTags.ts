@@ -0,0 +1,33 @@
+import type { HistoryItem } from '../state/AppContext';
+
+// Tags are matched case-insensitively; the first spelling used is kept.
+export const normalizeTags = (tags: string[]): string[] => {
+    const seen = new Set<string>();
+    return tags
+        .map(tag => tag.trim().replace(/\s+/g, ' '))
+        .filter(tag => {
+            const key = tag.toLowerCase();
+            if (!tag || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+};
+
+// Splits typed input like "client a, spring campaign" into tags.
+export const parseTagInput = (text: string): string[] => normalizeTags(text.split(','));
+
+export const hasTag = (item: HistoryItem, tag: string): boolean => {
+    const key = tag.toLowerCase();
+    return (item.tags ?? []).some(itemTag => itemTag.toLowerCase() === key);
+};
+
+// All tags used in the history with how many items carry each, most used first.
+export const collectTags = (history: HistoryItem[]): { tag: string; count: number }[] => {
+    const counts = new Map<string, { tag: string; count: number }>();
+    history.forEach(item => normalizeTags(item.tags ?? []).forEach(tag => {
+        const entry = counts.get(tag.toLowerCase());
+        if (entry) entry.count++;
+        else counts.set(tag.toLowerCase(), { tag, count: 1 });
+    }));
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
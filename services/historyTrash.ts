@@ -0,0 +1,16 @@
+import type { TrashedHistoryItem } from '../state/AppContext';
+
+// Deleted history items wait in the trash, images included, until they are restored, purged by
+// hand or kept longer than the retention period.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const getExpiredTrash = (trash: TrashedHistoryItem[], retentionDays: number, now = Date.now()): TrashedHistoryItem[] => (
+    trash.filter(entry => now - entry.deletedAt >= retentionDays * DAY_MS)
+);
+
+// Whole days left before an item is purged, at least 0.
+export const getDaysUntilPurge = (entry: TrashedHistoryItem, retentionDays: number, now = Date.now()): number => (
+    Math.max(0, Math.ceil((entry.deletedAt + retentionDays * DAY_MS - now) / DAY_MS))
+);
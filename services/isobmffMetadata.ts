@@ -0,0 +1,288 @@
+import { concatBytes, latin1Decode, latin1Encode, readUint32BE, utf8Decode, utf8Encode, writeUint32BE } from './binaryUtils';
+
+// Minimal ISO base media file format codec: a reader for the Exif and XMP items stored in the `meta` box
+// of AVIF/HEIF images, and a reader/writer for the XMP box in the `moov/udta` box of MP4 videos.
+
+const HEIF_BRANDS = ['avif', 'avis', 'heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+const XMP_CONTENT_TYPE = 'application/rdf+xml';
+// Adobe's UUID for XMP stored in a top-level `uuid` box, which some tools write instead of udta/XMP_.
+const XMP_UUID = 'be7acfcb97a942e89c71999491e3afac';
+// Boxes on the path from `moov` to the chunk offset tables that locate samples in `mdat`.
+const CHUNK_OFFSET_PATH = ['trak', 'mdia', 'minf', 'stbl'];
+
+export interface IsoBox {
+    type: string;
+    // Offsets into the buffer the box was read from.
+    start: number;
+    end: number;
+    contentStart: number;
+}
+
+export interface HeifMetadata {
+    exif: Uint8Array | null; // Raw TIFF bytes
+    xmp: string | null;
+}
+
+const readUint16BE = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+
+// Reads an unsigned integer of 0, 4 or 8 bytes, as used by the variable-width fields of `iloc`.
+const readUintN = (bytes: Uint8Array, offset: number, size: number): number => {
+    if (size === 0) return 0;
+    if (size === 4) return readUint32BE(bytes, offset);
+    if (size === 8) return readUint32BE(bytes, offset) * 2 ** 32 + readUint32BE(bytes, offset + 4);
+    throw new Error(`Unsupported field size ${size} in ISOBMFF box.`);
+};
+
+const readCString = (bytes: Uint8Array, offset: number, end: number): { value: string; next: number } => {
+    let terminator = bytes.indexOf(0, offset);
+    if (terminator < 0 || terminator > end) terminator = end;
+    return { value: utf8Decode(bytes.subarray(offset, terminator)), next: terminator + 1 };
+};
+
+export const readBoxes = (bytes: Uint8Array, start = 0, end = bytes.length): IsoBox[] => {
+    const boxes: IsoBox[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = readUint32BE(bytes, offset);
+        const type = latin1Decode(bytes.subarray(offset + 4, offset + 8));
+        let headerSize = 8;
+        if (size === 1) {
+            size = readUintN(bytes, offset + 8, 8);
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize || offset + size > end) {
+            throw new Error(`ISOBMFF box "${type}" has an invalid size.`);
+        }
+        boxes.push({ type, start: offset, end: offset + size, contentStart: offset + headerSize });
+        offset += size;
+    }
+    return boxes;
+};
+
+export const findBox = (boxes: IsoBox[], type: string): IsoBox | undefined => boxes.find(box => box.type === type);
+
+export const isHeif = (bytes: Uint8Array): boolean => {
+    if (bytes.length < 16 || latin1Decode(bytes.subarray(4, 8)) !== 'ftyp') return false;
+    const ftypEnd = Math.min(bytes.length, readUint32BE(bytes, 0));
+    const brands = [latin1Decode(bytes.subarray(8, 12))];
+    for (let offset = 16; offset + 4 <= ftypEnd; offset += 4) {
+        brands.push(latin1Decode(bytes.subarray(offset, offset + 4)));
+    }
+    return brands.some(brand => HEIF_BRANDS.includes(brand));
+};
+
+interface ItemInfo {
+    type: string;
+    contentType?: string;
+}
+
+const readItemInfos = (bytes: Uint8Array, iinf: IsoBox): Map<number, ItemInfo> => {
+    const version = bytes[iinf.contentStart];
+    const entriesStart = iinf.contentStart + 4 + (version === 0 ? 2 : 4);
+    const items = new Map<number, ItemInfo>();
+
+    for (const infe of readBoxes(bytes, entriesStart, iinf.end).filter(box => box.type === 'infe')) {
+        const infeVersion = bytes[infe.contentStart];
+        if (infeVersion < 2) continue; // Versions 0 and 1 carry no item type
+        let offset = infe.contentStart + 4;
+        const itemId = infeVersion === 2 ? readUint16BE(bytes, offset) : readUint32BE(bytes, offset);
+        offset += infeVersion === 2 ? 2 : 4;
+        offset += 2; // item_protection_index
+        const type = latin1Decode(bytes.subarray(offset, offset + 4));
+        offset += 4;
+        const name = readCString(bytes, offset, infe.end);
+        const info: ItemInfo = { type };
+        if (type === 'mime') {
+            info.contentType = readCString(bytes, name.next, infe.end).value;
+        }
+        items.set(itemId, info);
+    }
+    return items;
+};
+
+interface ItemExtent {
+    offset: number;
+    length: number;
+}
+
+interface ItemLocation {
+    constructionMethod: number;
+    extents: ItemExtent[];
+}
+
+const readItemLocations = (bytes: Uint8Array, iloc: IsoBox): Map<number, ItemLocation> => {
+    const version = bytes[iloc.contentStart];
+    let offset = iloc.contentStart + 4;
+    const offsetSize = bytes[offset] >> 4;
+    const lengthSize = bytes[offset] & 0x0f;
+    const baseOffsetSize = bytes[offset + 1] >> 4;
+    const indexSize = version === 1 || version === 2 ? bytes[offset + 1] & 0x0f : 0;
+    offset += 2;
+
+    const itemCount = version < 2 ? readUint16BE(bytes, offset) : readUint32BE(bytes, offset);
+    offset += version < 2 ? 2 : 4;
+
+    const locations = new Map<number, ItemLocation>();
+    for (let i = 0; i < itemCount; i++) {
+        const itemId = version < 2 ? readUint16BE(bytes, offset) : readUint32BE(bytes, offset);
+        offset += version < 2 ? 2 : 4;
+        let constructionMethod = 0;
+        if (version === 1 || version === 2) {
+            constructionMethod = readUint16BE(bytes, offset) & 0x0f;
+            offset += 2;
+        }
+        offset += 2; // data_reference_index
+        const baseOffset = readUintN(bytes, offset, baseOffsetSize);
+        offset += baseOffsetSize;
+        const extentCount = readUint16BE(bytes, offset);
+        offset += 2;
+
+        const extents: ItemExtent[] = [];
+        for (let e = 0; e < extentCount; e++) {
+            offset += indexSize;
+            const extentOffset = readUintN(bytes, offset, offsetSize);
+            offset += offsetSize;
+            const extentLength = readUintN(bytes, offset, lengthSize);
+            offset += lengthSize;
+            extents.push({ offset: baseOffset + extentOffset, length: extentLength });
+        }
+        locations.set(itemId, { constructionMethod, extents });
+    }
+    return locations;
+};
+
+const readItemData = (bytes: Uint8Array, location: ItemLocation, idat: IsoBox | undefined): Uint8Array => {
+    // Construction method 0 addresses the file, 1 addresses the payload of the `idat` box.
+    const base = location.constructionMethod === 1 && idat ? idat.contentStart : 0;
+    if (location.constructionMethod > 1) {
+        throw new Error("Unsupported HEIF item construction method.");
+    }
+    const parts = location.extents.map(({ offset, length }) => {
+        const start = base + offset;
+        // A zero length means the extent runs to the end of its container.
+        const end = length === 0 ? (base ? idat!.end : bytes.length) : start + length;
+        if (end > bytes.length) {
+            throw new Error("HEIF item extent runs past the end of the file.");
+        }
+        return bytes.subarray(start, end);
+    });
+    return parts.length === 1 ? parts[0] : concatBytes(...parts);
+};
+
+export const readHeifMetadata = (bytes: Uint8Array): HeifMetadata => {
+    const meta = findBox(readBoxes(bytes), 'meta');
+    if (!meta) {
+        return { exif: null, xmp: null };
+    }
+
+    // `meta` is a FullBox, so its children start after the version and flags.
+    const children = readBoxes(bytes, meta.contentStart + 4, meta.end);
+    const iinf = findBox(children, 'iinf');
+    const iloc = findBox(children, 'iloc');
+    if (!iinf || !iloc) {
+        return { exif: null, xmp: null };
+    }
+
+    const infos = readItemInfos(bytes, iinf);
+    const locations = readItemLocations(bytes, iloc);
+    const idat = findBox(children, 'idat');
+    const result: HeifMetadata = { exif: null, xmp: null };
+
+    infos.forEach((info, itemId) => {
+        const location = locations.get(itemId);
+        if (!location) return;
+
+        if (info.type === 'Exif' && !result.exif) {
+            const data = readItemData(bytes, location, idat);
+            // The payload starts with a 32-bit offset to the TIFF header (usually skipping "Exif\0\0").
+            const tiffOffset = readUint32BE(data, 0);
+            result.exif = data.subarray(4 + tiffOffset);
+        } else if (info.type === 'mime' && info.contentType === XMP_CONTENT_TYPE && !result.xmp) {
+            result.xmp = utf8Decode(readItemData(bytes, location, idat));
+        }
+    });
+
+    return result;
+};
+
+// --- MP4 ---
+
+export const isMp4 = (bytes: Uint8Array): boolean => {
+    return bytes.length >= 12 && latin1Decode(bytes.subarray(4, 8)) === 'ftyp' && !isHeif(bytes);
+};
+
+const createBox = (type: string, content: Uint8Array): Uint8Array => {
+    const box = new Uint8Array(8 + content.length);
+    writeUint32BE(box, 0, box.length);
+    box.set(latin1Encode(type), 4);
+    box.set(content, 8);
+    return box;
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const readMp4Xmp = (bytes: Uint8Array): string | null => {
+    const topLevel = readBoxes(bytes);
+    const moov = findBox(topLevel, 'moov');
+    const udta = moov ? findBox(readBoxes(bytes, moov.contentStart, moov.end), 'udta') : undefined;
+    const xmpBox = udta ? findBox(readBoxes(bytes, udta.contentStart, udta.end), 'XMP_') : undefined;
+    if (xmpBox) {
+        return utf8Decode(bytes.subarray(xmpBox.contentStart, xmpBox.end));
+    }
+
+    const uuidBox = topLevel.find(box => box.type === 'uuid' && toHex(bytes.subarray(box.contentStart, box.contentStart + 16)) === XMP_UUID);
+    return uuidBox ? utf8Decode(bytes.subarray(uuidBox.contentStart + 16, uuidBox.end)) : null;
+};
+
+// Shifts the stco/co64 entries that point past `threshold`, in place, in a rebuilt `moov` box.
+const shiftChunkOffsets = (moov: Uint8Array, threshold: number, delta: number) => {
+    const visit = (start: number, end: number, depth: number) => {
+        for (const box of readBoxes(moov, start, end)) {
+            if (depth < CHUNK_OFFSET_PATH.length && box.type === CHUNK_OFFSET_PATH[depth]) {
+                visit(box.contentStart, box.end, depth + 1);
+            } else if (depth === CHUNK_OFFSET_PATH.length && (box.type === 'stco' || box.type === 'co64')) {
+                const entrySize = box.type === 'stco' ? 4 : 8;
+                const count = readUint32BE(moov, box.contentStart + 4);
+                for (let i = 0; i < count; i++) {
+                    const offset = box.contentStart + 8 + i * entrySize;
+                    const value = readUintN(moov, offset, entrySize);
+                    if (value < threshold) continue;
+                    const shifted = value + delta;
+                    if (entrySize === 4) {
+                        if (shifted > 0xffffffff) throw new Error("MP4 chunk offset no longer fits in a 32-bit stco box.");
+                        writeUint32BE(moov, offset, shifted);
+                    } else {
+                        writeUint32BE(moov, offset, Math.floor(shifted / 2 ** 32));
+                        writeUint32BE(moov, offset + 4, shifted >>> 0);
+                    }
+                }
+            }
+        }
+    };
+    visit(8, moov.length, 0);
+};
+
+// Replaces any XMP_ box in moov/udta. Growing `moov` moves whatever follows it, so when the media data
+// comes after it the sample chunk offsets are shifted to match.
+export const writeMp4Xmp = (bytes: Uint8Array, xmp: string): Uint8Array => {
+    const moov = findBox(readBoxes(bytes), 'moov');
+    if (!moov) {
+        throw new Error("MP4 file has no moov box.");
+    }
+
+    const moovChildren = readBoxes(bytes, moov.contentStart, moov.end);
+    const udta = findBox(moovChildren, 'udta');
+    const udtaChildren = udta ? readBoxes(bytes, udta.contentStart, udta.end).filter(box => box.type !== 'XMP_') : [];
+    const newUdta = createBox('udta', concatBytes(
+        ...udtaChildren.map(box => bytes.subarray(box.start, box.end)),
+        createBox('XMP_', utf8Encode(xmp)),
+    ));
+
+    const otherChildren = moovChildren.filter(box => box.type !== 'udta').map(box => bytes.subarray(box.start, box.end));
+    const newMoov = createBox('moov', concatBytes(...otherChildren, newUdta));
+    shiftChunkOffsets(newMoov, moov.end, newMoov.length - (moov.end - moov.start));
+
+    return concatBytes(bytes.subarray(0, moov.start), newMoov, bytes.subarray(moov.end));
+};
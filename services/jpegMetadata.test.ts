@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    MAX_EXIF_PAYLOAD, MAX_SEGMENT_PAYLOAD, MAX_XMP_PAYLOAD,
+    encodeJpegStructure, readJpegExif, readJpegExtendedXmp, readJpegStructure, readJpegXmp, writeJpegExif, writeJpegXmp,
+} from './jpegMetadata';
+import { createAsciiEntry, createExifData, readAsciiEntry, readExif, writeExif } from './exifMetadata';
+import { concatBytes, latin1Encode, md5Hex, utf8Encode } from './binaryUtils';
+import { buildSplitXmpPackets, buildXmpPacket, getExtendedXmpGuid } from './xmpMetadata';
+
+const JFIF = concatBytes(latin1Encode('JFIF\0'), new Uint8Array([1, 1, 0, 0, 1, 0, 1, 0, 0]));
+const SCAN_DATA = new Uint8Array([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]);
+
+// SOI, a JFIF APP0 segment and a stand-in scan; enough structure for the metadata codec.
+const buildJpeg = (...segments: Uint8Array[]): Uint8Array => {
+    const encoded = [JFIF, ...segments].map((data, index) => concatBytes(
+        new Uint8Array([0xff, index === 0 ? 0xe0 : 0xe1, ((data.length + 2) >> 8) & 0xff, (data.length + 2) & 0xff]),
+        data,
+    ));
+    return concatBytes(new Uint8Array([0xff, 0xd8]), ...encoded, SCAN_DATA);
+};
+
+const buildTiff = (description: string) => {
+    const data = createExifData();
+    data.image.set(270, createAsciiEntry(description));
+    return writeExif(data);
+};
+
+describe('jpegMetadata', () => {
+    it('round-trips EXIF and XMP without touching the scan data', () => {
+        const tiff = buildTiff('{"prompt":"a fox in the snow"}');
+        const packet = '<x:xmpmeta xmlns:x="adobe:ns:meta/">ünïcödé</x:xmpmeta>';
+        const jpeg = writeJpegXmp(writeJpegExif(buildJpeg(), tiff), packet);
+
+        expect(readJpegExif(jpeg)).toEqual(tiff);
+        expect(readJpegXmp(jpeg)).toBe(packet);
+        const { segments, scanData } = readJpegStructure(jpeg);
+        expect(scanData).toEqual(SCAN_DATA);
+        // JFIF first, then EXIF, then XMP.
+        expect(segments.map(segment => segment.marker)).toEqual([0xe0, 0xe1, 0xe1]);
+        expect(readAsciiEntry(readExif(readJpegExif(jpeg)!).image.get(270))).toBe('{"prompt":"a fox in the snow"}');
+    });
+
+    it('replaces existing EXIF and XMP segments instead of adding more', () => {
+        const once = writeJpegXmp(writeJpegExif(buildJpeg(), buildTiff('first')), 'first');
+        const twice = writeJpegXmp(writeJpegExif(once, buildTiff('second')), 'second');
+
+        expect(readJpegStructure(twice).segments).toHaveLength(3);
+        expect(readJpegXmp(twice)).toBe('second');
+        expect(readAsciiEntry(readExif(readJpegExif(twice)!).image.get(270))).toBe('second');
+        expect(encodeJpegStructure(readJpegStructure(twice))).toEqual(twice);
+    });
+
+    it('rejects data that is not a JPEG', () => {
+        expect(() => readJpegStructure(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toThrow(/not a JPEG/);
+    });
+
+    it('rejects a truncated segment header', () => {
+        const jpeg = buildJpeg();
+        expect(() => readJpegStructure(jpeg.subarray(0, 2 + 3))).toThrow(/truncated/);
+    });
+
+    it('rejects a segment whose length runs past the end of the file', () => {
+        const jpeg = buildJpeg(concatBytes(latin1Encode('Exif\0\0'), buildTiff('cut short')));
+        const truncated = jpeg.subarray(0, jpeg.length - SCAN_DATA.length - 10);
+        expect(() => readJpegStructure(truncated)).toThrow(/invalid length/);
+    });
+
+    it('rejects a segment length below two and a missing SOS marker', () => {
+        const badLength = buildJpeg();
+        badLength[4] = 0;
+        badLength[5] = 1;
+        expect(() => readJpegStructure(badLength)).toThrow(/invalid length/);
+
+        const noScan = buildJpeg().subarray(0, 2 + 4 + JFIF.length);
+        expect(() => readJpegStructure(noScan)).toThrow(/missing SOS/);
+    });
+
+    it('rejects a stray byte where a marker should be', () => {
+        const jpeg = buildJpeg();
+        jpeg[2 + 4 + JFIF.length] = 0x00;
+        expect(() => readJpegStructure(jpeg)).toThrow(/Invalid JPEG marker/);
+    });
+
+    it('ignores APP1 segments with a corrupt or unknown header', () => {
+        const jpeg = buildJpeg(latin1Encode('Exif'), latin1Encode('http://ns.adobe.com/xap/1.0'));
+        expect(readJpegExif(jpeg)).toBeNull();
+        expect(readJpegXmp(jpeg)).toBeNull();
+    });
+
+    it('rejects EXIF data larger than one segment', () => {
+        expect(() => writeJpegExif(buildJpeg(), new Uint8Array(MAX_EXIF_PAYLOAD + 1))).toThrow(/more than/);
+        expect(() => writeJpegExif(buildJpeg(), new Uint8Array(MAX_EXIF_PAYLOAD))).not.toThrow();
+    });
+
+    it('rejects a standard XMP packet larger than one segment', () => {
+        expect(() => writeJpegXmp(buildJpeg(), 'x'.repeat(MAX_XMP_PAYLOAD + 1))).toThrow(/64KB/);
+        expect(() => writeJpegXmp(buildJpeg(), 'x'.repeat(MAX_XMP_PAYLOAD))).not.toThrow();
+    });
+
+    it('splits an oversized extended packet across segments and reassembles it', () => {
+        const extended = `<x:xmpmeta>${'a long prompt é '.repeat(12000)}</x:xmpmeta>`;
+        const guid = md5Hex(utf8Encode(extended)).toUpperCase();
+        const jpeg = writeJpegXmp(buildJpeg(), `<x:xmpmeta HasExtendedXMP="${guid}"/>`, { packet: extended, guid });
+
+        const { segments } = readJpegStructure(jpeg);
+        expect(segments.length).toBeGreaterThan(3);
+        segments.forEach(segment => expect(segment.data.length).toBeLessThanOrEqual(MAX_SEGMENT_PAYLOAD));
+        expect(readJpegExtendedXmp(jpeg, guid)).toBe(extended);
+        expect(readJpegExtendedXmp(jpeg, '0'.repeat(32))).toBeNull();
+    });
+
+    it('moves an oversized prompt into Extended XMP that reads back by its GUID', () => {
+        const metadata = { schemaVersion: 2, model: 'imagen-4.0-generate-001' as const, prompt: 'a very long prompt '.repeat(8000), aspectRatio: '1:1' as const };
+        expect(utf8Encode(buildXmpPacket(metadata)).length).toBeGreaterThan(MAX_XMP_PAYLOAD);
+
+        const { standard, extended, guid } = buildSplitXmpPackets(metadata);
+        expect(utf8Encode(standard).length).toBeLessThanOrEqual(MAX_XMP_PAYLOAD);
+        expect(standard).not.toContain('a very long prompt');
+        expect(getExtendedXmpGuid(standard)).toBe(guid);
+
+        const jpeg = writeJpegXmp(buildJpeg(), standard, { packet: extended, guid });
+        expect(readJpegXmp(jpeg)).toBe(standard);
+        expect(readJpegExtendedXmp(jpeg, getExtendedXmpGuid(readJpegXmp(jpeg)!)!)).toBe(extended);
+    });
+
+    it('returns no extended packet when a part is missing or altered', () => {
+        const extended = 'b'.repeat(MAX_SEGMENT_PAYLOAD * 2);
+        const guid = md5Hex(utf8Encode(extended)).toUpperCase();
+        const jpeg = writeJpegXmp(buildJpeg(), 'standard', { packet: extended, guid });
+        const structure = readJpegStructure(jpeg);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const missingPart = encodeJpegStructure({ ...structure, segments: structure.segments.slice(0, -1) });
+        expect(readJpegExtendedXmp(missingPart, guid)).toBeNull();
+
+        const altered = jpeg.slice();
+        altered[altered.length - SCAN_DATA.length - 1] ^= 0x01;
+        expect(readJpegExtendedXmp(altered, guid)).toBeNull();
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,195 @@
+import { concatBytes, latin1Decode, latin1Encode, md5Hex, readUint32BE, utf8Decode, utf8Encode, writeUint32BE } from './binaryUtils';
+
+// Splits a JPEG into its marker segments so APP1 metadata (EXIF and XMP) can be added without touching the scan data.
+
+const MARKER_SOI = 0xd8;
+const MARKER_SOS = 0xda;
+const MARKER_APP0 = 0xe0;
+const MARKER_APP1 = 0xe1;
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const EXTENDED_XMP_HEADER = 'http://ns.adobe.com/xmp/extension/\0';
+// Each Extended XMP segment starts with the header, the 32-character GUID, the full length and the offset.
+const EXTENDED_XMP_PREFIX_LENGTH = EXTENDED_XMP_HEADER.length + 32 + 8;
+const EXIF_HEADER = 'Exif\0\0';
+
+// Segment payloads are limited by the 16-bit length field, which also counts its own two bytes.
+export const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+// Largest standard XMP packet, in UTF-8 bytes; anything bigger has to be split into Extended XMP.
+export const MAX_XMP_PAYLOAD = MAX_SEGMENT_PAYLOAD - XMP_HEADER.length;
+const MAX_EXTENDED_XMP_CHUNK = MAX_SEGMENT_PAYLOAD - EXTENDED_XMP_PREFIX_LENGTH;
+
+export interface JpegSegment {
+    marker: number;
+    data: Uint8Array;
+}
+
+export interface JpegStructure {
+    segments: JpegSegment[];
+    // Everything from the SOS marker to the end of the file.
+    scanData: Uint8Array;
+}
+
+export const isJpeg = (bytes: Uint8Array): boolean => {
+    return bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === MARKER_SOI && bytes[2] === 0xff;
+};
+
+export const readJpegStructure = (bytes: Uint8Array): JpegStructure => {
+    if (!isJpeg(bytes)) {
+        throw new Error("Data is not a JPEG image.");
+    }
+
+    const segments: JpegSegment[] = [];
+    let offset = 2;
+    while (offset < bytes.length) {
+        if (bytes[offset] !== 0xff) {
+            throw new Error(`Invalid JPEG marker at offset ${offset}.`);
+        }
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            offset++; // Fill byte
+            continue;
+        }
+        if (marker === MARKER_SOS) {
+            return { segments, scanData: bytes.subarray(offset) };
+        }
+        if (offset + 4 > bytes.length) {
+            throw new Error("JPEG segment header is truncated.");
+        }
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (length < 2 || offset + 2 + length > bytes.length) {
+            throw new Error(`JPEG segment 0x${marker.toString(16)} has an invalid length.`);
+        }
+        segments.push({ marker, data: bytes.subarray(offset + 4, offset + 2 + length) });
+        offset += 2 + length;
+    }
+    throw new Error("JPEG has no image data (missing SOS marker).");
+};
+
+export const encodeJpegStructure = ({ segments, scanData }: JpegStructure): Uint8Array => {
+    const encodedSegments = segments.map(({ marker, data }) => {
+        if (data.length > MAX_SEGMENT_PAYLOAD) {
+            throw new Error(`JPEG segment 0x${marker.toString(16)} exceeds the 64KB limit.`);
+        }
+        const header = new Uint8Array([0xff, marker, ((data.length + 2) >> 8) & 0xff, (data.length + 2) & 0xff]);
+        return concatBytes(header, data);
+    });
+    return concatBytes(new Uint8Array([0xff, MARKER_SOI]), ...encodedSegments, scanData);
+};
+
+const hasHeader = (segment: JpegSegment, header: string): boolean => {
+    return segment.marker === MARKER_APP1
+        && segment.data.length >= header.length
+        && latin1Decode(segment.data.subarray(0, header.length)) === header;
+};
+
+const isXmpSegment = (segment: JpegSegment) => hasHeader(segment, XMP_HEADER);
+const isExtendedXmpSegment = (segment: JpegSegment) => hasHeader(segment, EXTENDED_XMP_HEADER);
+const isExifSegment = (segment: JpegSegment) => hasHeader(segment, EXIF_HEADER);
+
+export const readJpegXmp = (bytes: Uint8Array): string | null => {
+    const segment = readJpegStructure(bytes).segments.find(isXmpSegment);
+    return segment ? utf8Decode(segment.data.subarray(XMP_HEADER.length)) : null;
+};
+
+// Reassembles the Extended XMP packet with the given GUID. Returns null if any part is missing or the
+// packet doesn't match its GUID.
+export const readJpegExtendedXmp = (bytes: Uint8Array, guid: string): string | null => {
+    const chunks = readJpegStructure(bytes).segments
+        .filter(segment => isExtendedXmpSegment(segment) && segment.data.length >= EXTENDED_XMP_PREFIX_LENGTH)
+        .map(segment => {
+            const guidStart = EXTENDED_XMP_HEADER.length;
+            return {
+                guid: latin1Decode(segment.data.subarray(guidStart, guidStart + 32)),
+                fullLength: readUint32BE(segment.data, guidStart + 32),
+                offset: readUint32BE(segment.data, guidStart + 36),
+                data: segment.data.subarray(EXTENDED_XMP_PREFIX_LENGTH),
+            };
+        })
+        .filter(chunk => chunk.guid.toUpperCase() === guid);
+    if (chunks.length === 0) {
+        return null;
+    }
+
+    const fullLength = chunks[0].fullLength;
+    const packet = new Uint8Array(fullLength);
+    let received = 0;
+    for (const chunk of chunks) {
+        if (chunk.fullLength !== fullLength || chunk.offset + chunk.data.length > fullLength) {
+            console.warn("Ignoring an Extended XMP segment with an inconsistent length.");
+            return null;
+        }
+        packet.set(chunk.data, chunk.offset);
+        received += chunk.data.length;
+    }
+    if (received !== fullLength || md5Hex(packet).toUpperCase() !== guid) {
+        console.warn("Extended XMP packet is incomplete or does not match its GUID.");
+        return null;
+    }
+    return utf8Decode(packet);
+};
+
+const createExtendedXmpSegments = (packet: string, guid: string): JpegSegment[] => {
+    const data = utf8Encode(packet);
+    const segments: JpegSegment[] = [];
+    for (let offset = 0; offset < data.length; offset += MAX_EXTENDED_XMP_CHUNK) {
+        const prefix = new Uint8Array(EXTENDED_XMP_PREFIX_LENGTH);
+        prefix.set(latin1Encode(EXTENDED_XMP_HEADER), 0);
+        prefix.set(latin1Encode(guid), EXTENDED_XMP_HEADER.length);
+        writeUint32BE(prefix, EXTENDED_XMP_HEADER.length + 32, data.length);
+        writeUint32BE(prefix, EXTENDED_XMP_HEADER.length + 36, offset);
+        segments.push({ marker: MARKER_APP1, data: concatBytes(prefix, data.subarray(offset, offset + MAX_EXTENDED_XMP_CHUNK)) });
+    }
+    return segments;
+};
+
+// Replaces any existing XMP APP1 segments, placing the new ones after the JFIF/EXIF headers as readers
+// expect. Packets too large for one segment are passed as an extended packet, which is split across
+// as many Extended XMP segments as needed.
+export const writeJpegXmp = (bytes: Uint8Array, xmpPacket: string, extended: { packet: string; guid: string } | null = null): Uint8Array => {
+    const structure = readJpegStructure(bytes);
+    const segments = structure.segments.filter(segment => !isXmpSegment(segment) && !isExtendedXmpSegment(segment));
+    const xmpSegments: JpegSegment[] = [{
+        marker: MARKER_APP1,
+        data: concatBytes(latin1Encode(XMP_HEADER), utf8Encode(xmpPacket)),
+    }];
+    if (extended) {
+        xmpSegments.push(...createExtendedXmpSegments(extended.packet, extended.guid));
+    }
+
+    let insertAt = 0;
+    while (insertAt < segments.length && (segments[insertAt].marker === MARKER_APP0 || isExifSegment(segments[insertAt]))) {
+        insertAt++;
+    }
+    segments.splice(insertAt, 0, ...xmpSegments);
+    return encodeJpegStructure({ segments, scanData: structure.scanData });
+};
+
+// Largest TIFF block that fits in a single EXIF APP1 segment.
+export const MAX_EXIF_PAYLOAD = MAX_SEGMENT_PAYLOAD - EXIF_HEADER.length;
+
+// Returns the raw TIFF bytes of the EXIF segment, without the "Exif\0\0" prefix.
+export const readJpegExif = (bytes: Uint8Array): Uint8Array | null => {
+    const segment = readJpegStructure(bytes).segments.find(isExifSegment);
+    return segment ? segment.data.subarray(EXIF_HEADER.length) : null;
+};
+
+// Replaces any existing EXIF APP1 segment with one holding the given TIFF bytes, placed right after JFIF.
+export const writeJpegExif = (bytes: Uint8Array, tiff: Uint8Array): Uint8Array => {
+    if (tiff.length > MAX_EXIF_PAYLOAD) {
+        throw new Error(`EXIF data is ${tiff.length} bytes, more than the ${MAX_EXIF_PAYLOAD} bytes a JPEG segment can hold.`);
+    }
+    const structure = readJpegStructure(bytes);
+    const segments = structure.segments.filter(segment => !isExifSegment(segment));
+    const exifSegment: JpegSegment = {
+        marker: MARKER_APP1,
+        data: concatBytes(latin1Encode(EXIF_HEADER), tiff),
+    };
+
+    let insertAt = 0;
+    while (insertAt < segments.length && segments[insertAt].marker === MARKER_APP0) {
+        insertAt++;
+    }
+    segments.splice(insertAt, 0, exifSegment);
+    return encodeJpegStructure({ segments, scanData: structure.scanData });
+};
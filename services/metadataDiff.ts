@@ -0,0 +1,223 @@
+import type { GenerationMetadata } from '../state/AppContext';
+
+// Field-by-field comparison of two GenerationMetadata objects: a word-level diff for prompts and a
+// structural diff of the parts array for JSON-mode prompts.
+
+export type DiffKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface WordDiffSegment {
+    kind: 'added' | 'removed' | 'unchanged';
+    text: string;
+}
+
+export interface JsonValueDiff {
+    path: string; // e.g. `text` or `control.style`, relative to the part
+    kind: DiffKind;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface PartDiff {
+    kind: DiffKind;
+    before?: unknown;
+    after?: unknown;
+    values: JsonValueDiff[];
+}
+
+export interface FieldDiff {
+    field: string;
+    label: string;
+    kind: DiffKind;
+    before?: string;
+    after?: string;
+}
+
+export interface MetadataDiff {
+    prompt: { kind: DiffKind; words?: WordDiffSegment[]; parts?: PartDiff[] };
+    fields: FieldDiff[];
+}
+
+// Longest common subsequence over two token lists; returns the matched index pairs in order.
+const longestCommonSubsequence = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): [number, number][] => {
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = equals(a[i], b[j])
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const pairs: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (equals(a[i], b[j])) {
+            pairs.push([i++, j++]);
+        } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+};
+
+// Walks both lists in LCS order, reporting the unmatched runs between matches.
+const alignLists = <T>(
+    a: T[],
+    b: T[],
+    equals: (x: T, y: T) => boolean,
+    onRun: (removed: T[], added: T[]) => void,
+    onMatch: (before: T, after: T) => void,
+) => {
+    let i = 0;
+    let j = 0;
+    for (const [matchA, matchB] of [...longestCommonSubsequence(a, b, equals), [a.length, b.length]]) {
+        if (i < matchA || j < matchB) onRun(a.slice(i, matchA), b.slice(j, matchB));
+        if (matchA < a.length) onMatch(a[matchA], b[matchB]);
+        i = matchA + 1;
+        j = matchB + 1;
+    }
+};
+
+// Tokens keep their trailing whitespace so the segments join back into the original text.
+const tokenize = (text: string): string[] => text.match(/\S+\s*|\s+/g) ?? [];
+
+export const diffWords = (before: string, after: string): WordDiffSegment[] => {
+    const segments: WordDiffSegment[] = [];
+    const push = (kind: WordDiffSegment['kind'], text: string) => {
+        if (!text) return;
+        const last = segments[segments.length - 1];
+        if (last?.kind === kind) last.text += text;
+        else segments.push({ kind, text });
+    };
+    alignLists(
+        tokenize(before),
+        tokenize(after),
+        (x, y) => x.trim() === y.trim(),
+        (removed, added) => {
+            push('removed', removed.join(''));
+            push('added', added.join(''));
+        },
+        (_, token) => push('unchanged', token),
+    );
+    return segments;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Flattens nested objects to dotted paths; arrays and primitives are compared as leaf values.
+const flatten = (value: unknown, prefix = '', into: Record<string, unknown> = {}): Record<string, unknown> => {
+    if (isPlainObject(value)) {
+        for (const [key, child] of Object.entries(value)) {
+            flatten(child, prefix ? `${prefix}.${key}` : key, into);
+        }
+    } else if (value !== undefined) {
+        into[prefix] = value;
+    }
+    return into;
+};
+
+const diffJsonValues = (before: unknown, after: unknown): JsonValueDiff[] => {
+    const flatBefore = flatten(before);
+    const flatAfter = flatten(after);
+    const paths = Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]));
+    return paths.map(path => {
+        const hasBefore = path in flatBefore;
+        const hasAfter = path in flatAfter;
+        const kind: DiffKind = !hasBefore ? 'added'
+            : !hasAfter ? 'removed'
+            : JSON.stringify(flatBefore[path]) === JSON.stringify(flatAfter[path]) ? 'unchanged'
+            : 'changed';
+        return { path, kind, before: flatBefore[path], after: flatAfter[path] };
+    });
+};
+
+// Unmatched parts that sit in the same position between two matches are paired up as changes,
+// so editing a part's text shows as one changed part rather than a removal and an addition.
+export const diffJsonParts = (before: unknown[], after: unknown[]): PartDiff[] => {
+    const diffs: PartDiff[] = [];
+    alignLists(
+        before,
+        after,
+        (x, y) => JSON.stringify(x) === JSON.stringify(y),
+        (removed, added) => {
+            for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+                if (k < removed.length && k < added.length) {
+                    diffs.push({ kind: 'changed', before: removed[k], after: added[k], values: diffJsonValues(removed[k], added[k]) });
+                } else if (k < removed.length) {
+                    diffs.push({ kind: 'removed', before: removed[k], values: diffJsonValues(removed[k], undefined) });
+                } else {
+                    diffs.push({ kind: 'added', after: added[k], values: diffJsonValues(undefined, added[k]) });
+                }
+            }
+        },
+        (part) => diffs.push({ kind: 'unchanged', before: part, after: part, values: diffJsonValues(part, part) }),
+    );
+    return diffs;
+};
+
+const parseParts = (metadata: GenerationMetadata): unknown[] | null => {
+    if (metadata.promptMode !== 'json') return null;
+    try {
+        const parsed = JSON.parse(metadata.prompt);
+        return Array.isArray(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+const compareValues = (before: string | undefined, after: string | undefined): DiffKind => {
+    if (before === after) return 'unchanged';
+    if (before === undefined) return 'added';
+    if (after === undefined) return 'removed';
+    return 'changed';
+};
+
+const formatSource = (source: GenerationMetadata['source']) => {
+    if (!source) return undefined;
+    const size = source.width && source.height ? `${source.width}x${source.height}` : undefined;
+    return [source.generator, source.modelName, size].filter(Boolean).join(' · ');
+};
+
+const formatLineage = (lineage: GenerationMetadata['lineage']) => {
+    if (!lineage || lineage.length === 0) return undefined;
+    return lineage.map((step, index) => `${index + 1}. ${step.operation} (${step.model}): ${step.prompt}`).join('\n');
+};
+
+const COMPARED_FIELDS: { field: string; label: string; format: (metadata: GenerationMetadata) => string | undefined }[] = [
+    { field: 'model', label: 'Model', format: m => m.model },
+    { field: 'promptMode', label: 'Prompt Mode', format: m => m.promptMode },
+    { field: 'aspectRatio', label: 'Aspect Ratio', format: m => m.aspectRatio },
+    { field: 'resolution', label: 'Resolution', format: m => m.resolution },
+    { field: 'negativePrompt', label: 'Negative Prompt', format: m => m.negativePrompt },
+    { field: 'originalPrompt', label: 'Original Prompt', format: m => m.originalPrompt },
+    { field: 'lineage', label: 'Lineage', format: m => formatLineage(m.lineage) },
+    { field: 'source', label: 'Imported From', format: m => formatSource(m.source) },
+    { field: 'tags', label: 'Tags', format: m => (m.tags && m.tags.length > 0 ? m.tags.join(', ') : undefined) },
+    { field: 'filenameSlug', label: 'Filename', format: m => m.filenameSlug },
+    { field: 'schemaVersion', label: 'Schema Version', format: m => String(m.schemaVersion) },
+    { field: 'signature', label: 'Signed', format: m => (m.signature ? 'yes' : 'no') },
+];
+
+// Fields missing from both sides are left out.
+export const diffMetadata = (before: GenerationMetadata, after: GenerationMetadata): MetadataDiff => {
+    const partsBefore = parseParts(before);
+    const partsAfter = parseParts(after);
+    const promptKind = compareValues(before.prompt, after.prompt);
+    const prompt = partsBefore && partsAfter
+        ? { kind: promptKind, parts: diffJsonParts(partsBefore, partsAfter) }
+        : { kind: promptKind, words: diffWords(before.prompt, after.prompt) };
+
+    const fields = COMPARED_FIELDS
+        .map(({ field, label, format }) => {
+            const valueBefore = format(before);
+            const valueAfter = format(after);
+            return { field, label, kind: compareValues(valueBefore, valueAfter), before: valueBefore, after: valueAfter };
+        })
+        .filter(diff => diff.before !== undefined || diff.after !== undefined);
+
+    return { prompt, fields };
+};
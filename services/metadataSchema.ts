@@ -0,0 +1,246 @@
+import type { GenerationMetadata, LineageOperation, LineageStep, MetadataSource, PromptMode } from '../state/AppContext';
+import type { AspectRatio, CreativeStrength, ImageModel, VideoModel, VideoResolution } from '../types';
+
+// Versioning, validation and upgrades for the GenerationMetadata payload embedded in images.
+
+export const METADATA_SCHEMA_VERSION = 2;
+
+const IMAGE_MODELS: ImageModel[] = ['gemini-2.5-flash-image', 'imagen-4.0-generate-001'];
+const VIDEO_MODELS: VideoModel[] = ['veo-3.1-fast-generate-preview'];
+const VIDEO_RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const PROMPT_MODES: PromptMode[] = ['text', 'json'];
+const LINEAGE_OPERATIONS: LineageOperation[] = ['generate', 'refine', 'masked-refine'];
+const CREATIVE_STRENGTHS: CreativeStrength[] = ['LOW', 'MEDIUM', 'HIGH'];
+const SOURCE_GENERATORS: MetadataSource['generator'][] = ['automatic1111', 'comfyui'];
+
+// Schema 1 recorded refinements by appending notes like "Refinement: ..." to the prompt.
+const LEGACY_REFINEMENT_SEPARATOR = '\n\n---\n\n';
+const LEGACY_REFINEMENT_NOTE = /^Refine(?:d|ment)\s*(?:\(([^)]*)\))?(?: with Nano Banana)?:\s*([\s\S]*)$/;
+
+export const isVideoMetadata = (metadata: GenerationMetadata): boolean => VIDEO_MODELS.includes(metadata.model as VideoModel);
+
+export interface MetadataFieldError {
+    field: string;
+    message: string;
+}
+
+export interface MetadataValidationResult {
+    isValid: boolean;
+    errors: MetadataFieldError[];
+}
+
+export interface MetadataMigrationResult {
+    metadata: GenerationMetadata | null;
+    errors: MetadataFieldError[];
+    // Schema version the payload was written with; 0 for objects predating the version field.
+    sourceVersion: number | 'legacy-string' | 'legacy-array';
+    wasMigrated: boolean;
+    // The payload as read, before migration. Signatures are computed over this form.
+    original: unknown;
+}
+
+type MetadataPayload = Record<string, unknown>;
+type Migration = (payload: MetadataPayload) => MetadataPayload;
+
+const isLikelyJson = (text: string): boolean => {
+    const trimmed = text.trim();
+    return (trimmed.startsWith('{') && trimmed.endsWith('}')) || (trimmed.startsWith('[') && trimmed.endsWith(']'));
+};
+
+const parsesAsJson = (text: string): boolean => {
+    try {
+        JSON.parse(text);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// Each entry upgrades a payload from the keyed version to the next one.
+const MIGRATIONS: Record<number, Migration> = {
+    // v0: the unversioned object written by the first releases. Prompt mode was optional and
+    // only JSON prompts were sent to Nano Banana, so infer it from the prompt itself.
+    0: (payload) => {
+        const prompt = typeof payload.prompt === 'string' ? payload.prompt : '';
+        const model = payload.model ?? 'gemini-2.5-flash-image';
+        const inferredMode: PromptMode = model === 'gemini-2.5-flash-image' && isLikelyJson(prompt) && parsesAsJson(prompt) ? 'json' : 'text';
+        return {
+            ...payload,
+            model,
+            promptMode: payload.promptMode ?? inferredMode,
+            schemaVersion: 1,
+        };
+    },
+    // v1: refinements were appended to the prompt. Split them back out into lineage steps.
+    1: (payload) => {
+        const prompt = typeof payload.prompt === 'string' ? payload.prompt : '';
+        const [basePrompt, ...notes] = prompt.split(LEGACY_REFINEMENT_SEPARATOR);
+        const refinements: LineageStep[] = notes.map(note => {
+            const match = note.match(LEGACY_REFINEMENT_NOTE);
+            const qualifiers = match?.[1] || '';
+            return {
+                operation: qualifiers.includes('Masked') ? 'masked-refine' : 'refine',
+                prompt: match ? match[2] : note,
+                model: 'gemini-2.5-flash-image',
+            };
+        });
+        // A refined image's model was overwritten with Nano Banana; the note tells us if Imagen made the original.
+        const generatedWithImagen = notes.some(note => note.includes('from Imagen'));
+        const generateStep: LineageStep = {
+            operation: 'generate',
+            prompt: basePrompt,
+            model: generatedWithImagen ? 'imagen-4.0-generate-001' : payload.model as ImageModel,
+        };
+        return {
+            ...payload,
+            prompt: basePrompt,
+            lineage: [generateStep, ...refinements],
+            schemaVersion: 2,
+        };
+    },
+};
+
+const validateLineage = (lineage: unknown, errors: MetadataFieldError[]) => {
+    if (!Array.isArray(lineage)) {
+        errors.push({ field: 'lineage', message: 'Lineage must be an array.' });
+        return;
+    }
+    lineage.forEach((step, index) => {
+        const field = `lineage[${index}]`;
+        if (typeof step !== 'object' || step === null) {
+            errors.push({ field, message: 'Lineage step must be an object.' });
+            return;
+        }
+        const { operation, prompt, model, timestamp, creativeStrength, style } = step as Record<string, unknown>;
+        if (!LINEAGE_OPERATIONS.includes(operation as LineageOperation)) {
+            errors.push({ field: `${field}.operation`, message: `Unknown operation "${String(operation)}".` });
+        }
+        if (typeof prompt !== 'string') {
+            errors.push({ field: `${field}.prompt`, message: 'Prompt must be a string.' });
+        }
+        if (!IMAGE_MODELS.includes(model as ImageModel)) {
+            errors.push({ field: `${field}.model`, message: `Unknown model "${String(model)}".` });
+        }
+        if (timestamp !== undefined && typeof timestamp !== 'number') {
+            errors.push({ field: `${field}.timestamp`, message: 'Timestamp must be a number.' });
+        }
+        if (creativeStrength !== undefined && !CREATIVE_STRENGTHS.includes(creativeStrength as CreativeStrength)) {
+            errors.push({ field: `${field}.creativeStrength`, message: `Unknown creative strength "${String(creativeStrength)}".` });
+        }
+        if (style !== undefined && typeof style !== 'string') {
+            errors.push({ field: `${field}.style`, message: 'Style must be a string.' });
+        }
+    });
+};
+
+export const validateGenerationMetadata = (value: unknown): MetadataValidationResult => {
+    const errors: MetadataFieldError[] = [];
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { isValid: false, errors: [{ field: '(root)', message: 'Metadata must be an object.' }] };
+    }
+    const payload = value as MetadataPayload;
+
+    if (payload.schemaVersion !== METADATA_SCHEMA_VERSION) {
+        errors.push({ field: 'schemaVersion', message: `Expected schema version ${METADATA_SCHEMA_VERSION}, found ${String(payload.schemaVersion)}.` });
+    }
+    if (!IMAGE_MODELS.includes(payload.model as ImageModel) && !VIDEO_MODELS.includes(payload.model as VideoModel)) {
+        errors.push({ field: 'model', message: `Unknown model "${String(payload.model)}".` });
+    }
+    if (typeof payload.prompt !== 'string' || payload.prompt.trim().length === 0) {
+        errors.push({ field: 'prompt', message: 'Prompt must be a non-empty string.' });
+    } else if (payload.promptMode === 'json' && !parsesAsJson(payload.prompt)) {
+        errors.push({ field: 'prompt', message: 'Prompt is marked as JSON but is not valid JSON.' });
+    }
+    if (payload.negativePrompt !== undefined && typeof payload.negativePrompt !== 'string') {
+        errors.push({ field: 'negativePrompt', message: 'Negative prompt must be a string.' });
+    }
+    if (payload.originalPrompt !== undefined && typeof payload.originalPrompt !== 'string') {
+        errors.push({ field: 'originalPrompt', message: 'Original prompt must be a string.' });
+    }
+    if (payload.aspectRatio !== undefined && !ASPECT_RATIOS.includes(payload.aspectRatio as AspectRatio)) {
+        errors.push({ field: 'aspectRatio', message: `Unsupported aspect ratio "${String(payload.aspectRatio)}".` });
+    }
+    if (payload.resolution !== undefined && !VIDEO_RESOLUTIONS.includes(payload.resolution as VideoResolution)) {
+        errors.push({ field: 'resolution', message: `Unsupported resolution "${String(payload.resolution)}".` });
+    }
+    if (payload.promptMode !== undefined && !PROMPT_MODES.includes(payload.promptMode as PromptMode)) {
+        errors.push({ field: 'promptMode', message: `Unknown prompt mode "${String(payload.promptMode)}".` });
+    }
+    if (payload.filenameSlug !== undefined && typeof payload.filenameSlug !== 'string') {
+        errors.push({ field: 'filenameSlug', message: 'Filename slug must be a string.' });
+    }
+    if (payload.lineage !== undefined) {
+        validateLineage(payload.lineage, errors);
+    }
+    if (payload.tags !== undefined && (!Array.isArray(payload.tags) || payload.tags.some(tag => typeof tag !== 'string'))) {
+        errors.push({ field: 'tags', message: 'Tags must be a list of strings.' });
+    }
+    if (payload.source !== undefined) {
+        const source = payload.source as Partial<MetadataSource> | null;
+        if (typeof source !== 'object' || source === null || !SOURCE_GENERATORS.includes(source.generator as MetadataSource['generator'])) {
+            errors.push({ field: 'source', message: 'Source must name a supported generator.' });
+        }
+    }
+
+    return { isValid: errors.length === 0, errors };
+};
+
+// Wraps the pre-object payloads (a bare prompt string or a JSON parts array) in a v0 object.
+const normalizeLegacyPayload = (raw: unknown): { payload: MetadataPayload | null; sourceVersion: MetadataMigrationResult['sourceVersion'] } => {
+    if (typeof raw === 'string') {
+        if (isLikelyJson(raw) && parsesAsJson(raw)) {
+            return normalizeLegacyPayload(JSON.parse(raw));
+        }
+        return { payload: { model: 'gemini-2.5-flash-image', prompt: raw, promptMode: 'text' }, sourceVersion: 'legacy-string' };
+    }
+    if (Array.isArray(raw)) {
+        return { payload: { model: 'gemini-2.5-flash-image', prompt: JSON.stringify(raw), promptMode: 'json' }, sourceVersion: 'legacy-array' };
+    }
+    if (typeof raw === 'object' && raw !== null) {
+        const payload = raw as MetadataPayload;
+        const version = typeof payload.schemaVersion === 'number' ? payload.schemaVersion : 0;
+        return { payload, sourceVersion: version };
+    }
+    return { payload: null, sourceVersion: 0 };
+};
+
+// Upgrades any known payload shape to the current schema and validates the result.
+export const migrateMetadata = (raw: unknown): MetadataMigrationResult => {
+    const { payload: initialPayload, sourceVersion } = normalizeLegacyPayload(raw);
+    if (!initialPayload) {
+        return { metadata: null, errors: [{ field: '(root)', message: 'Unrecognized metadata payload.' }], sourceVersion, wasMigrated: false, original: raw };
+    }
+
+    let payload = initialPayload;
+    let version = typeof payload.schemaVersion === 'number' ? payload.schemaVersion : 0;
+    if (version > METADATA_SCHEMA_VERSION) {
+        return {
+            metadata: null,
+            errors: [{ field: 'schemaVersion', message: `Metadata was written by a newer version of the app (schema ${version}).` }],
+            sourceVersion,
+            wasMigrated: false,
+            original: raw,
+        };
+    }
+
+    while (version < METADATA_SCHEMA_VERSION) {
+        const migration = MIGRATIONS[version];
+        if (!migration) {
+            return { metadata: null, errors: [{ field: 'schemaVersion', message: `No migration from schema version ${version}.` }], sourceVersion, wasMigrated: false, original: raw };
+        }
+        payload = migration(payload);
+        version = payload.schemaVersion as number;
+    }
+
+    const { errors } = validateGenerationMetadata(payload);
+    // Without a prompt string there is nothing meaningful to show or reuse.
+    const hasPrompt = typeof payload.prompt === 'string';
+    return {
+        metadata: hasPrompt ? payload as unknown as GenerationMetadata : null,
+        errors,
+        sourceVersion,
+        wasMigrated: sourceVersion !== METADATA_SCHEMA_VERSION,
+        original: raw,
+    };
+};
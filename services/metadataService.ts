@@ -0,0 +1,341 @@
+import type { GenerationMetadata } from '../state/AppContext';
+import type { ExifPreservation, OutputFormat } from '../types';
+import { bytesToDataUrl, dataUrlToBytes, getMimeTypeFromDataUrl, utf8Encode } from './binaryUtils';
+import { ExifData, cloneExifData, createAsciiEntry, createExifData, createShortEntry, readAsciiEntry, readExif, writeExif } from './exifMetadata';
+import { isHeif, isMp4, readHeifMetadata, readMp4Xmp, writeMp4Xmp } from './isobmffMetadata';
+import { isJpeg, MAX_EXIF_PAYLOAD, MAX_XMP_PAYLOAD, readJpegExif, readJpegExtendedXmp, readJpegXmp, writeJpegExif, writeJpegXmp } from './jpegMetadata';
+import { migrateMetadata, MetadataMigrationResult } from './metadataSchema';
+import { parseForeignPngMetadata } from './sdMetadata';
+import { signMetadata } from './signatureService';
+import { embedWatermark } from './watermark';
+import { isPng, readPngTextChunks, writePngTextChunk } from './pngMetadata';
+import { isWebp, readWebpMetadata, writeWebpMetadata } from './webpMetadata';
+import { buildSplitXmpPackets, buildXmpPacket, getExtendedXmpGuid, parseXmpPacket } from './xmpMetadata';
+
+// Using ImageDescription (270) which is more reliable for string data than UserComment (37510).
+const EXIF_PROMPT_TAG = 270;
+const EXIF_ORIENTATION_TAG = 274;
+
+// Tags removed from the 0th/1st and Exif IFDs when a group is not preserved. GPS is a whole IFD.
+const EXIF_TAG_GROUPS: Record<'camera' | 'dateTime', { image: number[]; exif: number[] }> = {
+    // Make, Model; CameraOwnerName, BodySerialNumber, LensSpecification, LensMake, LensModel, LensSerialNumber
+    camera: { image: [271, 272], exif: [42032, 42033, 42034, 42035, 42036, 42037] },
+    // DateTime; DateTimeOriginal, DateTimeDigitized, OffsetTime*, SubSecTime*
+    dateTime: { image: [306], exif: [36867, 36868, 36880, 36881, 36882, 37520, 37521, 37522] },
+};
+
+// Keyword of the iTXt chunk that carries the metadata JSON in PNG files.
+export const PNG_METADATA_KEYWORD = 'gemini:generation-metadata';
+// Standard keyword for XMP packets stored in PNG iTXt chunks.
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+const OUTPUT_MIME_TYPES: Record<OutputFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+// Formats we can write metadata into without re-encoding the pixels.
+const PASSTHROUGH_MIME_TYPES = ['image/png', 'image/webp', 'image/jpeg'];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/heic': 'heic',
+    'image/heif': 'heif',
+    'video/mp4': 'mp4',
+};
+
+// File types the Extract view can read metadata from.
+export const EXTRACTABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/heic', 'image/heif', 'video/mp4'];
+
+export const getExtensionForMimeType = (mimeType: string): string => {
+    return FILE_EXTENSIONS[mimeType] || 'jpg';
+};
+
+export const getFileExtension = (dataUrl: string): string => {
+    return getExtensionForMimeType(getMimeTypeFromDataUrl(dataUrl));
+};
+
+const transcodeImage = (base64Image: string, mimeType: string, targetMimeType: string): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Could not get canvas context'));
+            ctx.drawImage(img, 0, 0);
+
+            // Browsers without an encoder for the target (e.g. WebP in Safari) silently return a PNG.
+            resolve(canvas.toDataURL(targetMimeType));
+        };
+        img.onerror = () => reject(new Error('Failed to load image for metadata embedding.'));
+        img.src = `data:${mimeType};base64,${base64Image}`;
+    });
+};
+
+// ImageDescription is ASCII-only, so everything outside ASCII is written as a JSON \u escape. The
+// JSON parses back to the exact original text, including emoji (as escaped surrogate pairs).
+const toAsciiJson = (value: unknown): string => {
+    return JSON.stringify(value).replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+};
+
+// Returns the EXIF block as TIFF bytes. When the source image's EXIF is given, the metadata is merged
+// into it. If that exceeds `maxLength`, the metadata alone is written, then the source EXIF alone
+// (the XMP packet still carries the metadata); throws if nothing fits.
+const buildExifBytes = (metadata: GenerationMetadata, sourceExif: ExifData | null = null, maxLength = Infinity): Uint8Array => {
+    const withMetadata = (base: ExifData) => {
+        const exifData = cloneExifData(base);
+        exifData.image.set(EXIF_PROMPT_TAG, createAsciiEntry(toAsciiJson(metadata)));
+        return exifData;
+    };
+    const candidates = sourceExif
+        ? [withMetadata(sourceExif), withMetadata(createExifData()), sourceExif]
+        : [withMetadata(createExifData())];
+
+    for (const [index, candidate] of candidates.entries()) {
+        const tiff = writeExif(candidate);
+        if (tiff.length <= maxLength) {
+            if (index > 0) console.warn("The metadata and the image's existing EXIF don't both fit in the EXIF block, so some was left out.");
+            return tiff;
+        }
+    }
+    throw new Error(`EXIF data would exceed ${maxLength} bytes.`);
+};
+
+// Loads the EXIF of an uploaded image and drops the groups the user chose not to keep.
+const readSourceExif = (dataUrl: string, preservation: ExifPreservation, isReencoded: boolean): ExifData | null => {
+    let exifData: ExifData;
+    try {
+        const bytes = dataUrlToBytes(dataUrl);
+        const tiff = isJpeg(bytes) ? readJpegExif(bytes)
+            : isWebp(bytes) ? readWebpMetadata(bytes).exif
+            : isHeif(bytes) ? readHeifMetadata(bytes).exif
+            : null;
+        if (!tiff) return null;
+        exifData = readExif(tiff);
+    } catch (e) {
+        console.warn("Could not read the image's existing EXIF:", e);
+        return null;
+    }
+
+    (['camera', 'dateTime'] as const).forEach(group => {
+        if (preservation[group]) return;
+        [exifData.image, exifData.thumbnailIfd].forEach(ifd => EXIF_TAG_GROUPS[group].image.forEach(tag => ifd.delete(tag)));
+        EXIF_TAG_GROUPS[group].exif.forEach(tag => exifData.exif.delete(tag));
+    });
+    if (!preservation.gps) {
+        exifData.gps.clear();
+    }
+    // Browsers apply the orientation when decoding, so re-encoded pixels are already upright.
+    if (isReencoded && exifData.image.has(EXIF_ORIENTATION_TAG)) {
+        exifData.image.set(EXIF_ORIENTATION_TAG, createShortEntry(1));
+    }
+    return exifData;
+};
+
+const writeMetadataToBytes = (bytes: Uint8Array, metadata: GenerationMetadata, sourceExif: ExifData | null = null): string => {
+    const xmpPacket = buildXmpPacket(metadata);
+
+    if (isPng(bytes)) {
+        const withJson = writePngTextChunk(bytes, PNG_METADATA_KEYWORD, JSON.stringify(metadata));
+        const withXmp = writePngTextChunk(withJson, PNG_XMP_KEYWORD, xmpPacket);
+        return bytesToDataUrl(withXmp, 'image/png');
+    }
+
+    if (isWebp(bytes)) {
+        const withMetadata = writeWebpMetadata(bytes, { exif: buildExifBytes(metadata, sourceExif), xmp: xmpPacket });
+        return bytesToDataUrl(withMetadata, 'image/webp');
+    }
+
+    if (isJpeg(bytes)) {
+        let withExif = bytes;
+        try {
+            withExif = writeJpegExif(bytes, buildExifBytes(metadata, sourceExif, MAX_EXIF_PAYLOAD));
+        } catch (e) {
+            // The XMP packet still carries the metadata, so an oversized EXIF block isn't fatal.
+            console.warn("Could not write EXIF metadata:", e);
+        }
+        // A single APP1 segment holds about 64KB, so long prompts and lineages go into Extended XMP.
+        let withXmp: Uint8Array;
+        if (utf8Encode(xmpPacket).length <= MAX_XMP_PAYLOAD) {
+            withXmp = writeJpegXmp(withExif, xmpPacket);
+        } else {
+            const { standard, extended, guid } = buildSplitXmpPackets(metadata);
+            withXmp = writeJpegXmp(withExif, standard, { packet: extended, guid });
+        }
+        return bytesToDataUrl(withXmp, 'image/jpeg');
+    }
+
+    throw new Error("Unsupported image format for metadata embedding.");
+};
+
+export interface EmbedOptions {
+    outputFormat?: OutputFormat;
+    // Adds a signature over the metadata and the final pixels, see signatureService.
+    sign?: boolean;
+    // Hides this ID in the pixels so the image can be matched to its history after metadata is stripped.
+    watermarkId?: number;
+    // Which sensitive groups of the source image's own EXIF to keep; other tags are always kept.
+    exifPreservation?: ExifPreservation;
+}
+
+const STRIP_SENSITIVE_EXIF: ExifPreservation = { gps: false, camera: false, dateTime: false };
+
+// PNG, WebP and JPEG sources keep their original bytes unless another output format is requested;
+// everything else is re-encoded. Every format carries an XMP packet, which extraction prefers.
+// The metadata is merged into the source image's existing EXIF when it has any.
+export const embedMetadataInImage = async (
+    base64Image: string,
+    mimeType: string,
+    metadata: GenerationMetadata,
+    { outputFormat, sign = false, watermarkId, exifPreservation = STRIP_SENSITIVE_EXIF }: EmbedOptions = {}
+): Promise<string> => {
+    const sourceDataUrl = `data:${mimeType};base64,${base64Image}`;
+    if (watermarkId !== undefined) {
+        // The watermark is applied before encoding so it goes through the same compression as the output.
+        const watermarkedDataUrl = await embedWatermark(sourceDataUrl, watermarkId);
+        mimeType = getMimeTypeFromDataUrl(watermarkedDataUrl);
+        base64Image = watermarkedDataUrl.split(',')[1];
+    }
+
+    const targetMimeType = outputFormat
+        ? OUTPUT_MIME_TYPES[outputFormat]
+        : PASSTHROUGH_MIME_TYPES.includes(mimeType) ? mimeType : 'image/jpeg';
+
+    const isPassthrough = mimeType === targetMimeType && PASSTHROUGH_MIME_TYPES.includes(mimeType);
+    const encodedDataUrl = isPassthrough
+        ? `data:${mimeType};base64,${base64Image}`
+        : await transcodeImage(base64Image, mimeType, targetMimeType);
+    const sourceExif = readSourceExif(sourceDataUrl, exifPreservation, !isPassthrough || watermarkId !== undefined);
+
+    try {
+        // Signing happens after encoding so the pixel hash matches what is actually saved.
+        // Any signature carried over from a loaded image would no longer match, so it is dropped.
+        const { signature, ...unsignedMetadata } = metadata;
+        const metadataToWrite = sign ? await signMetadata(unsignedMetadata, encodedDataUrl) : unsignedMetadata;
+        return writeMetadataToBytes(dataUrlToBytes(encodedDataUrl), metadataToWrite, sourceExif);
+    } catch (e) {
+        console.error("Error embedding metadata:", e);
+        return encodedDataUrl;
+    }
+};
+
+// Rewrites an already-embedded image's metadata with the given tags added; the pixels are kept. An
+// existing signature would no longer match, so the image is re-signed if it was signed before. History
+// metadata doesn't keep the signature, so whether it was signed is read from the image itself.
+export const embedTagsInImage = async (dataUrl: string, metadata: GenerationMetadata, tags: string[], sign = false): Promise<string> => {
+    const [, base64Image] = dataUrl.split(',');
+    const wasSigned = !!metadata.signature || !!extractMetadataFromImage(dataUrl)?.metadata?.signature;
+    return embedMetadataInImage(base64Image, getMimeTypeFromDataUrl(dataUrl), { ...metadata, tags }, { sign: sign || wasSigned });
+};
+
+// Videos carry only the XMP packet, in moov/udta. Returns a new blob URL, or the original one on failure.
+export const embedMetadataInVideo = async (videoUrl: string, metadata: GenerationMetadata): Promise<string> => {
+    try {
+        const response = await fetch(videoUrl);
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (!isMp4(bytes)) {
+            throw new Error("Video is not an MP4 file.");
+        }
+        const withXmp = writeMp4Xmp(bytes, buildXmpPacket(metadata));
+        return URL.createObjectURL(new Blob([withXmp], { type: 'video/mp4' }));
+    } catch (e) {
+        console.error("Error embedding video metadata:", e);
+        return videoUrl;
+    }
+};
+
+// Older builds stored a bare prompt string rather than JSON, so unparsable text is returned as-is.
+const parseMetadataPayload = (metadataString: string): unknown => {
+    try {
+        return JSON.parse(metadataString);
+    } catch (e) {
+        return metadataString;
+    }
+};
+
+const parseXmpSafely = (xmpPacket: string | null, extendedXmpPacket: string | null = null): Partial<GenerationMetadata> | null => {
+    try {
+        return xmpPacket ? parseXmpPacket(xmpPacket, extendedXmpPacket) : null;
+    } catch (e) {
+        console.warn("Could not read XMP data:", e);
+        return null;
+    }
+};
+
+const readExifMetadataString = (tiff: Uint8Array): string | null => {
+    const metadataString = readAsciiEntry(readExif(tiff).image.get(EXIF_PROMPT_TAG));
+    return metadataString || null;
+};
+
+const readPayloadFromContainer = (xmpPacket: string | null, exif: Uint8Array | null, extendedXmpPacket: string | null = null): unknown => {
+    const xmpMetadata = parseXmpSafely(xmpPacket, extendedXmpPacket);
+    if (xmpMetadata) {
+        return xmpMetadata;
+    }
+    const metadataString = exif ? readExifMetadataString(exif) : null;
+    return metadataString ? parseMetadataPayload(metadataString) : null;
+};
+
+const readPayloadFromPng = (bytes: Uint8Array): unknown => {
+    const textChunks = readPngTextChunks(bytes);
+    const xmpMetadata = parseXmpSafely(textChunks[PNG_XMP_KEYWORD] ?? null);
+    if (xmpMetadata) {
+        return xmpMetadata;
+    }
+    const metadataString = textChunks[PNG_METADATA_KEYWORD];
+    if (metadataString) {
+        return parseMetadataPayload(metadataString);
+    }
+    // Images from Stable Diffusion front ends carry their own text chunks instead.
+    return parseForeignPngMetadata(textChunks);
+};
+
+const readEmbeddedPayload = (imageDataUrl: string): unknown => {
+    const bytes = dataUrlToBytes(imageDataUrl);
+    if (isPng(bytes)) {
+        return readPayloadFromPng(bytes);
+    }
+    if (isWebp(bytes)) {
+        const { xmp, exif } = readWebpMetadata(bytes);
+        return readPayloadFromContainer(xmp, exif);
+    }
+    if (isHeif(bytes)) {
+        const { xmp, exif } = readHeifMetadata(bytes);
+        return readPayloadFromContainer(xmp, exif);
+    }
+    if (isMp4(bytes)) {
+        return readPayloadFromContainer(readMp4Xmp(bytes), null);
+    }
+
+    if (isJpeg(bytes)) {
+        let jpegXmp: string | null = null;
+        let extendedXmp: string | null = null;
+        try {
+            jpegXmp = readJpegXmp(bytes);
+            const guid = jpegXmp ? getExtendedXmpGuid(jpegXmp) : null;
+            extendedXmp = guid ? readJpegExtendedXmp(bytes, guid) : null;
+        } catch (e) {
+            console.warn("Could not read XMP data:", e);
+        }
+        return readPayloadFromContainer(jpegXmp, readJpegExif(bytes), extendedXmp);
+    }
+    return null;
+};
+
+// Returns null when the image carries no metadata payload at all; otherwise the payload upgraded to
+// the current schema, along with any field-level validation errors.
+export const extractMetadataFromImage = (imageDataUrl: string): MetadataMigrationResult | null => {
+    try {
+        const payload = readEmbeddedPayload(imageDataUrl);
+        return payload === null || payload === undefined ? null : migrateMetadata(payload);
+    } catch (e) {
+        console.warn("Could not read image metadata:", e);
+        return null;
+    }
+};
@@ -0,0 +1,117 @@
+import { concatBytes, crc32, latin1Decode, latin1Encode, readUint32BE, utf8Decode, utf8Encode, writeUint32BE } from './binaryUtils';
+
+// Reads and writes PNG text chunks so metadata can be stored without re-encoding the pixel data.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export interface PngChunk {
+    type: string;
+    data: Uint8Array;
+}
+
+export const isPng = (bytes: Uint8Array): boolean => {
+    return bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+};
+
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+    if (!isPng(bytes)) {
+        throw new Error("Data is not a PNG image.");
+    }
+
+    const chunks: PngChunk[] = [];
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+        const length = readUint32BE(bytes, offset);
+        const type = latin1Decode(bytes.subarray(offset + 4, offset + 8));
+        const dataStart = offset + 8;
+        const dataEnd = dataStart + length;
+        if (dataEnd + 4 > bytes.length) {
+            throw new Error(`PNG chunk "${type}" is truncated.`);
+        }
+        chunks.push({ type, data: bytes.subarray(dataStart, dataEnd) });
+        offset = dataEnd + 4; // Skip the CRC
+        if (type === 'IEND') break;
+    }
+    return chunks;
+};
+
+const encodeChunk = ({ type, data }: PngChunk): Uint8Array => {
+    const typeBytes = latin1Encode(type);
+    const chunk = new Uint8Array(12 + data.length);
+    writeUint32BE(chunk, 0, data.length);
+    chunk.set(typeBytes, 4);
+    chunk.set(data, 8);
+    writeUint32BE(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+export const encodePngChunks = (chunks: PngChunk[]): Uint8Array => {
+    return concatBytes(new Uint8Array(PNG_SIGNATURE), ...chunks.map(encodeChunk));
+};
+
+// Returns the keyword of a tEXt/iTXt chunk, or null for any other chunk type.
+const getTextChunkKeyword = (chunk: PngChunk): string | null => {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') return null;
+    const separator = chunk.data.indexOf(0);
+    return separator > 0 ? latin1Decode(chunk.data.subarray(0, separator)) : null;
+};
+
+const decodeTextChunk = (chunk: PngChunk): string | null => {
+    const separator = chunk.data.indexOf(0);
+    if (separator < 0) return null;
+
+    if (chunk.type === 'tEXt') {
+        return latin1Decode(chunk.data.subarray(separator + 1));
+    }
+
+    // iTXt: keyword\0 compressionFlag compressionMethod languageTag\0 translatedKeyword\0 text
+    const compressionFlag = chunk.data[separator + 1];
+    if (compressionFlag !== 0) {
+        console.warn("Skipping compressed iTXt chunk.");
+        return null;
+    }
+    const languageEnd = chunk.data.indexOf(0, separator + 3);
+    if (languageEnd < 0) return null;
+    const translatedKeywordEnd = chunk.data.indexOf(0, languageEnd + 1);
+    if (translatedKeywordEnd < 0) return null;
+    return utf8Decode(chunk.data.subarray(translatedKeywordEnd + 1));
+};
+
+export const readPngTextChunks = (bytes: Uint8Array): Record<string, string> => {
+    const result: Record<string, string> = {};
+    for (const chunk of readPngChunks(bytes)) {
+        const keyword = getTextChunkKeyword(chunk);
+        if (!keyword) continue;
+        const text = decodeTextChunk(chunk);
+        if (text !== null) {
+            result[keyword] = text;
+        }
+    }
+    return result;
+};
+
+const createITXtChunk = (keyword: string, text: string): PngChunk => {
+    const data = concatBytes(
+        latin1Encode(keyword),
+        new Uint8Array([0, 0, 0]), // Null separator, uncompressed, compression method 0
+        new Uint8Array([0]),       // Empty language tag
+        new Uint8Array([0]),       // Empty translated keyword
+        utf8Encode(text),
+    );
+    return { type: 'iTXt', data };
+};
+
+// Inserts (or replaces) an uncompressed iTXt chunk right after IHDR, leaving all image data untouched.
+export const writePngTextChunk = (bytes: Uint8Array, keyword: string, text: string): Uint8Array => {
+    if (keyword.length === 0 || keyword.length > 79) {
+        throw new Error("PNG text keywords must be between 1 and 79 characters.");
+    }
+
+    const chunks = readPngChunks(bytes).filter(chunk => getTextChunkKeyword(chunk) !== keyword);
+    const headerIndex = chunks.findIndex(chunk => chunk.type === 'IHDR');
+    if (headerIndex !== 0) {
+        throw new Error("PNG is missing its IHDR chunk.");
+    }
+    chunks.splice(headerIndex + 1, 0, createITXtChunk(keyword, text));
+    return encodePngChunks(chunks);
+};
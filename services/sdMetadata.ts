@@ -0,0 +1,232 @@
+import type { GenerationMetadata, MetadataSource } from '../state/AppContext';
+import type { AspectRatio } from '../types';
+import { METADATA_SCHEMA_VERSION } from './metadataSchema';
+
+// Parsers for the PNG text chunks written by other generators: the Automatic1111 WebUI `parameters`
+// chunk, and the ComfyUI `prompt` (API graph) and `workflow` (editor graph) chunks.
+
+export const A1111_PARAMETERS_KEYWORD = 'parameters';
+export const COMFYUI_PROMPT_KEYWORD = 'prompt';
+export const COMFYUI_WORKFLOW_KEYWORD = 'workflow';
+
+const ASPECT_RATIOS: { value: AspectRatio; ratio: number }[] = [
+    { value: '1:1', ratio: 1 },
+    { value: '16:9', ratio: 16 / 9 },
+    { value: '9:16', ratio: 9 / 16 },
+    { value: '4:3', ratio: 4 / 3 },
+    { value: '3:4', ratio: 3 / 4 },
+];
+
+const NEGATIVE_PROMPT_PREFIX = 'Negative prompt:';
+// Matches `Key: value` pairs in the A1111 settings line; values may be quoted and contain commas.
+const A1111_SETTING = /\s*([\w ()/-]+):\s*("(?:\\.|[^\\"])*"|[^,]*)(?:,|$)/g;
+
+interface ImportedPrompt {
+    prompt: string;
+    negativePrompt?: string;
+    source: MetadataSource;
+}
+
+const nearestAspectRatio = (width: number, height: number): AspectRatio => {
+    const ratio = width / height;
+    return ASPECT_RATIOS.reduce((best, candidate) =>
+        Math.abs(Math.log(candidate.ratio / ratio)) < Math.abs(Math.log(best.ratio / ratio)) ? candidate : best
+    ).value;
+};
+
+// Imported prompts are plain text and carry an aspect ratio, which maps best onto Imagen.
+const toGenerationMetadata = ({ prompt, negativePrompt, source }: ImportedPrompt): GenerationMetadata => {
+    const { width, height } = source;
+    return {
+        schemaVersion: METADATA_SCHEMA_VERSION,
+        model: 'imagen-4.0-generate-001',
+        prompt,
+        promptMode: 'text',
+        ...(negativePrompt ? { negativePrompt } : {}),
+        ...(width && height ? { aspectRatio: nearestAspectRatio(width, height) } : {}),
+        source,
+    };
+};
+
+const parseSize = (size: string | undefined): { width?: number; height?: number } => {
+    const match = size?.match(/^(\d+)x(\d+)$/);
+    return match ? { width: Number(match[1]), height: Number(match[2]) } : {};
+};
+
+// Format: prompt lines, an optional "Negative prompt:" section, then a final "Steps: ..., Size: WxH, ..." line.
+export const parseA1111Parameters = (text: string): GenerationMetadata | null => {
+    const lines = text.trim().split('\n');
+    let settings: Record<string, string> = {};
+    const lastLine = lines[lines.length - 1];
+    if (lines.length > 1 && /^\s*Steps:/.test(lastLine)) {
+        lines.pop();
+        settings = Object.fromEntries(
+            Array.from(lastLine.matchAll(A1111_SETTING)).map(([, key, value]) => [key.trim(), value.trim().replace(/^"(.*)"$/, '$1')])
+        );
+    }
+
+    const body = lines.join('\n');
+    const negativeIndex = body.indexOf(NEGATIVE_PROMPT_PREFIX);
+    const prompt = (negativeIndex >= 0 ? body.slice(0, negativeIndex) : body).trim();
+    const negativePrompt = negativeIndex >= 0 ? body.slice(negativeIndex + NEGATIVE_PROMPT_PREFIX.length).trim() : undefined;
+    if (!prompt) {
+        return null;
+    }
+
+    return toGenerationMetadata({
+        prompt,
+        negativePrompt,
+        source: {
+            generator: 'automatic1111',
+            ...(settings['Model'] ? { modelName: settings['Model'] } : {}),
+            ...parseSize(settings['Size']),
+        },
+    });
+};
+
+// --- ComfyUI API graph (`prompt` chunk) ---
+
+interface ComfyNode {
+    class_type: string;
+    inputs: Record<string, unknown>;
+}
+
+type ComfyGraph = Record<string, ComfyNode>;
+
+const TEXT_INPUTS = ['text', 'text_g', 'text_l', 'prompt', 'string', 'value'];
+
+// Links are encoded as [sourceNodeId, outputIndex].
+const isLink = (value: unknown): value is [string | number, number] => Array.isArray(value) && value.length === 2 && typeof value[1] === 'number';
+
+const isSamplerNode = (node: ComfyNode) => /sampler/i.test(node.class_type) && 'positive' in node.inputs;
+
+// Follows a conditioning link back to the text that produced it, through combine/concat nodes and
+// primitive or string nodes feeding the text input.
+const resolveComfyText = (graph: ComfyGraph, input: unknown, visited = new Set<string>()): string => {
+    if (typeof input === 'string') return input;
+    if (!isLink(input)) return '';
+    const nodeId = String(input[0]);
+    const node = graph[nodeId];
+    if (!node || visited.has(nodeId)) return '';
+    visited.add(nodeId);
+
+    for (const key of TEXT_INPUTS) {
+        const text = resolveComfyText(graph, node.inputs[key], visited);
+        if (text) return text;
+    }
+    return Object.entries(node.inputs)
+        .filter(([key, value]) => key.startsWith('conditioning') && isLink(value))
+        .map(([, value]) => resolveComfyText(graph, value, visited))
+        .filter(Boolean)
+        .join('\n');
+};
+
+const findComfyNode = (graph: ComfyGraph, input: unknown, predicate: (node: ComfyNode) => boolean, visited = new Set<string>()): ComfyNode | undefined => {
+    if (!isLink(input)) return undefined;
+    const nodeId = String(input[0]);
+    const node = graph[nodeId];
+    if (!node || visited.has(nodeId)) return undefined;
+    visited.add(nodeId);
+    if (predicate(node)) return node;
+    for (const value of Object.values(node.inputs)) {
+        const found = findComfyNode(graph, value, predicate, visited);
+        if (found) return found;
+    }
+    return undefined;
+};
+
+export const parseComfyUiPrompt = (json: string): GenerationMetadata | null => {
+    const graph: ComfyGraph = JSON.parse(json);
+    if (typeof graph !== 'object' || graph === null) return null;
+
+    const sampler = Object.values(graph).find(node => node && typeof node === 'object' && node.inputs && isSamplerNode(node));
+    if (!sampler) return null;
+
+    const prompt = resolveComfyText(graph, sampler.inputs.positive).trim();
+    if (!prompt) return null;
+    const negativePrompt = resolveComfyText(graph, sampler.inputs.negative).trim();
+
+    const latent = findComfyNode(graph, sampler.inputs.latent_image, node => typeof node.inputs.width === 'number' && typeof node.inputs.height === 'number');
+    const checkpoint = findComfyNode(graph, sampler.inputs.model, node => typeof node.inputs.ckpt_name === 'string' || typeof node.inputs.unet_name === 'string');
+    const modelName = checkpoint ? String(checkpoint.inputs.ckpt_name ?? checkpoint.inputs.unet_name) : undefined;
+
+    return toGenerationMetadata({
+        prompt,
+        negativePrompt,
+        source: {
+            generator: 'comfyui',
+            ...(modelName ? { modelName } : {}),
+            ...(latent ? { width: latent.inputs.width as number, height: latent.inputs.height as number } : {}),
+        },
+    });
+};
+
+// --- ComfyUI editor graph (`workflow` chunk), used when the API graph is missing ---
+
+interface WorkflowNode {
+    id: number;
+    type: string;
+    inputs?: { name: string; link: number | null }[];
+    widgets_values?: unknown[];
+}
+
+interface Workflow {
+    nodes: WorkflowNode[];
+    // [linkId, originNodeId, originSlot, targetNodeId, targetSlot, type]
+    links: [number, number, number, number, number, string][];
+}
+
+export const parseComfyUiWorkflow = (json: string): GenerationMetadata | null => {
+    const workflow: Workflow = JSON.parse(json);
+    if (!Array.isArray(workflow?.nodes) || !Array.isArray(workflow.links)) return null;
+
+    const nodesById = new Map(workflow.nodes.map(node => [node.id, node]));
+    const linkOrigins = new Map(workflow.links.map(([linkId, originId]) => [linkId, originId]));
+
+    const inputOrigin = (node: WorkflowNode, name: string): WorkflowNode | undefined => {
+        const link = node.inputs?.find(input => input.name === name)?.link;
+        const originId = link !== null && link !== undefined ? linkOrigins.get(link) : undefined;
+        return originId !== undefined ? nodesById.get(originId) : undefined;
+    };
+    const widgetText = (node: WorkflowNode | undefined): string => {
+        const text = node?.widgets_values?.find(value => typeof value === 'string');
+        return typeof text === 'string' ? text.trim() : '';
+    };
+
+    const sampler = workflow.nodes.find(node => /sampler/i.test(node.type) && node.inputs?.some(input => input.name === 'positive'));
+    if (!sampler) return null;
+
+    const prompt = widgetText(inputOrigin(sampler, 'positive'));
+    if (!prompt) return null;
+    const negativePrompt = widgetText(inputOrigin(sampler, 'negative'));
+
+    const [width, height] = inputOrigin(sampler, 'latent_image')?.widgets_values ?? [];
+    return toGenerationMetadata({
+        prompt,
+        negativePrompt,
+        source: {
+            generator: 'comfyui',
+            ...(typeof width === 'number' && typeof height === 'number' ? { width, height } : {}),
+        },
+    });
+};
+
+// Tries each known third-party chunk; returns null when none is present or parsable.
+export const parseForeignPngMetadata = (textChunks: Record<string, string>): GenerationMetadata | null => {
+    const parsers: [string, (text: string) => GenerationMetadata | null][] = [
+        [A1111_PARAMETERS_KEYWORD, parseA1111Parameters],
+        [COMFYUI_PROMPT_KEYWORD, parseComfyUiPrompt],
+        [COMFYUI_WORKFLOW_KEYWORD, parseComfyUiWorkflow],
+    ];
+    for (const [keyword, parse] of parsers) {
+        const text = textChunks[keyword];
+        if (!text) continue;
+        try {
+            const metadata = parse(text);
+            if (metadata) return metadata;
+        } catch (e) {
+            console.warn(`Could not parse the "${keyword}" PNG text chunk:`, e);
+        }
+    }
+    return null;
+};
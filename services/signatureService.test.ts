@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GenerationMetadata } from '../state/AppContext';
+import { signMetadata, verifyMetadataSignature } from './signatureService';
+import { embedMetadataInImage, embedTagsInImage, extractMetadataFromImage } from './metadataService';
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+// jsdom neither decodes images nor draws on canvases, so the pixels are a fixed red pixel.
+class LoadingImage {
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    naturalWidth = 1;
+    naturalHeight = 1;
+    set src(_value: string) {
+        setTimeout(() => this.onload?.());
+    }
+}
+
+const metadata: GenerationMetadata = {
+    schemaVersion: 2,
+    model: 'imagen-4.0-generate-001',
+    prompt: 'a castle on a hill',
+    promptMode: 'text',
+    negativePrompt: 'blurry',
+    originalPrompt: '',
+    aspectRatio: '1:1',
+    source: { generator: 'automatic1111', width: 1024, height: 1024 },
+    lineage: [{ operation: 'generate', prompt: 'a castle on a hill', model: 'imagen-4.0-generate-001', timestamp: 1760000000000 }],
+};
+
+describe('signatureService', () => {
+    beforeEach(() => {
+        vi.stubGlobal('Image', LoadingImage);
+        const createElement = document.createElement.bind(document);
+        vi.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+            if (tagName !== 'canvas') return createElement(tagName);
+            return {
+                getContext: () => ({ drawImage: () => undefined, getImageData: () => ({ data: new Uint8ClampedArray([255, 0, 0, 255]) }) }),
+            } as unknown as HTMLCanvasElement;
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('verifies an unmodified signed image whose metadata has fields XMP leaves out', async () => {
+        const dataUrl = await embedMetadataInImage(PNG_BASE64, 'image/png', metadata, { sign: true });
+        const result = extractMetadataFromImage(dataUrl);
+        expect(result?.metadata?.signature).toBeDefined();
+
+        const signedMetadata = result!.wasMigrated ? result!.original as GenerationMetadata : result!.metadata!;
+        await expect(verifyMetadataSignature(signedMetadata, dataUrl)).resolves.toEqual({ status: 'valid', isOwnKey: true });
+    });
+
+    it('re-signs a signed image when tags are added, even with signing turned off', async () => {
+        const signedUrl = await embedMetadataInImage(PNG_BASE64, 'image/png', metadata, { sign: true });
+        const taggedUrl = await embedTagsInImage(signedUrl, metadata, ['castle'], false);
+        const tagged = extractMetadataFromImage(taggedUrl)!.metadata!;
+
+        expect(tagged.tags).toEqual(['castle']);
+        await expect(verifyMetadataSignature(tagged, taggedUrl)).resolves.toEqual({ status: 'valid', isOwnKey: true });
+
+        const unsignedUrl = await embedMetadataInImage(PNG_BASE64, 'image/png', metadata);
+        const taggedUnsigned = await embedTagsInImage(unsignedUrl, metadata, ['castle'], false);
+        expect(extractMetadataFromImage(taggedUnsigned)?.metadata?.signature).toBeUndefined();
+    });
+
+    it('reports edited metadata as tampered', async () => {
+        const signed = await signMetadata(metadata, `data:image/png;base64,${PNG_BASE64}`);
+        const edited = { ...signed, negativePrompt: 'sharp' };
+        await expect(verifyMetadataSignature(edited, `data:image/png;base64,${PNG_BASE64}`)).resolves.toMatchObject({ status: 'tampered' });
+    });
+});
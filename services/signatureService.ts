@@ -0,0 +1,152 @@
+import type { GenerationMetadata, MetadataSignature } from '../state/AppContext';
+import { base64ToBytes, bytesToBase64, utf8Encode } from './binaryUtils';
+import { normalizeXmpMetadata } from './xmpMetadata';
+
+// Signs GenerationMetadata together with a hash of the decoded pixels, so edits to either can be detected.
+
+const SIGNING_KEY_STORAGE_KEY = 'gemini-exif-signing-key';
+const SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256';
+
+const KEY_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export type SignatureStatus = 'valid' | 'tampered' | 'unsigned';
+
+export interface SignatureVerification {
+    status: SignatureStatus;
+    // True when the signature was made with the key stored in this browser.
+    isOwnKey: boolean;
+}
+
+interface StoredKeyPair {
+    publicKey: JsonWebKey;
+    privateKey: JsonWebKey;
+}
+
+let keyPairPromise: Promise<{ publicJwk: JsonWebKey; privateKey: CryptoKey }> | null = null;
+
+const loadOrCreateKeyPair = async () => {
+    const stored = localStorage.getItem(SIGNING_KEY_STORAGE_KEY);
+    if (stored) {
+        try {
+            const { publicKey, privateKey }: StoredKeyPair = JSON.parse(stored);
+            return { publicJwk: publicKey, privateKey: await crypto.subtle.importKey('jwk', privateKey, KEY_PARAMS, false, ['sign']) };
+        } catch (e) {
+            console.warn("Stored signing key is unreadable, generating a new one.", e);
+        }
+    }
+
+    const keyPair = await crypto.subtle.generateKey(KEY_PARAMS, true, ['sign', 'verify']);
+    const publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    const privateJwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+    const toStore: StoredKeyPair = { publicKey: publicJwk, privateKey: privateJwk };
+    localStorage.setItem(SIGNING_KEY_STORAGE_KEY, JSON.stringify(toStore));
+    return { publicJwk, privateKey: keyPair.privateKey };
+};
+
+const getSigningKeyPair = () => {
+    if (!keyPairPromise) {
+        keyPairPromise = loadOrCreateKeyPair().catch(error => {
+            keyPairPromise = null;
+            throw error;
+        });
+    }
+    return keyPairPromise;
+};
+
+// Deterministic JSON: object keys sorted, undefined values dropped.
+export const canonicalize = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+    }
+    if (typeof value === 'object' && value !== null) {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const toHex = (buffer: ArrayBuffer): string => {
+    return Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Hashes the decoded RGBA pixels rather than the file bytes, so adding metadata does not change it.
+// The pixels come from the browser's canvas, so the hash is only reproducible where decoding is: colour
+// management or anti-fingerprinting noise (e.g. Firefox's resistFingerprinting, Brave) can change
+// them, and an unmodified image then fails verification in that browser.
+export const computePixelHash = (imageDataUrl: string): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = async () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Could not get canvas context'));
+            ctx.drawImage(img, 0, 0);
+            const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            try {
+                resolve(toHex(await crypto.subtle.digest('SHA-256', data)));
+            } catch (e) {
+                reject(e);
+            }
+        };
+        img.onerror = () => reject(new Error('Failed to load image for pixel hashing.'));
+        img.src = imageDataUrl;
+    });
+};
+
+// Extraction prefers the XMP packet, which only carries some fields, so the signature covers the
+// metadata in the form it has after a round trip through XMP.
+const buildSignedMessage = (metadata: GenerationMetadata, pixelHash: string): Uint8Array => {
+    const { signature, ...unsignedMetadata } = normalizeXmpMetadata(metadata);
+    return utf8Encode(canonicalize({ metadata: unsignedMetadata, pixelHash }));
+};
+
+export const signMetadata = async (metadata: GenerationMetadata, imageDataUrl: string): Promise<GenerationMetadata> => {
+    const { publicJwk, privateKey } = await getSigningKeyPair();
+    const pixelHash = await computePixelHash(imageDataUrl);
+    const signatureBytes = await crypto.subtle.sign(SIGN_PARAMS, privateKey, buildSignedMessage(metadata, pixelHash));
+
+    const signature: MetadataSignature = {
+        algorithm: SIGNATURE_ALGORITHM,
+        publicKey: { kty: publicJwk.kty, crv: publicJwk.crv, x: publicJwk.x, y: publicJwk.y },
+        pixelHash,
+        value: bytesToBase64(new Uint8Array(signatureBytes)),
+    };
+    return { ...metadata, signature };
+};
+
+export const verifyMetadataSignature = async (metadata: GenerationMetadata, imageDataUrl: string): Promise<SignatureVerification> => {
+    const { signature } = metadata;
+    if (!signature) {
+        return { status: 'unsigned', isOwnKey: false };
+    }
+
+    try {
+        if (signature.algorithm !== SIGNATURE_ALGORITHM) {
+            return { status: 'tampered', isOwnKey: false };
+        }
+        const publicKey = await crypto.subtle.importKey('jwk', signature.publicKey, KEY_PARAMS, false, ['verify']);
+        const pixelHash = await computePixelHash(imageDataUrl);
+        const isSignatureValid = await crypto.subtle.verify(
+            SIGN_PARAMS,
+            publicKey,
+            base64ToBytes(signature.value),
+            buildSignedMessage(metadata, signature.pixelHash),
+        );
+
+        const stored = localStorage.getItem(SIGNING_KEY_STORAGE_KEY);
+        const ownKey: JsonWebKey | undefined = stored ? (JSON.parse(stored) as StoredKeyPair).publicKey : undefined;
+        const isOwnKey = !!ownKey && ownKey.x === signature.publicKey.x && ownKey.y === signature.publicKey.y;
+
+        const isValid = isSignatureValid && pixelHash === signature.pixelHash;
+        return { status: isValid ? 'valid' : 'tampered', isOwnKey: isValid && isOwnKey };
+    } catch (e) {
+        console.warn("Could not verify metadata signature:", e);
+        return { status: 'tampered', isOwnKey: false };
+    }
+};
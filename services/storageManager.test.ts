@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { GenerationMetadata, HistoryItem } from '../state/AppContext';
+import { selectItemsToEvict, selectTrashToPurge } from './storageManager';
+
+const metadata: GenerationMetadata = { schemaVersion: 2, model: 'imagen-4.0-generate-001', prompt: 'a lighthouse', aspectRatio: '1:1' };
+
+const createItem = (id: string, timestamp: number): HistoryItem => ({ id, imageKeys: [`${id}-0`], timestamp, metadata });
+
+// Every image is 100 bytes.
+const imageSizes = new Map(['a', 'b', 'c', 'd', 'e'].map(id => [`${id}-0`, 100]));
+
+describe('storageManager', () => {
+    it('picks the oldest unprotected items beyond the item limit', () => {
+        const history = [createItem('c', 3), createItem('b', 2), createItem('a', 1)];
+        const evicted = selectItemsToEvict(history, { maxItems: 1, maxAgeDays: null, maxBytes: null, keepFavorites: true }, null, new Set(['a']));
+        expect(evicted.map(item => item.id)).toEqual(['c', 'b']);
+    });
+
+    it('counts the trash toward the byte limit and purges the longest-trashed entries first', () => {
+        const history = [createItem('a', 1), createItem('b', 2)];
+        const trash = [
+            { item: createItem('c', 3), deletedAt: 30 },
+            { item: createItem('d', 4), deletedAt: 10 },
+            { item: createItem('e', 5), deletedAt: 20 },
+        ];
+        expect(selectTrashToPurge(trash, history, 350, imageSizes).map(entry => entry.item.id)).toEqual(['d', 'e']);
+        expect(selectTrashToPurge(trash, history, 500, imageSizes)).toEqual([]);
+    });
+
+    it('purges the whole trash when the history alone is over the byte limit', () => {
+        const trash = [{ item: createItem('c', 3), deletedAt: 30 }];
+        expect(selectTrashToPurge(trash, [createItem('a', 1), createItem('b', 2)], 150, imageSizes)).toEqual(trash);
+    });
+});
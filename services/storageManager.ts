@@ -0,0 +1,100 @@
+import type { EvictionPolicy } from '../types';
+import type { HistoryItem, TrashedHistoryItem } from '../state/AppContext';
+import { getHistoryItemStorageKeys } from './versionTree';
+
+// Storage usage reporting and the history eviction policy.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+}
+
+// Returns null in browsers without the StorageManager API.
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+    ]);
+    return { usage, quota, persisted };
+};
+
+// Asks the browser not to clear our storage under pressure. Browsers may grant this silently,
+// prompt the user, or refuse based on engagement.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    if (await navigator.storage.persisted()) return true;
+    return navigator.storage.persist();
+};
+
+export const formatBytes = (bytes: number): string => {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+const getItemBytes = (item: HistoryItem, imageSizes: Map<string, number> | null): number => (
+    getHistoryItemStorageKeys(item).reduce((total, key) => total + (imageSizes?.get(key) ?? 0), 0)
+);
+
+// Picks the history items to move to the trash under the policy: everything past the maximum age,
+// then the oldest remaining items until the item count and total size fit. Protected items (e.g. the
+// one currently shown) and, if the policy says so, favorites are never picked but still count toward
+// the limits. `imageSizes` is only needed when the policy has a byte limit.
+export const selectItemsToEvict = (
+    history: HistoryItem[],
+    policy: EvictionPolicy,
+    imageSizes: Map<string, number> | null,
+    protectedIds: Set<string>,
+    now = Date.now(),
+): HistoryItem[] => {
+    const itemBytes = (item: HistoryItem) => getItemBytes(item, imageSizes);
+    const candidates = history
+        .filter(item => !protectedIds.has(item.id) && !(policy.keepFavorites && item.isFavorite))
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+    const evicted = new Set<HistoryItem>();
+    if (policy.maxAgeDays !== null) {
+        const cutoff = now - policy.maxAgeDays * DAY_MS;
+        candidates.filter(item => item.timestamp < cutoff).forEach(item => evicted.add(item));
+    }
+
+    let remainingCount = history.length - evicted.size;
+    let remainingBytes = history.filter(item => !evicted.has(item)).reduce((total, item) => total + itemBytes(item), 0);
+    for (const item of candidates) {
+        if (evicted.has(item)) continue;
+        const isOverCount = policy.maxItems !== null && remainingCount > policy.maxItems;
+        const isOverBytes = policy.maxBytes !== null && remainingBytes > policy.maxBytes;
+        if (!isOverCount && !isOverBytes) break;
+        evicted.add(item);
+        remainingCount--;
+        remainingBytes -= itemBytes(item);
+    }
+    return history.filter(item => evicted.has(item));
+};
+
+// The trash keeps its images until items are purged, so they count toward the byte limit as well.
+// Picks the trash entries to delete for good, the longest-trashed first, until history and trash fit.
+export const selectTrashToPurge = (
+    trash: TrashedHistoryItem[],
+    history: HistoryItem[],
+    maxBytes: number,
+    imageSizes: Map<string, number>,
+): TrashedHistoryItem[] => {
+    let remainingBytes = [...history, ...trash.map(entry => entry.item)].reduce((total, item) => total + getItemBytes(item, imageSizes), 0);
+    const purged = new Set<TrashedHistoryItem>();
+    for (const entry of [...trash].sort((a, b) => a.deletedAt - b.deletedAt)) {
+        if (remainingBytes <= maxBytes) break;
+        purged.add(entry);
+        remainingBytes -= getItemBytes(entry.item, imageSizes);
+    }
+    return trash.filter(entry => purged.has(entry));
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { GenerationMetadata, HistoryItem } from '../state/AppContext';
+import { mergeHistories } from './tabSync';
+
+const metadata: GenerationMetadata = { schemaVersion: 2, model: 'imagen-4.0-generate-001', prompt: 'a lighthouse', aspectRatio: '1:1' };
+
+const createItem = (id: string, extra: Partial<HistoryItem> = {}): HistoryItem => ({ id, imageKeys: [`${id}-0`], timestamp: 1000, metadata, ...extra });
+
+describe('tabSync', () => {
+    it('keeps the more recently changed copy of an item from either side', () => {
+        const tagged = createItem('hist-1', { tags: ['sea'], updatedAt: 3000 });
+        const stale = createItem('hist-1', { isFavorite: true, updatedAt: 2000 });
+
+        expect(mergeHistories([tagged], [stale], new Set())).toEqual([tagged]);
+        expect(mergeHistories([stale], [tagged], new Set())).toEqual([tagged]);
+    });
+
+    it('treats an item that was never changed as older than any change to it', () => {
+        const untouched = createItem('hist-1');
+        const tagged = createItem('hist-1', { tags: ['sea'], updatedAt: 1500 });
+
+        expect(mergeHistories([tagged], [untouched], new Set())).toEqual([tagged]);
+    });
+
+    it('lets two tabs with different copies changed at the same time settle on the same one', () => {
+        const a = createItem('hist-1', { tags: ['a'], updatedAt: 2000 });
+        const b = createItem('hist-1', { tags: ['b'], updatedAt: 2000 });
+
+        expect(mergeHistories([a], [b], new Set())).toEqual(mergeHistories([b], [a], new Set()));
+    });
+
+    it('adds the other tab\'s new items, leaves out removed ones and returns the same array when nothing changed', () => {
+        const local = [createItem('hist-1')];
+        const merged = mergeHistories(local, [createItem('hist-2', { timestamp: 2000 }), createItem('hist-3')], new Set(['hist-3']));
+
+        expect(merged.map(item => item.id)).toEqual(['hist-2', 'hist-1']);
+        expect(mergeHistories(local, [createItem('hist-1')], new Set())).toBe(local);
+    });
+});
@@ -0,0 +1,103 @@
+import type { HistoryItem, TrashedHistoryItem } from '../state/AppContext';
+
+// Keeps tabs of the app in step. Every tab saves its whole state to localStorage, so the other tabs
+// merge each save they see (via the `storage` event) instead of overwriting it on their next save.
+// Deliberate removals are announced over a BroadcastChannel, since a merge alone can't tell a
+// deleted item from one the other tab hasn't seen yet.
+
+const CHANNEL_NAME = 'gemini-exif-app-sync';
+const PRESENCE_TIMEOUT_MS = 300;
+const TAB_ID = Math.random().toString(36).substring(2, 10); // Tells this tab's own pings apart
+
+export type TabSyncMessage =
+    | { type: 'history-removed'; ids: string[] }
+    | { type: 'history-restored'; ids: string[] }
+    | { type: 'trash-purged'; ids: string[] }
+    | { type: 'ping'; tabId: string }
+    | { type: 'pong' };
+
+export interface TabChannel {
+    post: (message: TabSyncMessage) => void;
+    close: () => void;
+}
+
+// Without BroadcastChannel support the returned channel does nothing.
+export const openTabChannel = (onMessage: (message: TabSyncMessage) => void): TabChannel => {
+    if (typeof BroadcastChannel === 'undefined') {
+        return { post: () => undefined, close: () => undefined };
+    }
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+        if (event.data?.type === 'ping') {
+            if (event.data.tabId !== TAB_ID) channel.postMessage({ type: 'pong' } satisfies TabSyncMessage);
+        } else if (event.data) {
+            onMessage(event.data);
+        }
+    };
+    return {
+        post: (message) => channel.postMessage(message),
+        close: () => channel.close(),
+    };
+};
+
+// Whether another tab answers a ping. Used to skip work that is only safe in a single tab.
+export const isAnotherTabOpen = (): Promise<boolean> => {
+    if (typeof BroadcastChannel === 'undefined') return Promise.resolve(false);
+    return new Promise(resolve => {
+        const channel = new BroadcastChannel(CHANNEL_NAME);
+        const finish = (isOpen: boolean) => {
+            clearTimeout(timeout);
+            channel.close();
+            resolve(isOpen);
+        };
+        const timeout = setTimeout(() => finish(false), PRESENCE_TIMEOUT_MS);
+        channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+            if (event.data?.type === 'pong') finish(true);
+        };
+        channel.postMessage({ type: 'ping', tabId: TAB_ID } satisfies TabSyncMessage);
+    });
+};
+
+const getUpdatedAt = (item: HistoryItem): number => item.updatedAt ?? item.timestamp;
+
+// Whether the other tab's copy of an item should replace this tab's. A save carries the whole history,
+// including stale copies of items that tab never touched, so the more recently changed copy wins. Equal
+// times are settled by content, so that two tabs pick the same copy instead of swapping them.
+const isRemoteNewer = (local: HistoryItem, remote: HistoryItem): boolean => {
+    const localUpdatedAt = getUpdatedAt(local);
+    const remoteUpdatedAt = getUpdatedAt(remote);
+    if (remoteUpdatedAt !== localUpdatedAt) return remoteUpdatedAt > localUpdatedAt;
+    return JSON.stringify(remote) > JSON.stringify(local);
+};
+
+// Merges another tab's history into this one without ever dropping an item: items from either side
+// are kept unless they were deliberately removed. When both have an item, the newer copy is kept.
+// Returns `local` itself when nothing changed.
+export const mergeHistories = (local: HistoryItem[], remote: HistoryItem[], removedIds: Set<string>): HistoryItem[] => {
+    const remoteById = new Map(remote.filter(item => !removedIds.has(item.id)).map(item => [item.id, item]));
+    let hasChanged = false;
+    const merged = local.map(item => {
+        const remoteItem = remoteById.get(item.id);
+        remoteById.delete(item.id);
+        if (!remoteItem || !isRemoteNewer(item, remoteItem)) return item;
+        hasChanged = true;
+        return remoteItem;
+    });
+    if (remoteById.size === 0 && !hasChanged) return local;
+    return [...merged, ...remoteById.values()].sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Trash entries from either tab are kept too, except items that are back in the history or were
+// purged. Returns `local` itself when nothing changed.
+export const mergeTrash = (
+    local: TrashedHistoryItem[],
+    remote: TrashedHistoryItem[],
+    historyIds: Set<string>,
+    purgedIds: Set<string>,
+): TrashedHistoryItem[] => {
+    const localIds = new Set(local.map(entry => entry.item.id));
+    const added = remote.filter(entry => !localIds.has(entry.item.id));
+    const merged = [...local, ...added].filter(entry => !historyIds.has(entry.item.id) && !purgedIds.has(entry.item.id));
+    if (added.length === 0 && merged.length === local.length) return local;
+    return merged.sort((a, b) => b.deletedAt - a.deletedAt);
+};
@@ -0,0 +1,39 @@
+import { saveHistoryImages } from './historyStore';
+
+// Small JPEG previews of history images, so the history grid doesn't decode full-size images.
+
+const THUMBNAIL_MAX_DIMENSION = 256;
+const THUMBNAIL_QUALITY = 0.8;
+
+export const createThumbnail = (source: string | Blob, maxDimension = THUMBNAIL_MAX_DIMENSION): Promise<string> => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    return new Promise<string>((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.width * scale));
+            canvas.height = Math.max(1, Math.round(img.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Could not get canvas context'));
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY));
+        };
+        img.onerror = () => reject(new Error('Failed to load image for its thumbnail.'));
+        img.src = url;
+    }).finally(() => {
+        if (url !== source) URL.revokeObjectURL(url);
+    });
+};
+
+// Thumbnails are a nicety: on failure the history falls back to the full image, so this returns
+// undefined instead of throwing.
+export const saveHistoryThumbnail = async (historyId: string, source: string | Blob): Promise<string | undefined> => {
+    try {
+        const [thumbnailKey] = await saveHistoryImages(historyId, [await createThumbnail(source)]);
+        return thumbnailKey;
+    } catch (error) {
+        console.warn('Could not create a history thumbnail', error);
+        return undefined;
+    }
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { GenerationMetadata, HistoryItem, LineageStep } from '../state/AppContext';
+import { addImageVersion, applyImageVersion, getCurrentVersion, getImageMetadata } from './versionTree';
+
+const generated: GenerationMetadata = {
+    schemaVersion: 2,
+    model: 'imagen-4.0-generate-001',
+    prompt: 'a lighthouse',
+    aspectRatio: '1:1',
+    lineage: [{ operation: 'generate', prompt: 'a lighthouse', model: 'imagen-4.0-generate-001' }],
+};
+
+// What a refinement of one image does: its current version's metadata plus one lineage step.
+const refine = (item: HistoryItem, imageIndex: number, prompt: string): HistoryItem => {
+    const source = getImageMetadata(item, imageIndex);
+    const step: LineageStep = { operation: 'refine', prompt, model: 'gemini-2.5-flash-image' };
+    const metadata = { ...source, model: 'gemini-2.5-flash-image' as const, lineage: [...(source.lineage ?? []), step] };
+    return addImageVersion(item, imageIndex, { imageKey: `${item.id}-${imageIndex}-${prompt}`, metadata });
+};
+
+describe('versionTree', () => {
+    it('keeps each image of an item on its own lineage when both are refined', () => {
+        const item: HistoryItem = { id: 'hist-1', imageKeys: ['hist-1-0', 'hist-1-1'], timestamp: 0, metadata: generated };
+        const refined = refine(refine(item, 0, 'at night'), 1, 'in fog');
+
+        const first = getCurrentVersion(refined, 0)!;
+        const second = getCurrentVersion(refined, 1)!;
+        expect(first.metadata.lineage?.map(step => step.prompt)).toEqual(['a lighthouse', 'at night']);
+        expect(second.metadata.lineage?.map(step => step.prompt)).toEqual(['a lighthouse', 'in fog']);
+        expect(second.parentId).toBe('hist-1-1-root');
+        expect(getImageMetadata(refined, 0)).toBe(first.metadata);
+    });
+
+    it('applies a version made from an older copy without losing later changes', () => {
+        const item: HistoryItem = { id: 'hist-3', imageKeys: ['hist-3-0', 'hist-3-1'], timestamp: 0, metadata: generated };
+        const refinedSnapshot = refine(item, 1, 'in fog');
+        const taggedMeanwhile = { ...refine(item, 0, 'at night'), tags: ['sea'] };
+
+        const applied = applyImageVersion(taggedMeanwhile, getCurrentVersion(refinedSnapshot, 1)!);
+        expect(applied.tags).toEqual(['sea']);
+        expect(applied.imageKeys).toEqual([taggedMeanwhile.imageKeys[0], refinedSnapshot.imageKeys[1]]);
+        expect(getImageMetadata(applied, 0).lineage?.map(step => step.prompt)).toEqual(['a lighthouse', 'at night']);
+    });
+
+    it('falls back to the item metadata for an image without versions', () => {
+        const item: HistoryItem = { id: 'hist-2', imageKeys: ['hist-2-0'], timestamp: 0, metadata: generated };
+        expect(getImageMetadata(item, 0)).toBe(generated);
+        expect(getImageMetadata(item, 3)).toBe(generated);
+    });
+});
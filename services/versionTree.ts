@@ -0,0 +1,125 @@
+import type { GenerationMetadata, HistoryItem, ImageVersion, VersionChange, VersionUndoStack } from '../state/AppContext';
+
+// Each image of a history item keeps every refinement as a version. A refinement becomes a child of
+// the version that was shown when it was made, so refining an earlier version starts a new branch.
+// `imageKeys[i]` (and the item's metadata) always hold the currently chosen version.
+
+// Items saved before versions were kept start out with one root version per image.
+export const getImageVersions = (item: HistoryItem): ImageVersion[] => item.versions ?? item.imageKeys.map((imageKey, imageIndex) => ({
+    id: `${item.id}-${imageIndex}-root`,
+    parentId: null,
+    imageIndex,
+    imageKey,
+    thumbnailKey: imageIndex === 0 ? item.thumbnailKey : undefined,
+    metadata: item.metadata,
+    timestamp: item.timestamp,
+}));
+
+export const getCurrentVersion = (item: HistoryItem, imageIndex: number): ImageVersion | undefined => (
+    getImageVersions(item).find(version => version.imageIndex === imageIndex && version.imageKey === item.imageKeys[imageIndex])
+);
+
+// The item's metadata follows whichever image was refined or selected last, so each image's own
+// lineage comes from its current version.
+export const getImageMetadata = (item: HistoryItem, imageIndex: number): GenerationMetadata => (
+    getCurrentVersion(item, imageIndex)?.metadata ?? item.metadata
+);
+
+export const addImageVersion = (
+    item: HistoryItem,
+    imageIndex: number,
+    { imageKey, thumbnailKey, metadata }: Pick<ImageVersion, 'imageKey' | 'thumbnailKey' | 'metadata'>,
+): HistoryItem => {
+    const version: ImageVersion = {
+        id: `${item.id}-${imageIndex}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        parentId: getCurrentVersion(item, imageIndex)?.id ?? null,
+        imageIndex,
+        imageKey,
+        thumbnailKey,
+        metadata,
+        timestamp: Date.now(),
+    };
+    return applyImageVersion(item, version);
+};
+
+// Adds a version and makes it current. The version may have been made from an older copy of the
+// item; everything else about `item` is kept.
+export const applyImageVersion = (item: HistoryItem, version: ImageVersion): HistoryItem => ({
+    ...item,
+    versions: [...getImageVersions(item).filter(candidate => candidate.id !== version.id), version],
+    imageKeys: item.imageKeys.map((key, index) => index === version.imageIndex ? version.imageKey : key),
+    thumbnailKey: version.imageIndex === 0 ? version.thumbnailKey : item.thumbnailKey,
+    metadata: version.metadata,
+});
+
+export const selectImageVersion = (item: HistoryItem, versionId: string): HistoryItem => {
+    const versions = getImageVersions(item);
+    const version = versions.find(candidate => candidate.id === versionId);
+    if (!version) return item;
+    return {
+        ...item,
+        versions,
+        imageKeys: item.imageKeys.map((key, index) => index === version.imageIndex ? version.imageKey : key),
+        thumbnailKey: version.imageIndex === 0 ? version.thumbnailKey : item.thumbnailKey,
+        metadata: version.metadata,
+    };
+};
+
+// The versions of one image in depth-first order, oldest child first, with their depth in the tree.
+export const flattenVersionTree = (item: HistoryItem, imageIndex: number): { version: ImageVersion; depth: number }[] => {
+    const versions = getImageVersions(item).filter(version => version.imageIndex === imageIndex);
+    const ids = new Set(versions.map(version => version.id));
+    const result: { version: ImageVersion; depth: number }[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+        versions
+            .filter(version => (parentId === null ? version.parentId === null || !ids.has(version.parentId) : version.parentId === parentId))
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .forEach(version => {
+                result.push({ version, depth });
+                visit(version.id, depth + 1);
+            });
+    };
+    visit(null, 0);
+    return result;
+};
+
+// Every historyStore key an item holds on to, including earlier versions and thumbnails.
+export const getHistoryItemStorageKeys = (item: HistoryItem): string[] => Array.from(new Set([
+    ...item.imageKeys,
+    ...(item.thumbnailKey ? [item.thumbnailKey] : []),
+    ...(item.versions ?? []).flatMap(version => [version.imageKey, ...(version.thumbnailKey ? [version.thumbnailKey] : [])]),
+]));
+
+// --- Undo/redo ---
+// Each item keeps a bounded stack of the versions it showed before each change (a refinement or
+// picking another version), so undoing only switches versions and never needs the image itself.
+
+export const MAX_UNDO_STEPS = 25;
+
+export const recordVersionChange = (stack: VersionUndoStack | undefined, previous: VersionChange): VersionUndoStack => ({
+    past: [...(stack?.past ?? []), previous].slice(-MAX_UNDO_STEPS),
+    future: [], // A new change starts a new line of redo steps
+});
+
+// The version to show after one step back or forward and the stack after it, or null if there is
+// no step to take. Steps to versions that no longer exist are dropped.
+export const stepVersionHistory = (
+    item: HistoryItem,
+    stack: VersionUndoStack | undefined,
+    direction: 'undo' | 'redo',
+): { change: VersionChange; stack: VersionUndoStack } | null => {
+    const versionIds = new Set(getImageVersions(item).map(version => version.id));
+    const exists = (change: VersionChange) => versionIds.has(change.versionId);
+    const past = (stack?.past ?? []).filter(exists);
+    const future = (stack?.future ?? []).filter(exists);
+    const [from, to] = direction === 'undo' ? [past, future] : [future, past];
+
+    const change = from[from.length - 1];
+    const current = change && getCurrentVersion(item, change.imageIndex);
+    if (!change || !current) return null;
+    const reverse = [...to, { imageIndex: change.imageIndex, versionId: current.id }].slice(-MAX_UNDO_STEPS);
+    return {
+        change,
+        stack: direction === 'undo' ? { past: from.slice(0, -1), future: reverse } : { past: reverse, future: from.slice(0, -1) },
+    };
+};
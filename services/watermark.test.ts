@@ -0,0 +1,210 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GenerationMetadata, HistoryItem } from '../state/AppContext';
+import {
+    MAX_REGISTRY_ENTRIES, canCarryWatermark, decodeWatermarkFromPixels, embedWatermarkInPixels, findWatermarkedMetadata,
+    formatWatermarkId, lookupWatermark, registerWatermark, unregisterWatermarks,
+} from './watermark';
+import { addImageVersion } from './versionTree';
+
+const REGISTRY_STORAGE_KEY = 'gemini-exif-watermark-registry';
+
+const generated: GenerationMetadata = { schemaVersion: 2, model: 'imagen-4.0-generate-001', prompt: 'a lighthouse', aspectRatio: '1:1' };
+const refined: GenerationMetadata = { ...generated, model: 'gemini-2.5-flash-image', lineage: [{ operation: 'refine', prompt: 'at night', model: 'gemini-2.5-flash-image' }] };
+
+const BLOCK_SIZE = 32;
+const PAYLOAD_BITS = 48;
+
+// A textured RGBA test image: gradients plus deterministic noise, so blocks aren't flat.
+const createImage = (width: number, height: number): Uint8ClampedArray => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    let seed = 12345;
+    const random = () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+    for (let i = 0; i < width * height; i++) {
+        const x = i % width;
+        const y = Math.floor(i / width);
+        data[i * 4] = 60 + (x * 120) / width + random() * 40;
+        data[i * 4 + 1] = 80 + (y * 100) / height + random() * 40;
+        data[i * 4 + 2] = 100 + ((x + y) * 50) / (width + height) + random() * 40;
+        data[i * 4 + 3] = 255;
+    }
+    return data;
+};
+
+// The IJG luminance quantization table, scaled for a JPEG quality from 1 to 100.
+const LUMA_QUANTIZATION = [
+    16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+    18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const quantizationTable = (quality: number) => {
+    const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+    return LUMA_QUANTIZATION.map(value => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+};
+const DCT_BASIS = Array.from({ length: 64 }, (_, index) => {
+    const [u, x] = [Math.floor(index / 8), index % 8];
+    return (u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16) / 2;
+});
+
+// Simulates JPEG recompression of the luminance, where the mark lives: each 8x8 block is transformed
+// with a DCT, quantized and transformed back. Chroma is left alone, as it doesn't change luminance.
+const simulateJpeg = (data: Uint8ClampedArray, width: number, height: number, quality: number): Uint8ClampedArray => {
+    const table = quantizationTable(quality);
+    const result = data.slice();
+    for (let blockY = 0; blockY < height / 8; blockY++) {
+        for (let blockX = 0; blockX < width / 8; blockX++) {
+            const luma = new Float64Array(64);
+            for (let i = 0; i < 64; i++) {
+                const index = ((blockY * 8 + Math.floor(i / 8)) * width + blockX * 8 + (i % 8)) * 4;
+                luma[i] = 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2] - 128;
+            }
+            const coefficients = new Float64Array(64);
+            for (let v = 0; v < 8; v++) {
+                for (let u = 0; u < 8; u++) {
+                    let sum = 0;
+                    for (let i = 0; i < 64; i++) sum += luma[i] * DCT_BASIS[v * 8 + Math.floor(i / 8)] * DCT_BASIS[u * 8 + (i % 8)];
+                    coefficients[v * 8 + u] = Math.round(sum / table[v * 8 + u]) * table[v * 8 + u];
+                }
+            }
+            for (let i = 0; i < 64; i++) {
+                let value = 0;
+                for (let c = 0; c < 64; c++) value += coefficients[c] * DCT_BASIS[Math.floor(c / 8) * 8 + Math.floor(i / 8)] * DCT_BASIS[(c % 8) * 8 + (i % 8)];
+                const index = ((blockY * 8 + Math.floor(i / 8)) * width + blockX * 8 + (i % 8)) * 4;
+                const delta = value - luma[i];
+                result[index] = data[index] + delta;
+                result[index + 1] = data[index + 1] + delta;
+                result[index + 2] = data[index + 2] + delta;
+            }
+        }
+    }
+    return result;
+};
+
+describe('watermark registry', () => {
+    afterEach(() => {
+        localStorage.clear();
+        vi.useRealTimers();
+    });
+
+    it('stores only the history item and time of each watermark', () => {
+        expect(registerWatermark(0xabc, 'hist-1')).toBe(true);
+        expect(lookupWatermark(0xabc)).toEqual({ historyId: 'hist-1', timestamp: expect.any(Number) });
+        expect(JSON.parse(localStorage.getItem(REGISTRY_STORAGE_KEY)!)).toEqual({ [formatWatermarkId(0xabc)]: lookupWatermark(0xabc) });
+        expect(lookupWatermark(0xdef)).toBeNull();
+    });
+
+    it('drops the metadata copies kept by older entries', () => {
+        localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify({ '00000001': { historyId: 'hist-1', metadata: generated, timestamp: 1 } }));
+        expect(lookupWatermark(1)).toEqual({ historyId: 'hist-1', timestamp: 1 });
+
+        registerWatermark(2, 'hist-2');
+        expect(localStorage.getItem(REGISTRY_STORAGE_KEY)).not.toContain('lighthouse');
+    });
+
+    it('removes the entries of deleted history items', () => {
+        registerWatermark(1, 'hist-1');
+        registerWatermark(2, 'hist-1');
+        registerWatermark(3, 'hist-2');
+        unregisterWatermarks(['hist-1']);
+
+        expect(lookupWatermark(1)).toBeNull();
+        expect(lookupWatermark(2)).toBeNull();
+        expect(lookupWatermark(3)).not.toBeNull();
+    });
+
+    it('keeps only the newest entries', () => {
+        const registry = Object.fromEntries(Array.from({ length: MAX_REGISTRY_ENTRIES }, (_, index) => [
+            formatWatermarkId(index), { historyId: `hist-${index}`, timestamp: index },
+        ]));
+        localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+        registerWatermark(MAX_REGISTRY_ENTRIES, 'hist-new');
+
+        expect(Object.keys(JSON.parse(localStorage.getItem(REGISTRY_STORAGE_KEY)!))).toHaveLength(MAX_REGISTRY_ENTRIES);
+        expect(lookupWatermark(0)).toBeNull();
+        expect(lookupWatermark(1)).not.toBeNull();
+        expect(lookupWatermark(MAX_REGISTRY_ENTRIES)).not.toBeNull();
+    });
+
+    it('reports a registry that cannot be saved', () => {
+        const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new Error('QuotaExceededError'); });
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        expect(registerWatermark(1, 'hist-1')).toBe(false);
+        expect(warn).toHaveBeenCalledOnce();
+        setItem.mockRestore();
+        warn.mockRestore();
+    });
+
+    it('looks up the metadata of the version created after the watermark was registered', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1000);
+        registerWatermark(1, 'hist-1');
+        vi.setSystemTime(1001);
+        const item: HistoryItem = { id: 'hist-1', imageKeys: ['hist-1-0'], timestamp: Date.now(), metadata: generated };
+        vi.setSystemTime(2000);
+        registerWatermark(2, 'hist-1');
+        vi.setSystemTime(2001);
+        const refinedItem = addImageVersion(item, 0, { imageKey: 'hist-1-1', metadata: refined });
+
+        expect(findWatermarkedMetadata(lookupWatermark(1)!, [refinedItem])).toEqual(generated);
+        expect(findWatermarkedMetadata(lookupWatermark(2)!, [refinedItem])).toEqual(refined);
+        expect(findWatermarkedMetadata(lookupWatermark(1)!, [])).toBeNull();
+    });
+});
+
+describe('watermark pixels', () => {
+    const width = 320;
+    const height = 320;
+    const id = 0xdeadbeef;
+
+    it('round-trips an ID through the pixels and leaves unmarked images alone', () => {
+        const data = createImage(width, height);
+        expect(decodeWatermarkFromPixels(data, width, height)).toBeNull();
+
+        embedWatermarkInPixels(data, width, height, id);
+        expect(decodeWatermarkFromPixels(data, width, height)).toBe(id);
+    });
+
+    it('changes each channel by only a few levels', () => {
+        const original = createImage(width, height);
+        const marked = original.slice();
+        embedWatermarkInPixels(marked, width, height, id);
+        const maxChange = marked.reduce((max, value, index) => Math.max(max, Math.abs(value - original[index])), 0);
+        expect(maxChange).toBeLessThanOrEqual(9);
+    });
+
+    it('returns null when the check bits do not match the ID', () => {
+        const markedA = createImage(width, height);
+        const markedB = createImage(width, height);
+        embedWatermarkInPixels(markedA, width, height, id);
+        embedWatermarkInPixels(markedB, width, height, 0x12345678);
+
+        // The ID bits of one mark with the check bits of the other, block by block.
+        const mixed = markedA.slice();
+        const blocksX = width / BLOCK_SIZE;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const bitIndex = (Math.floor(y / BLOCK_SIZE) * blocksX + Math.floor(x / BLOCK_SIZE)) % PAYLOAD_BITS;
+                if (bitIndex < 32) continue;
+                const index = (y * width + x) * 4;
+                mixed.set(markedB.subarray(index, index + 4), index);
+            }
+        }
+        expect(decodeWatermarkFromPixels(mixed, width, height)).toBeNull();
+    });
+
+    it('needs an image with a block for every payload bit', () => {
+        expect(canCarryWatermark(256, 192)).toBe(true);
+        expect(canCarryWatermark(200, 200)).toBe(false);
+        expect(canCarryWatermark(2048, 31)).toBe(false);
+
+        const data = createImage(200, 200);
+        embedWatermarkInPixels(data, 200, 200, id);
+        expect(decodeWatermarkFromPixels(data, 200, 200)).toBeNull();
+    });
+
+    it.each([90, 75, 50])('survives JPEG recompression at quality %i', quality => {
+        const data = createImage(width, height);
+        embedWatermarkInPixels(data, width, height, id);
+        expect(decodeWatermarkFromPixels(simulateJpeg(data, width, height, quality), width, height)).toBe(id);
+    });
+});
@@ -0,0 +1,215 @@
+import type { GenerationMetadata, HistoryItem } from '../state/AppContext';
+import { crc32 } from './binaryUtils';
+import { getImageVersions } from './versionTree';
+
+// Invisible pixel-domain watermark carrying a 32-bit ID, for images whose EXIF/XMP was stripped.
+//
+// The image is split into 32x32 blocks and each block carries one bit of a 48-bit payload (the ID plus
+// a 16-bit CRC), repeated across the image. A bit is encoded as the sign of the block luminance's
+// correlation with a single-period 2D cosine; the pattern is low-frequency, so it survives JPEG
+// recompression. Embedding only adds as much pattern as a block needs to reach the target correlation,
+// and decoding takes a majority vote over every block carrying the same bit. Cropping or resizing
+// misaligns the blocks and destroys the mark.
+
+const BLOCK_SIZE = 32;
+const ID_BITS = 32;
+const CHECK_BITS = 16;
+const PAYLOAD_BITS = ID_BITS + CHECK_BITS;
+// Target correlation, in luminance levels, and the most a block's pattern may be amplified.
+const TARGET_STRENGTH = 3;
+const MAX_STRENGTH = 8;
+
+const REGISTRY_STORAGE_KEY = 'gemini-exif-watermark-registry';
+// The oldest entries are dropped beyond this; their items have usually been evicted long before.
+export const MAX_REGISTRY_ENTRIES = 2000;
+
+// The registry only points at the history item; the metadata itself is looked up in the history.
+export interface WatermarkRegistryEntry {
+    historyId: string;
+    timestamp: number;
+}
+
+const PATTERN = (() => {
+    const pattern = new Float32Array(BLOCK_SIZE * BLOCK_SIZE);
+    for (let y = 0; y < BLOCK_SIZE; y++) {
+        for (let x = 0; x < BLOCK_SIZE; x++) {
+            pattern[y * BLOCK_SIZE + x] = Math.cos((2 * Math.PI * (x + 0.5)) / BLOCK_SIZE) * Math.cos((2 * Math.PI * (y + 0.5)) / BLOCK_SIZE);
+        }
+    }
+    return pattern;
+})();
+const PATTERN_ENERGY = PATTERN.reduce((sum, value) => sum + value * value, 0);
+
+const checkBits = (id: number): number => {
+    const bytes = new Uint8Array([id >>> 24, (id >>> 16) & 0xff, (id >>> 8) & 0xff, id & 0xff]);
+    return crc32(bytes) & 0xffff;
+};
+
+const encodePayload = (id: number): number[] => {
+    const check = checkBits(id);
+    const bits: number[] = [];
+    for (let i = ID_BITS - 1; i >= 0; i--) bits.push((id >>> i) & 1);
+    for (let i = CHECK_BITS - 1; i >= 0; i--) bits.push((check >>> i) & 1);
+    return bits;
+};
+
+const luminanceAt = (data: Uint8ClampedArray, index: number) => 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+
+// Correlation of the block's luminance with the pattern, in luminance levels of pattern amplitude.
+const blockCorrelation = (data: Uint8ClampedArray, width: number, blockX: number, blockY: number): number => {
+    let sum = 0;
+    for (let y = 0; y < BLOCK_SIZE; y++) {
+        const row = (blockY * BLOCK_SIZE + y) * width + blockX * BLOCK_SIZE;
+        for (let x = 0; x < BLOCK_SIZE; x++) {
+            sum += luminanceAt(data, (row + x) * 4) * PATTERN[y * BLOCK_SIZE + x];
+        }
+    }
+    return sum / PATTERN_ENERGY;
+};
+
+const forEachBlock = (width: number, height: number, callback: (blockX: number, blockY: number, bitIndex: number) => void) => {
+    const blocksX = Math.floor(width / BLOCK_SIZE);
+    const blocksY = Math.floor(height / BLOCK_SIZE);
+    for (let blockY = 0; blockY < blocksY; blockY++) {
+        for (let blockX = 0; blockX < blocksX; blockX++) {
+            callback(blockX, blockY, (blockY * blocksX + blockX) % PAYLOAD_BITS);
+        }
+    }
+};
+
+export const canCarryWatermark = (width: number, height: number): boolean => {
+    return Math.floor(width / BLOCK_SIZE) * Math.floor(height / BLOCK_SIZE) >= PAYLOAD_BITS;
+};
+
+// Modifies RGBA pixel data in place.
+export const embedWatermarkInPixels = (data: Uint8ClampedArray, width: number, height: number, id: number): void => {
+    const bits = encodePayload(id >>> 0);
+    forEachBlock(width, height, (blockX, blockY, bitIndex) => {
+        const sign = bits[bitIndex] ? 1 : -1;
+        const needed = TARGET_STRENGTH - sign * blockCorrelation(data, width, blockX, blockY);
+        if (needed <= 0) return;
+        const amplitude = sign * Math.min(needed, MAX_STRENGTH);
+
+        for (let y = 0; y < BLOCK_SIZE; y++) {
+            const row = (blockY * BLOCK_SIZE + y) * width + blockX * BLOCK_SIZE;
+            for (let x = 0; x < BLOCK_SIZE; x++) {
+                const delta = amplitude * PATTERN[y * BLOCK_SIZE + x];
+                const index = (row + x) * 4;
+                data[index] += delta;
+                data[index + 1] += delta;
+                data[index + 2] += delta;
+            }
+        }
+    });
+};
+
+// Returns the embedded ID, or null when the payload is missing or fails its check bits.
+export const decodeWatermarkFromPixels = (data: Uint8ClampedArray, width: number, height: number): number | null => {
+    if (!canCarryWatermark(width, height)) return null;
+    const votes = new Array<number>(PAYLOAD_BITS).fill(0);
+    forEachBlock(width, height, (blockX, blockY, bitIndex) => {
+        votes[bitIndex] += blockCorrelation(data, width, blockX, blockY) > 0 ? 1 : -1;
+    });
+
+    let id = 0;
+    let check = 0;
+    votes.forEach((vote, index) => {
+        const bit = vote > 0 ? 1 : 0;
+        if (index < ID_BITS) id = ((id << 1) | bit) >>> 0;
+        else check = (check << 1) | bit;
+    });
+    return check === checkBits(id) ? id : null;
+};
+
+const loadImageData = (imageDataUrl: string): Promise<{ canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D; imageData: ImageData }> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Could not get canvas context'));
+            ctx.drawImage(img, 0, 0);
+            resolve({ canvas, ctx, imageData: ctx.getImageData(0, 0, canvas.width, canvas.height) });
+        };
+        img.onerror = () => reject(new Error('Failed to load image for watermarking.'));
+        img.src = imageDataUrl;
+    });
+};
+
+// Returns a PNG data URL of the watermarked pixels, or the input unchanged if the image is too small.
+export const embedWatermark = async (imageDataUrl: string, id: number): Promise<string> => {
+    const { canvas, ctx, imageData } = await loadImageData(imageDataUrl);
+    if (!canCarryWatermark(canvas.width, canvas.height)) {
+        console.warn("Image is too small to carry a watermark.");
+        return imageDataUrl;
+    }
+    embedWatermarkInPixels(imageData.data, canvas.width, canvas.height, id);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+export const decodeWatermark = async (imageDataUrl: string): Promise<number | null> => {
+    const { canvas, imageData } = await loadImageData(imageDataUrl);
+    return decodeWatermarkFromPixels(imageData.data, canvas.width, canvas.height);
+};
+
+export const createWatermarkId = (): number => crypto.getRandomValues(new Uint32Array(1))[0];
+
+export const formatWatermarkId = (id: number): string => id.toString(16).padStart(8, '0');
+
+const loadRegistry = (): Record<string, WatermarkRegistryEntry> => {
+    try {
+        const stored = localStorage.getItem(REGISTRY_STORAGE_KEY);
+        const registry: Record<string, WatermarkRegistryEntry> = stored ? JSON.parse(stored) : {};
+        // Older entries also carried a copy of the metadata; keep only the reference.
+        return Object.fromEntries(Object.entries(registry).map(([id, { historyId, timestamp }]) => [id, { historyId, timestamp }]));
+    } catch (e) {
+        console.warn("Could not read the watermark registry.", e);
+        return {};
+    }
+};
+
+const saveRegistry = (registry: Record<string, WatermarkRegistryEntry>): boolean => {
+    const newest = Object.entries(registry)
+        .sort(([, a], [, b]) => b.timestamp - a.timestamp)
+        .slice(0, MAX_REGISTRY_ENTRIES);
+    try {
+        localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(Object.fromEntries(newest)));
+        return true;
+    } catch (e) {
+        console.warn("Could not save the watermark registry.", e);
+        return false;
+    }
+};
+
+// Returns false when the entry could not be saved, in which case the watermark could never be resolved.
+export const registerWatermark = (id: number, historyId: string): boolean => {
+    const registry = loadRegistry();
+    registry[formatWatermarkId(id)] = { historyId, timestamp: Date.now() };
+    return saveRegistry(registry);
+};
+
+// Drops the entries of history items that were deleted for good.
+export const unregisterWatermarks = (historyIds: string[]): void => {
+    const ids = new Set(historyIds);
+    const registry = loadRegistry();
+    const kept = Object.fromEntries(Object.entries(registry).filter(([, entry]) => !ids.has(entry.historyId)));
+    if (Object.keys(kept).length < Object.keys(registry).length) saveRegistry(kept);
+};
+
+export const lookupWatermark = (id: number): WatermarkRegistryEntry | null => {
+    return loadRegistry()[formatWatermarkId(id)] ?? null;
+};
+
+// An ID is registered just before its image is embedded and saved, so the watermarked image is the
+// first version of the item created at or after the registration.
+export const findWatermarkedMetadata = (entry: WatermarkRegistryEntry, items: HistoryItem[]): GenerationMetadata | null => {
+    const item = items.find(candidate => candidate.id === entry.historyId);
+    if (!item) return null;
+    const [version] = getImageVersions(item)
+        .filter(candidate => candidate.timestamp >= entry.timestamp)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    return version?.metadata ?? item.metadata;
+};
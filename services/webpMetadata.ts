@@ -0,0 +1,146 @@
+import { concatBytes, latin1Decode, latin1Encode, utf8Decode, utf8Encode } from './binaryUtils';
+
+// Reads and writes the EXIF and XMP chunks of RIFF/WebP files. Metadata requires the extended (VP8X) layout.
+
+const VP8X_FLAG_ALPHA = 0x10;
+const VP8X_FLAG_EXIF = 0x08;
+const VP8X_FLAG_XMP = 0x04;
+
+const EXIF_HEADER = 'Exif\0\0';
+
+export interface RiffChunk {
+    fourcc: string;
+    data: Uint8Array;
+}
+
+export interface WebpMetadata {
+    exif: Uint8Array | null; // Raw TIFF bytes, without the "Exif\0\0" prefix
+    xmp: string | null;
+}
+
+const readUint24LE = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const readUint32LE = (bytes: Uint8Array, offset: number) => (readUint24LE(bytes, offset) | (bytes[offset + 3] << 24)) >>> 0;
+
+const writeUint24LE = (bytes: Uint8Array, offset: number, value: number) => {
+    bytes[offset] = value & 0xff;
+    bytes[offset + 1] = (value >>> 8) & 0xff;
+    bytes[offset + 2] = (value >>> 16) & 0xff;
+};
+
+const writeUint32LE = (bytes: Uint8Array, offset: number, value: number) => {
+    writeUint24LE(bytes, offset, value);
+    bytes[offset + 3] = (value >>> 24) & 0xff;
+};
+
+export const isWebp = (bytes: Uint8Array): boolean => {
+    return bytes.length >= 12
+        && latin1Decode(bytes.subarray(0, 4)) === 'RIFF'
+        && latin1Decode(bytes.subarray(8, 12)) === 'WEBP';
+};
+
+export const readWebpChunks = (bytes: Uint8Array): RiffChunk[] => {
+    if (!isWebp(bytes)) {
+        throw new Error("Data is not a WebP image.");
+    }
+
+    const chunks: RiffChunk[] = [];
+    const riffEnd = Math.min(bytes.length, 8 + readUint32LE(bytes, 4));
+    let offset = 12;
+    while (offset + 8 <= riffEnd) {
+        const fourcc = latin1Decode(bytes.subarray(offset, offset + 4));
+        const size = readUint32LE(bytes, offset + 4);
+        const dataStart = offset + 8;
+        if (dataStart + size > riffEnd) {
+            throw new Error(`WebP chunk "${fourcc}" is truncated.`);
+        }
+        chunks.push({ fourcc, data: bytes.subarray(dataStart, dataStart + size) });
+        offset = dataStart + size + (size % 2); // Chunks are padded to an even size
+    }
+    return chunks;
+};
+
+export const encodeWebpChunks = (chunks: RiffChunk[]): Uint8Array => {
+    const encodedChunks = chunks.map(({ fourcc, data }) => {
+        const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+        chunk.set(latin1Encode(fourcc), 0);
+        writeUint32LE(chunk, 4, data.length);
+        chunk.set(data, 8);
+        return chunk;
+    });
+    const body = concatBytes(latin1Encode('WEBP'), ...encodedChunks);
+    const header = new Uint8Array(8);
+    header.set(latin1Encode('RIFF'), 0);
+    writeUint32LE(header, 4, body.length);
+    return concatBytes(header, body);
+};
+
+// Derives the canvas size and alpha flag from a simple-format bitstream so it can be wrapped in VP8X.
+const getBitstreamInfo = (chunk: RiffChunk): { width: number; height: number; hasAlpha: boolean } => {
+    const { fourcc, data } = chunk;
+    if (fourcc === 'VP8 ' && data.length >= 10) {
+        return {
+            width: (data[6] | (data[7] << 8)) & 0x3fff,
+            height: (data[8] | (data[9] << 8)) & 0x3fff,
+            hasAlpha: false,
+        };
+    }
+    if (fourcc === 'VP8L' && data.length >= 5 && data[0] === 0x2f) {
+        const bits = readUint32LE(data, 1);
+        return {
+            width: (bits & 0x3fff) + 1,
+            height: ((bits >>> 14) & 0x3fff) + 1,
+            hasAlpha: ((bits >>> 28) & 1) === 1,
+        };
+    }
+    throw new Error(`Unsupported WebP bitstream chunk "${fourcc}".`);
+};
+
+const createVp8xChunk = (imageChunk: RiffChunk): RiffChunk => {
+    const { width, height, hasAlpha } = getBitstreamInfo(imageChunk);
+    const data = new Uint8Array(10);
+    data[0] = hasAlpha ? VP8X_FLAG_ALPHA : 0;
+    writeUint24LE(data, 4, width - 1);
+    writeUint24LE(data, 7, height - 1);
+    return { fourcc: 'VP8X', data };
+};
+
+const stripExifHeader = (data: Uint8Array): Uint8Array => {
+    return latin1Decode(data.subarray(0, EXIF_HEADER.length)) === EXIF_HEADER ? data.subarray(EXIF_HEADER.length) : data;
+};
+
+export const readWebpMetadata = (bytes: Uint8Array): WebpMetadata => {
+    const chunks = readWebpChunks(bytes);
+    const exifChunk = chunks.find(chunk => chunk.fourcc === 'EXIF');
+    const xmpChunk = chunks.find(chunk => chunk.fourcc === 'XMP ');
+    return {
+        exif: exifChunk ? stripExifHeader(exifChunk.data) : null,
+        xmp: xmpChunk ? utf8Decode(xmpChunk.data) : null,
+    };
+};
+
+// Replaces the EXIF/XMP chunks, converting simple WebP files to the extended format when needed.
+export const writeWebpMetadata = (bytes: Uint8Array, metadata: WebpMetadata): Uint8Array => {
+    let chunks = readWebpChunks(bytes).filter(chunk => chunk.fourcc !== 'EXIF' && chunk.fourcc !== 'XMP ');
+    if (chunks.length === 0) {
+        throw new Error("WebP image has no chunks.");
+    }
+
+    if (chunks[0].fourcc !== 'VP8X') {
+        chunks = [createVp8xChunk(chunks[0]), ...chunks];
+    }
+
+    const vp8x = { fourcc: 'VP8X', data: new Uint8Array(chunks[0].data) };
+    vp8x.data[0] &= ~(VP8X_FLAG_EXIF | VP8X_FLAG_XMP);
+    chunks[0] = vp8x;
+
+    if (metadata.exif) {
+        vp8x.data[0] |= VP8X_FLAG_EXIF;
+        chunks.push({ fourcc: 'EXIF', data: stripExifHeader(metadata.exif) });
+    }
+    if (metadata.xmp) {
+        vp8x.data[0] |= VP8X_FLAG_XMP;
+        chunks.push({ fourcc: 'XMP ', data: utf8Encode(metadata.xmp) });
+    }
+    return encodeWebpChunks(chunks);
+};
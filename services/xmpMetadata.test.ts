@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { GenerationMetadata } from '../state/AppContext';
+import { buildSplitXmpPackets, buildXmpPacket, normalizeXmpMetadata, parseXmpPacket } from './xmpMetadata';
+import { embedMetadataInImage, extractMetadataFromImage } from './metadataService';
+
+// A 1x1 PNG, so metadata can be embedded without re-encoding through a canvas.
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+// What sdMetadata makes of an Automatic1111 `parameters` chunk.
+const importedMetadata: GenerationMetadata = {
+    schemaVersion: 2,
+    model: 'imagen-4.0-generate-001',
+    prompt: 'a castle on a hill, <lora:detail:0.8> & "golden hour"',
+    promptMode: 'text',
+    negativePrompt: 'blurry, lowres',
+    aspectRatio: '16:9',
+    source: { generator: 'automatic1111', modelName: 'sd_xl_base_1.0', width: 1344, height: 768 },
+};
+
+describe('xmpMetadata', () => {
+    it('round-trips the negative prompt and the source generator', () => {
+        expect(parseXmpPacket(buildXmpPacket(importedMetadata))).toMatchObject({
+            negativePrompt: 'blurry, lowres',
+            source: { generator: 'automatic1111', modelName: 'sd_xl_base_1.0', width: 1344, height: 768 },
+        });
+    });
+
+    it('leaves out a source without optional fields rather than writing empty ones', () => {
+        const parsed = parseXmpPacket(buildXmpPacket({ ...importedMetadata, source: { generator: 'comfyui' } }));
+        expect(parsed?.source).toEqual({ generator: 'comfyui' });
+    });
+
+    it('keeps the negative prompt when the packet is split into Extended XMP', () => {
+        const longMetadata = { ...importedMetadata, negativePrompt: 'bad anatomy, '.repeat(6000) };
+        const { standard, extended } = buildSplitXmpPackets(longMetadata);
+        expect(standard).not.toContain('bad anatomy');
+
+        const parsed = parseXmpPacket(standard, extended);
+        expect(parsed?.negativePrompt).toBe(longMetadata.negativePrompt);
+        expect(parsed?.source).toEqual(importedMetadata.source);
+    });
+
+    it('normalizes metadata to exactly what a packet reads back as', () => {
+        const metadata = {
+            ...importedMetadata,
+            originalPrompt: '',
+            filenameSlug: '',
+            unknownField: 'not in the packet',
+            lineage: [
+                { operation: 'generate' as const, prompt: 'a castle', model: 'imagen-4.0-generate-001' as const, timestamp: 1760000000000 },
+                { operation: 'refine' as const, prompt: '', model: 'gemini-2.5-flash-image' as const, creativeStrength: 'LOW' as const, style: '' },
+            ],
+            tags: ['castle', '', 'dusk'],
+            source: { generator: 'comfyui' as const, modelName: '', width: 512 },
+        };
+        const normalized = normalizeXmpMetadata(metadata);
+
+        expect(normalized).toEqual(parseXmpPacket(buildXmpPacket(metadata)));
+        expect(normalized).not.toHaveProperty('originalPrompt');
+        expect(normalized).not.toHaveProperty('unknownField');
+        expect(normalizeXmpMetadata(normalized)).toEqual(normalized);
+    });
+
+    it('preserves imported metadata when it is embedded again and extracted', async () => {
+        const dataUrl = await embedMetadataInImage(PNG_BASE64, 'image/png', importedMetadata);
+        const result = extractMetadataFromImage(dataUrl);
+
+        expect(result?.errors).toEqual([]);
+        expect(result?.metadata).toEqual(importedMetadata);
+    });
+});
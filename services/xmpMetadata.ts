@@ -0,0 +1,260 @@
+import type { GenerationMetadata, LineageStep, MetadataSource } from '../state/AppContext';
+import { md5Hex, utf8Encode } from './binaryUtils';
+
+// Serializes GenerationMetadata as an XMP packet with one property per field, so DAMs can display them.
+
+export const XMP_NAMESPACE = 'http://ns.gemini-exif.app/generation/1.0/';
+export const XMP_PREFIX = 'gen';
+
+const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XMP_NOTE_NAMESPACE = 'http://ns.adobe.com/xmp/note/';
+
+// The fields written as simple text properties, in packet order.
+const XMP_FIELDS = ['schemaVersion', 'model', 'prompt', 'negativePrompt', 'originalPrompt', 'aspectRatio', 'resolution', 'promptMode', 'filenameSlug'] as const;
+const LINEAGE_FIELDS = ['operation', 'prompt', 'model', 'timestamp', 'creativeStrength', 'style'] as const;
+const SOURCE_FIELDS = ['generator', 'modelName', 'width', 'height'] as const;
+// Properties that can grow without bound; these move to the extended packet when a packet is split.
+const EXTENDED_FIELDS = ['prompt', 'negativePrompt', 'originalPrompt', 'lineage', 'signature'];
+
+const escapeXml = (value: string): string => {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\r/g, '&#13;');
+};
+
+const buildProperty = (name: string, value: string, indent = '   ') => `${indent}<${XMP_PREFIX}:${name}>${escapeXml(value)}</${XMP_PREFIX}:${name}>`;
+
+// Lineage is an ordered rdf:Seq of structured steps, one resource per operation.
+const buildLineageProperty = (lineage: LineageStep[]): string => {
+    const items = lineage.map(step => {
+        const stepProperties = LINEAGE_FIELDS
+            .filter(field => step[field] !== undefined)
+            .map(field => buildProperty(field, String(step[field]), '      '));
+        return ['     <rdf:li rdf:parseType="Resource">', ...stepProperties, '     </rdf:li>'].join('\n');
+    });
+    return [`   <${XMP_PREFIX}:lineage>`, '    <rdf:Seq>', ...items, '    </rdf:Seq>', `   </${XMP_PREFIX}:lineage>`].join('\n');
+};
+
+// The generator an imported prompt came from, as a single structured resource.
+const buildSourceProperty = (source: MetadataSource): string => {
+    const sourceProperties = SOURCE_FIELDS
+        .filter(field => source[field] !== undefined && source[field] !== '')
+        .map(field => buildProperty(field, String(source[field]), '    '));
+    return [`   <${XMP_PREFIX}:source rdf:parseType="Resource">`, ...sourceProperties, `   </${XMP_PREFIX}:source>`].join('\n');
+};
+
+// Tags are an unordered rdf:Bag, like dc:subject keywords.
+const buildTagsProperty = (tags: string[]): string => {
+    const items = tags.map(tag => `     <rdf:li>${escapeXml(tag)}</rdf:li>`);
+    return [`   <${XMP_PREFIX}:tags>`, '    <rdf:Bag>', ...items, '    </rdf:Bag>', `   </${XMP_PREFIX}:tags>`].join('\n');
+};
+
+// Only direct children count, so a lineage step's prompt is never mistaken for the top-level one.
+const findProperty = (parent: Element, name: string): Element | undefined => {
+    return Array.from(parent.children).find(child => child.namespaceURI === XMP_NAMESPACE && child.localName === name);
+};
+
+const parseLineage = (property: Element): LineageStep[] => {
+    const items = Array.from(property.getElementsByTagNameNS(RDF_NAMESPACE, 'li'));
+    return items.map(item => {
+        const values: Partial<Record<typeof LINEAGE_FIELDS[number], string>> = {};
+        for (const field of LINEAGE_FIELDS) {
+            const value = findProperty(item, field)?.textContent ?? item.getAttributeNS(XMP_NAMESPACE, field);
+            if (value !== null) {
+                values[field] = value;
+            }
+        }
+        const step: LineageStep = {
+            operation: values.operation as LineageStep['operation'],
+            prompt: values.prompt ?? '',
+            model: values.model as LineageStep['model'],
+        };
+        if (values.timestamp !== undefined) step.timestamp = Number(values.timestamp);
+        if (values.creativeStrength !== undefined) step.creativeStrength = values.creativeStrength as LineageStep['creativeStrength'];
+        if (values.style !== undefined) step.style = values.style;
+        return step;
+    });
+};
+
+const parseSource = (property: Element): MetadataSource => {
+    const values: Partial<Record<typeof SOURCE_FIELDS[number], string>> = {};
+    for (const field of SOURCE_FIELDS) {
+        const value = findProperty(property, field)?.textContent ?? property.getAttributeNS(XMP_NAMESPACE, field);
+        if (value !== null && value !== '') {
+            values[field] = value;
+        }
+    }
+    const source: MetadataSource = { generator: values.generator as MetadataSource['generator'] };
+    if (values.modelName !== undefined) source.modelName = values.modelName;
+    if (values.width !== undefined) source.width = Number(values.width);
+    if (values.height !== undefined) source.height = Number(values.height);
+    return source;
+};
+
+const buildDescription = (metadata: GenerationMetadata, includeField: (field: string) => boolean, attributes = ''): string => {
+    const propertyLines = XMP_FIELDS
+        .filter(field => includeField(field) && metadata[field] !== undefined && metadata[field] !== '')
+        .map(field => buildProperty(field, String(metadata[field])));
+    if (metadata.lineage && includeField('lineage')) {
+        propertyLines.push(buildLineageProperty(metadata.lineage));
+    }
+    if (metadata.source && includeField('source')) {
+        propertyLines.push(buildSourceProperty(metadata.source));
+    }
+    if (metadata.tags && metadata.tags.length > 0 && includeField('tags')) {
+        propertyLines.push(buildTagsProperty(metadata.tags));
+    }
+    if (metadata.signature && includeField('signature')) {
+        // The signature is opaque to DAMs, so it is kept as a single JSON-valued property.
+        propertyLines.push(buildProperty('signature', JSON.stringify(metadata.signature)));
+    }
+
+    return [
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+        ` <rdf:RDF xmlns:rdf="${RDF_NAMESPACE}">`,
+        `  <rdf:Description rdf:about="" xmlns:${XMP_PREFIX}="${XMP_NAMESPACE}"${attributes}>`,
+        ...propertyLines,
+        '  </rdf:Description>',
+        ' </rdf:RDF>',
+        '</x:xmpmeta>',
+    ].join('\n');
+};
+
+const wrapPacket = (xmpmeta: string) => ['<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>', xmpmeta, '<?xpacket end="w"?>'].join('\n');
+
+export const buildXmpPacket = (metadata: GenerationMetadata): string => wrapPacket(buildDescription(metadata, () => true));
+
+export interface SplitXmpPackets {
+    standard: string;
+    extended: string;
+    guid: string; // Uppercase MD5 of the extended packet, referenced from the standard one
+}
+
+// Splits the metadata the way Adobe's Extended XMP expects: the standard packet keeps the small fields
+// plus a pointer to the extended packet, which holds the large ones and has no xpacket wrapper.
+export const buildSplitXmpPackets = (metadata: GenerationMetadata): SplitXmpPackets => {
+    const extended = buildDescription(metadata, field => EXTENDED_FIELDS.includes(field));
+    const guid = md5Hex(utf8Encode(extended)).toUpperCase();
+    const standard = wrapPacket(buildDescription(
+        metadata,
+        field => !EXTENDED_FIELDS.includes(field),
+        ` xmlns:xmpNote="${XMP_NOTE_NAMESPACE}" xmpNote:HasExtendedXMP="${guid}"`,
+    ));
+    return { standard, extended, guid };
+};
+
+// Returns the GUID of the extended packet a standard packet points to, if any.
+export const getExtendedXmpGuid = (xml: string): string | null => {
+    return xml.match(/HasExtendedXMP(?:\s*=\s*["']|>)([0-9A-Fa-f]{32})/)?.[1].toUpperCase() ?? null;
+};
+
+const parseXmlDocument = (xml: string): Document | null => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        console.warn("Could not parse XMP packet.");
+        return null;
+    }
+    return doc;
+};
+
+// Reads our namespace from any rdf:Description, accepting both element and attribute forms.
+// Values are returned as found; schema validation and migration happen in metadataSchema.
+// The extended packet of a split (JPEG Extended XMP) is read as if it were part of the standard one.
+export const parseXmpPacket = (xml: string, extendedXml: string | null = null): Partial<GenerationMetadata> | null => {
+    const doc = parseXmlDocument(xml);
+    if (!doc) {
+        return null;
+    }
+    const extendedDoc = extendedXml ? parseXmlDocument(extendedXml) : null;
+
+    const fields: Partial<Record<typeof XMP_FIELDS[number] | 'signature', string>> = {};
+    let lineage: LineageStep[] | undefined;
+    let tags: string[] | undefined;
+    let source: MetadataSource | undefined;
+    const descriptions = [doc, extendedDoc]
+        .flatMap(document => (document ? Array.from(document.getElementsByTagNameNS(RDF_NAMESPACE, 'Description')) : []));
+    for (const description of descriptions) {
+        for (const field of [...XMP_FIELDS, 'signature' as const]) {
+            const attribute = description.getAttributeNS(XMP_NAMESPACE, field);
+            const element = findProperty(description, field);
+            const value = element ? element.textContent : attribute;
+            if (value !== null && value !== '' && fields[field] === undefined) {
+                fields[field] = value;
+            }
+        }
+        const lineageProperty = findProperty(description, 'lineage');
+        if (lineageProperty && !lineage) {
+            lineage = parseLineage(lineageProperty);
+        }
+        const sourceProperty = findProperty(description, 'source');
+        if (sourceProperty && !source) {
+            source = parseSource(sourceProperty);
+        }
+        const tagsProperty = findProperty(description, 'tags');
+        if (tagsProperty && !tags) {
+            tags = Array.from(tagsProperty.getElementsByTagNameNS(RDF_NAMESPACE, 'li')).map(item => item.textContent ?? '').filter(Boolean);
+        }
+    }
+
+    if (!fields.model || !fields.prompt) {
+        return null;
+    }
+
+    const schemaVersion = fields.schemaVersion !== undefined ? Number(fields.schemaVersion) : undefined;
+    let signature: GenerationMetadata['signature'];
+    try {
+        signature = fields.signature ? JSON.parse(fields.signature) : undefined;
+    } catch {
+        console.warn("Ignoring malformed signature in XMP packet.");
+    }
+    return {
+        ...(schemaVersion !== undefined && !Number.isNaN(schemaVersion) ? { schemaVersion } : {}),
+        model: fields.model as GenerationMetadata['model'],
+        prompt: fields.prompt,
+        negativePrompt: fields.negativePrompt,
+        originalPrompt: fields.originalPrompt,
+        aspectRatio: fields.aspectRatio as GenerationMetadata['aspectRatio'],
+        resolution: fields.resolution as GenerationMetadata['resolution'],
+        promptMode: fields.promptMode as GenerationMetadata['promptMode'],
+        filenameSlug: fields.filenameSlug,
+        ...(lineage ? { lineage } : {}),
+        ...(source ? { source } : {}),
+        ...(tags && tags.length > 0 ? { tags } : {}),
+        ...(signature ? { signature } : {}),
+    };
+};
+
+// The metadata exactly as parseXmpPacket reads it back from buildXmpPacket: empty values, empty tags
+// and fields the packet has no property for are left out, and values get the types the parser gives
+// them. Signatures are computed over this form, so a signed image verifies after a round trip.
+export const normalizeXmpMetadata = (metadata: GenerationMetadata): GenerationMetadata => {
+    const fields = Object.fromEntries(XMP_FIELDS
+        .filter(field => metadata[field] !== undefined && metadata[field] !== '')
+        .map(field => [field, field === 'schemaVersion' ? Number(metadata[field]) : String(metadata[field])]));
+    const lineage = metadata.lineage?.map(step => {
+        const normalizedStep: LineageStep = { operation: step.operation, prompt: step.prompt ?? '', model: step.model };
+        if (step.timestamp !== undefined) normalizedStep.timestamp = Number(step.timestamp);
+        if (step.creativeStrength !== undefined) normalizedStep.creativeStrength = step.creativeStrength;
+        if (step.style !== undefined) normalizedStep.style = String(step.style);
+        return normalizedStep;
+    });
+    let source: MetadataSource | undefined;
+    if (metadata.source) {
+        const { generator, modelName, width, height } = metadata.source;
+        source = { generator };
+        if (modelName !== undefined && modelName !== '') source.modelName = String(modelName);
+        if (width !== undefined) source.width = Number(width);
+        if (height !== undefined) source.height = Number(height);
+    }
+    const tags = metadata.tags?.filter(Boolean);
+    return {
+        ...fields,
+        ...(lineage ? { lineage } : {}),
+        ...(source ? { source } : {}),
+        ...(tags && tags.length > 0 ? { tags } : {}),
+        ...(metadata.signature ? { signature: metadata.signature } : {}),
+    } as GenerationMetadata;
+};
@@ -0,0 +1,157 @@
+import { crc32, utf8Decode, utf8Encode } from './binaryUtils';
+
+// Minimal ZIP support for history archives. Writing always uses the "stored" method, since the
+// images are already compressed; reading also accepts deflate so archives re-zipped by other tools
+// still open. ZIP64, encryption and multi-disk archives are not supported.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const VERSION_NEEDED = 20;
+const FLAG_UTF8_NAMES = 0x0800;
+const FLAG_ENCRYPTED = 0x0001;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+    const { time, date } = toDosDateTime(modified);
+    const parts: Uint8Array[] = [];
+    const centralHeaders: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = utf8Encode(entry.name);
+        const checksum = crc32(entry.data);
+
+        const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        localView.setUint16(4, VERSION_NEEDED, true);
+        localView.setUint16(6, FLAG_UTF8_NAMES, true);
+        localView.setUint16(8, METHOD_STORED, true);
+        localView.setUint16(10, time, true);
+        localView.setUint16(12, date, true);
+        localView.setUint32(14, checksum, true);
+        localView.setUint32(18, entry.data.length, true);
+        localView.setUint32(22, entry.data.length, true);
+        localView.setUint16(26, name.length, true);
+        local.set(name, LOCAL_HEADER_SIZE);
+
+        const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        centralView.setUint16(4, VERSION_NEEDED, true);
+        centralView.setUint16(6, VERSION_NEEDED, true);
+        centralView.setUint16(8, FLAG_UTF8_NAMES, true);
+        centralView.setUint16(10, METHOD_STORED, true);
+        centralView.setUint16(12, time, true);
+        centralView.setUint16(14, date, true);
+        centralView.setUint32(16, checksum, true);
+        centralView.setUint32(20, entry.data.length, true);
+        centralView.setUint32(24, entry.data.length, true);
+        centralView.setUint16(28, name.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(name, CENTRAL_HEADER_SIZE);
+
+        parts.push(local, entry.data);
+        centralHeaders.push(central);
+        offset += local.length + entry.data.length;
+    }
+
+    const centralSize = centralHeaders.reduce((total, header) => total + header.length, 0);
+    const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralHeaders, end], { type: 'application/zip' });
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+    // The record is followed by a comment of up to 64KB.
+    const earliest = Math.max(0, view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff);
+    for (let offset = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= earliest; offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return offset;
+    }
+    throw new Error("Not a ZIP archive.");
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error("This browser can't read compressed ZIP entries.");
+    }
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Returns the file entries in archive order; directories are skipped.
+export const readZip = async (bytes: Uint8Array): Promise<ZipEntry[]> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const endOffset = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let offset = view.getUint32(endOffset + 16, true);
+    if (offset === 0xffffffff || entryCount === 0xffff) {
+        throw new Error("ZIP64 archives are not supported.");
+    }
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + CENTRAL_HEADER_SIZE > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error("The ZIP archive's directory is corrupt.");
+        }
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const checksum = view.getUint32(offset + 16, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = utf8Decode(bytes.subarray(offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength));
+        offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        if (flags & FLAG_ENCRYPTED) {
+            throw new Error(`"${name}" is encrypted, which is not supported.`);
+        }
+        if (localOffset + LOCAL_HEADER_SIZE > bytes.length || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+            throw new Error(`The ZIP entry "${name}" is corrupt.`);
+        }
+        // The local header's name and extra field can differ in length from the central directory's.
+        const dataStart = localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (compressed.length !== compressedSize) {
+            throw new Error(`The ZIP entry "${name}" is truncated.`);
+        }
+
+        let data: Uint8Array;
+        if (method === METHOD_STORED) {
+            data = compressed;
+        } else if (method === METHOD_DEFLATE) {
+            data = await inflateRaw(compressed);
+        } else {
+            throw new Error(`The ZIP entry "${name}" uses an unsupported compression method (${method}).`);
+        }
+        if (crc32(data) !== checksum) {
+            throw new Error(`The ZIP entry "${name}" failed its checksum.`);
+        }
+        entries.push({ name, data });
+    }
+    return entries;
+};
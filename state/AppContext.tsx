@@ -1,26 +1,114 @@
-import React, { createContext, useReducer, Dispatch, useContext, ReactNode, useEffect } from 'react';
-import type { CreativeStrength, ImageModel, AspectRatio, View } from '../types';
+import React, { createContext, useReducer, Dispatch, useContext, ReactNode, useEffect, useState, useRef } from 'react';
+import type { CreativeStrength, EvictionPolicy, ExifPreservation, ImageModel, AspectRatio, OutputFormat, VideoAspectRatio, VideoModel, VideoResolution, View } from '../types';
+import { migrateMetadata } from '../services/metadataSchema';
+import { deleteUnreferencedHistoryImages, legacyImageKey, migrateLegacyHistoryImages } from '../services/historyStore';
+import { normalizeTags } from '../services/historyTags';
+import { DEFAULT_DUPLICATE_THRESHOLD, mergeHistoryItems } from '../services/duplicateDetection';
+import { isAnotherTabOpen, mergeHistories, mergeTrash, openTabChannel } from '../services/tabSync';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../services/historyTrash';
+import { applyImageVersion, getCurrentVersion, getHistoryItemStorageKeys, getImageVersions, recordVersionChange, selectImageVersion, stepVersionHistory } from '../services/versionTree';
+import type { SignatureVerification } from '../services/signatureService';
 
 // --- STATE SHAPE ---
 
 export type PromptMode = 'text' | 'json';
 export type MobileView = 'form' | 'results';
 
-export interface GenerationMetadata {
+export interface MetadataSignature {
+  algorithm: string;
+  publicKey: JsonWebKey;
+  pixelHash: string; // SHA-256 of the decoded RGBA pixels, hex encoded
+  value: string; // base64 encoded signature
+}
+
+// Where metadata imported from another generator's file came from.
+export interface MetadataSource {
+  generator: 'automatic1111' | 'comfyui';
+  modelName?: string; // Checkpoint used by the original generator
+  width?: number;
+  height?: number;
+}
+
+export type LineageOperation = 'generate' | 'refine' | 'masked-refine';
+
+export interface LineageStep {
+  operation: LineageOperation;
+  prompt: string;
   model: ImageModel;
+  timestamp?: number; // Missing on steps recovered from pre-lineage metadata
+  creativeStrength?: CreativeStrength;
+  style?: string;
+}
+
+export interface GenerationMetadata {
+  schemaVersion: number;
+  model: ImageModel | VideoModel;
   prompt: string;
+  negativePrompt?: string;
   originalPrompt?: string;
   aspectRatio?: AspectRatio;
+  resolution?: VideoResolution; // Videos only
   promptMode?: PromptMode;
   filenameSlug?: string;
+  lineage?: LineageStep[]; // Oldest step first; `prompt` above is always the initial generation prompt
+  source?: MetadataSource; // Only set on metadata imported from other generators
+  tags?: string[]; // History tags, only present when the user chose to embed them
+  signature?: MetadataSignature;
+}
+
+// One version of one of a history item's images (see services/versionTree).
+export interface ImageVersion {
+  id: string;
+  parentId: string | null; // The version it was refined from; null for the generated image
+  imageIndex: number; // Which of the item's images this is a version of
+  imageKey: string;
+  thumbnailKey?: string; // Only kept for versions of the first image
+  metadata: GenerationMetadata;
+  timestamp: number;
+}
+
+// Which version an image showed before a change, for undo/redo.
+export interface VersionChange {
+  imageIndex: number;
+  versionId: string;
+}
+
+export interface VersionUndoStack {
+  past: VersionChange[]; // Most recent last
+  future: VersionChange[]; // Steps undone, most recently undone last
 }
 
 export interface HistoryItem {
   id: string;
-  images: string[]; // base64 data URLs
+  imageKeys: string[]; // Keys of the images in historyStore (IndexedDB)
+  thumbnailKey?: string; // Preview of the first image, also in historyStore
   timestamp: number;
   metadata: GenerationMetadata;
   isFavorite?: boolean;
+  tags?: string[];
+  collectionIds?: string[];
+  notes?: string;
+  versions?: ImageVersion[]; // Missing until the item is first refined
+  updatedAt?: number; // Last change, so tabs keep the newer copy when they merge; missing until the first change
+  imageHashes?: Record<string, string>; // Perceptual hashes by image key, for duplicate detection
+}
+
+export interface TrashedHistoryItem {
+  item: HistoryItem;
+  deletedAt: number;
+}
+
+// A named group of history items, e.g. for a client or campaign. Items can be in several.
+export interface HistoryCollection {
+  id: string;
+  name: string;
+}
+
+// A named history search query (see services/historySearch for the syntax).
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
 }
 
 export interface AppState {
@@ -35,6 +123,14 @@ export interface AppState {
   isFetchingExamples: boolean;
   isMaskingModalOpen: boolean;
   error: string | null;
+  outputFormat: OutputFormat;
+  signMetadata: boolean;
+  watermarkImages: boolean;
+  exifPreservation: ExifPreservation;
+  evictionPolicy: EvictionPolicy;
+  embedTagsOnDownload: boolean;
+  duplicateThreshold: number; // Maximum differing hash bits for two images to count as duplicates
+  trashRetentionDays: number;
 
   // Generation Form State
   prompt: string;
@@ -45,10 +141,14 @@ export interface AppState {
   referenceImages: string[]; // data URLs
   useWebSearch: boolean;
   examplePrompts: string[];
+  videoPrompt: string;
+  videoResolution: VideoResolution;
+  videoAspectRatio: VideoAspectRatio;
   
   // Results State
   generatedImages: string[] | null;
   generatedVideoUrl: string | null;
+  generatedVideoMetadata: GenerationMetadata | null;
   selectedImageIndex: number;
   refinementPrompt: string;
   refinementCreativeStrength: CreativeStrength;
@@ -56,6 +156,9 @@ export interface AppState {
   
   // History State
   generationHistory: HistoryItem[];
+  collections: HistoryCollection[];
+  savedSearches: SavedSearch[];
+  trash: TrashedHistoryItem[]; // Newest deletion first
   activeHistoryId: string | null;
   activeBatchHistoryIds: string[] | null;
 
@@ -66,9 +169,10 @@ export interface AppState {
   isPromptValid: boolean;
   isEditingPrompt: boolean;
   isDescriptionGenerated: boolean;
+  signatureVerification: SignatureVerification | null;
 
-  // Undo State
-  undoState: { image: string; historyItem: HistoryItem; selectedImageIndex: number } | null;
+  // Undo State, per history item
+  versionUndoStacks: Record<string, VersionUndoStack>;
 }
 
 export const initialState: AppState = {
@@ -83,6 +187,14 @@ export const initialState: AppState = {
   isFetchingExamples: true,
   isMaskingModalOpen: false,
   error: null,
+  outputFormat: 'png',
+  signMetadata: false,
+  watermarkImages: false,
+  exifPreservation: { gps: false, camera: true, dateTime: true },
+  evictionPolicy: { maxItems: null, maxAgeDays: null, maxBytes: null, keepFavorites: true },
+  embedTagsOnDownload: false,
+  duplicateThreshold: DEFAULT_DUPLICATE_THRESHOLD,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
   prompt: "A majestic bioluminescent jellyfish floating in a dark, deep ocean, surrounded by sparkling plankton.",
   model: 'gemini-2.5-flash-image',
   promptMode: 'text',
@@ -91,13 +203,20 @@ export const initialState: AppState = {
   referenceImages: [],
   useWebSearch: false,
   examplePrompts: [],
+  videoPrompt: 'A cinematic shot of a futuristic city at sunset, with flying cars weaving through holographic advertisements.',
+  videoResolution: '720p',
+  videoAspectRatio: '16:9',
   generatedImages: null,
   generatedVideoUrl: null,
+  generatedVideoMetadata: null,
   selectedImageIndex: 0,
   refinementPrompt: '',
   refinementCreativeStrength: 'MEDIUM',
   refinementStyle: '',
   generationHistory: [],
+  collections: [],
+  savedSearches: [],
+  trash: [],
   activeHistoryId: null,
   activeBatchHistoryIds: null,
   extractedMetadata: null,
@@ -106,7 +225,8 @@ export const initialState: AppState = {
   isPromptValid: false,
   isEditingPrompt: false,
   isDescriptionGenerated: false,
-  undoState: null,
+  signatureVerification: null,
+  versionUndoStacks: {},
 };
 
 // --- ACTIONS ---
@@ -125,14 +245,16 @@ export type Action =
   | { type: 'START_GENERATION' }
   | { type: 'GENERATION_SUCCESS'; payload: { images: string[]; historyItem: HistoryItem } }
   | { type: 'BATCH_GENERATION_SUCCESS'; payload: { images: string[]; historyItems: HistoryItem[] } }
-  | { type: 'VIDEO_GENERATION_SUCCESS', payload: string }
+  | { type: 'VIDEO_GENERATION_SUCCESS', payload: { videoUrl: string; metadata: GenerationMetadata } }
   | { type: 'REFINEMENT_SUCCESS'; payload: { newImage: string; newHistoryItem: HistoryItem } }
   | { type: 'SET_SELECTED_IMAGE_INDEX'; payload: number }
-  | { type: 'SET_HISTORY_ITEM'; payload: HistoryItem }
+  | { type: 'SELECT_IMAGE_VERSION'; payload: { historyId: string; versionId: string; image: string; generatedImageIndex: number } }
+  | { type: 'SET_HISTORY_ITEM'; payload: { item: HistoryItem; images: string[] } }
   | { type: 'START_EXTRACTION' }
   | { type: 'EXTRACTION_RESULT'; payload: { dataUrl: string; metadata: GenerationMetadata | null; message: string; isValid: boolean } }
   | { type: 'DESCRIPTION_SUCCESS'; payload: { metadata: GenerationMetadata; message: string } }
   | { type: 'SET_EXTRACTED_METADATA'; payload: GenerationMetadata | null }
+  | { type: 'SET_SIGNATURE_VERIFICATION'; payload: SignatureVerification | null }
   | { type: 'SET_IS_EDITING_PROMPT'; payload: boolean }
   | { type: 'VALIDATE_EDITED_PROMPT' }
   | { type: 'TOGGLE_NIGHT_MODE' }
@@ -140,17 +262,41 @@ export type Action =
   | { type: 'OPEN_MASKING_MODAL' }
   | { type: 'CLOSE_MASKING_MODAL' }
   | { type: 'TOGGLE_FAVORITE'; payload: string }
+  | { type: 'EVICT_HISTORY_ITEMS'; payload: string[] }
+  | { type: 'SET_IMAGE_HASHES'; payload: { id: string; hashes: Record<string, string> } }
+  | { type: 'MERGE_HISTORY_ITEMS'; payload: { keepId: string; mergedIds: string[] }[] }
+  | { type: 'SYNC_FROM_OTHER_TAB'; payload: { remote: Partial<PersistedState>; removedIds: Set<string>; purgedIds: Set<string> } }
+  | { type: 'TRASH_HISTORY_ITEMS'; payload: string[] }
+  | { type: 'RESTORE_TRASHED_ITEMS'; payload: string[] }
+  | { type: 'PURGE_TRASHED_ITEMS'; payload: string[] }
+  | { type: 'SET_FAVORITES'; payload: { ids: string[]; isFavorite: boolean } }
+  | { type: 'IMPORT_HISTORY_ITEMS'; payload: { items: HistoryItem[]; collections: HistoryCollection[] } }
+  | { type: 'SET_HISTORY_THUMBNAIL'; payload: { id: string; thumbnailKey: string } }
+  | { type: 'SET_HISTORY_TAGS'; payload: { id: string; tags: string[] } }
+  | { type: 'SET_HISTORY_NOTES'; payload: { id: string; notes: string } }
+  | { type: 'TOGGLE_HISTORY_COLLECTION'; payload: { id: string; collectionId: string } }
+  | { type: 'CREATE_COLLECTION'; payload: HistoryCollection }
+  | { type: 'RENAME_COLLECTION'; payload: { id: string; name: string } }
+  | { type: 'DELETE_COLLECTION'; payload: string }
+  | { type: 'SAVE_SEARCH'; payload: SavedSearch }
+  | { type: 'DELETE_SAVED_SEARCH'; payload: string }
   | { type: 'SET_EXAMPLE_PROMPTS'; payload: { prompts: string[]; error?: string } }
-  | { type: 'SET_UNDO_STATE'; payload: { image: string; historyItem: HistoryItem; selectedImageIndex: number } | null }
-  | { type: 'EXECUTE_UNDO' };
+  | { type: 'STEP_VERSION_HISTORY'; payload: { historyId: string; direction: 'undo' | 'redo'; versionId: string; image: string; generatedImageIndex: number } };
 
 
 // --- REDUCER ---
 
+const withoutUndoStacks = (stacks: Record<string, VersionUndoStack>, ids: Set<string>): Record<string, VersionUndoStack> => (
+    Object.fromEntries(Object.entries(stacks).filter(([id]) => !ids.has(id)))
+);
+
+// Every reducer that changes an item stamps it, see mergeHistories.
+const touchItem = (item: HistoryItem): HistoryItem => ({ ...item, updatedAt: Date.now() });
+
 const appReducer = (state: AppState, action: Action): AppState => {
   switch (action.type) {
     case 'SET_VIEW':
-      return { ...state, view: action.payload, mobileView: 'form', error: null, generatedImages: null, generatedVideoUrl: null, undoState: null };
+      return { ...state, view: action.payload, mobileView: 'form', error: null, generatedImages: null, generatedVideoUrl: null, generatedVideoMetadata: null };
     case 'SET_MOBILE_VIEW':
       return { ...state, mobileView: action.payload };
     case 'TOGGLE_NIGHT_MODE':
@@ -172,7 +318,7 @@ const appReducer = (state: AppState, action: Action): AppState => {
     case 'SET_FORM_FIELD':
       return { ...state, [action.payload.field]: action.payload.value };
     case 'START_GENERATION':
-        return { ...state, isLoading: true, error: null, generatedImages: null, generatedVideoUrl: null, refinementPrompt: '', activeBatchHistoryIds: null, loadingMessage: null, undoState: null };
+        return { ...state, isLoading: true, error: null, generatedImages: null, generatedVideoUrl: null, generatedVideoMetadata: null, refinementPrompt: '', activeBatchHistoryIds: null, loadingMessage: null };
     case 'GENERATION_SUCCESS':
         return {
             ...state,
@@ -184,7 +330,6 @@ const appReducer = (state: AppState, action: Action): AppState => {
             useWebSearch: false,
             selectedImageIndex: 0,
             mobileView: 'results',
-            undoState: null,
         };
     case 'BATCH_GENERATION_SUCCESS':
         return {
@@ -198,13 +343,13 @@ const appReducer = (state: AppState, action: Action): AppState => {
             useWebSearch: false,
             selectedImageIndex: 0,
             mobileView: 'results',
-            undoState: null,
         };
      case 'VIDEO_GENERATION_SUCCESS':
         return {
             ...state,
             isLoading: false,
-            generatedVideoUrl: action.payload,
+            generatedVideoUrl: action.payload.videoUrl,
+            generatedVideoMetadata: action.payload.metadata,
             loadingMessage: null,
             mobileView: 'results',
         };
@@ -213,12 +358,24 @@ const appReducer = (state: AppState, action: Action): AppState => {
         const historyIdToUpdate = state.activeBatchHistoryIds
             ? state.activeBatchHistoryIds[state.selectedImageIndex]
             : state.activeHistoryId;
+        const refinedItem = state.generationHistory.find(item => item.id === historyIdToUpdate);
+        const imageIndex = state.activeBatchHistoryIds ? 0 : state.selectedImageIndex;
+        const previousVersion = refinedItem && getCurrentVersion(refinedItem, imageIndex);
+        // The refinement started from an older copy of the item, so only the new version is taken from it;
+        // tags or notes changed in the meantime, here or in another tab, are kept.
+        const newVersion = getCurrentVersion(newHistoryItem, imageIndex);
+        const applyRefinement = (item: HistoryItem): HistoryItem => touchItem(newVersion
+            ? { ...applyImageVersion(item, newVersion), imageHashes: { ...item.imageHashes, ...newHistoryItem.imageHashes } }
+            : { ...newHistoryItem, id: item.id });
             
         return {
             ...state,
             isRefining: false,
             generatedImages: state.generatedImages ? state.generatedImages.map((img, index) => index === state.selectedImageIndex ? newImage : img) : [newImage],
-            generationHistory: state.generationHistory.map(item => item.id === historyIdToUpdate ? { ...newHistoryItem, id: historyIdToUpdate } : item),
+            generationHistory: state.generationHistory.map(item => item.id === historyIdToUpdate ? applyRefinement(item) : item),
+            versionUndoStacks: historyIdToUpdate && previousVersion
+                ? { ...state.versionUndoStacks, [historyIdToUpdate]: recordVersionChange(state.versionUndoStacks[historyIdToUpdate], { imageIndex, versionId: previousVersion.id }) }
+                : state.versionUndoStacks,
             refinementPrompt: '',
             refinementStyle: '',
             refinementCreativeStrength: 'MEDIUM',
@@ -227,47 +384,219 @@ const appReducer = (state: AppState, action: Action): AppState => {
     }
     case 'SET_SELECTED_IMAGE_INDEX':
         return { ...state, selectedImageIndex: action.payload };
+    case 'SELECT_IMAGE_VERSION': {
+        const { historyId, versionId, image, generatedImageIndex } = action.payload;
+        const item = state.generationHistory.find(historyItem => historyItem.id === historyId);
+        const version = item && getImageVersions(item).find(candidate => candidate.id === versionId);
+        const previousVersion = item && version && getCurrentVersion(item, version.imageIndex);
+        return {
+            ...state,
+            generatedImages: state.generatedImages ? state.generatedImages.map((img, index) => index === generatedImageIndex ? image : img) : null,
+            generationHistory: state.generationHistory.map(historyItem => historyItem.id === historyId ? touchItem(selectImageVersion(historyItem, versionId)) : historyItem),
+            versionUndoStacks: previousVersion
+                ? { ...state.versionUndoStacks, [historyId]: recordVersionChange(state.versionUndoStacks[historyId], { imageIndex: previousVersion.imageIndex, versionId: previousVersion.id }) }
+                : state.versionUndoStacks,
+        };
+    }
     case 'SET_HISTORY_ITEM': {
-        const { metadata, images } = action.payload;
+        const { item: { id, metadata }, images } = action.payload;
         return {
             ...state,
             view: 'generate',
-            model: metadata.model,
+            model: metadata.model as ImageModel, // History only holds images
             aspectRatio: metadata.aspectRatio || '1:1',
             prompt: metadata.prompt,
             promptMode: metadata.promptMode || 'text',
             generatedImages: images,
             generatedVideoUrl: null,
-            activeHistoryId: action.payload.id,
+            generatedVideoMetadata: null,
+            activeHistoryId: id,
             activeBatchHistoryIds: null,
             numberOfImages: images.length,
             referenceImages: [],
             error: null,
             refinementPrompt: '',
             mobileView: 'results',
-            undoState: null,
         };
     }
     case 'START_EXTRACTION':
-        return { ...state, imagePreview: null, extractedMetadata: null, isPromptValid: false, isEditingPrompt: false, isDescriptionGenerated: false, extractionMessage: 'Processing image...' };
+        return { ...state, imagePreview: null, extractedMetadata: null, isPromptValid: false, isEditingPrompt: false, isDescriptionGenerated: false, signatureVerification: null, extractionMessage: 'Processing image...' };
     case 'EXTRACTION_RESULT':
         return { ...state, imagePreview: action.payload.dataUrl, extractedMetadata: action.payload.metadata, extractionMessage: action.payload.message, isPromptValid: action.payload.isValid, isDescriptionGenerated: false };
     case 'DESCRIPTION_SUCCESS':
         return { ...state, extractedMetadata: action.payload.metadata, isPromptValid: true, extractionMessage: action.payload.message, isEditingPrompt: false, isDescriptionGenerated: true };
     case 'SET_EXTRACTED_METADATA':
         return { ...state, extractedMetadata: action.payload };
+    case 'SET_SIGNATURE_VERIFICATION':
+        return { ...state, signatureVerification: action.payload };
     case 'SET_IS_EDITING_PROMPT':
         return { ...state, isEditingPrompt: action.payload };
-    case 'CLEAR_HISTORY':
+    case 'CLEAR_HISTORY': {
+        // Clearing moves everything to the trash, so it can still be undone.
+        const deletedAt = Date.now();
         return {
             ...state,
             generationHistory: [],
+            trash: [...state.generationHistory.map(item => ({ item, deletedAt })), ...state.trash],
             generatedImages: null,
             activeHistoryId: null,
             activeBatchHistoryIds: null,
             selectedImageIndex: 0,
-            undoState: null,
+            versionUndoStacks: {},
+        };
+    }
+    case 'TRASH_HISTORY_ITEMS': {
+        const trashIds = new Set(action.payload);
+        const deletedAt = Date.now();
+        return {
+            ...state,
+            generationHistory: state.generationHistory.filter(item => !trashIds.has(item.id)),
+            trash: [...state.generationHistory.filter(item => trashIds.has(item.id)).map(item => ({ item, deletedAt })), ...state.trash],
+            versionUndoStacks: withoutUndoStacks(state.versionUndoStacks, trashIds),
+        };
+    }
+    case 'RESTORE_TRASHED_ITEMS': {
+        // An item whose ID was taken again in the meantime (e.g. by an import) stays in the trash.
+        const existingIds = new Set(state.generationHistory.map(item => item.id));
+        const restoreIds = new Set(action.payload.filter(id => !existingIds.has(id)));
+        return {
+            ...state,
+            generationHistory: [...state.generationHistory, ...state.trash.filter(entry => restoreIds.has(entry.item.id)).map(entry => entry.item)]
+                .sort((a, b) => b.timestamp - a.timestamp),
+            trash: state.trash.filter(entry => !restoreIds.has(entry.item.id)),
+        };
+    }
+    case 'PURGE_TRASHED_ITEMS': {
+        const purgeIds = new Set(action.payload);
+        return { ...state, trash: state.trash.filter(entry => !purgeIds.has(entry.item.id)) };
+    }
+    case 'SET_FAVORITES': {
+        const ids = new Set(action.payload.ids);
+        return {
+            ...state,
+            generationHistory: state.generationHistory.map(item =>
+                ids.has(item.id) && !!item.isFavorite !== action.payload.isFavorite ? touchItem({ ...item, isFavorite: action.payload.isFavorite }) : item
+            ),
+        };
+    }
+    case 'EVICT_HISTORY_ITEMS': {
+        const evictIds = new Set(action.payload);
+        return {
+            ...state,
+            generationHistory: state.generationHistory.filter(item => !evictIds.has(item.id)),
+            versionUndoStacks: withoutUndoStacks(state.versionUndoStacks, evictIds),
+        };
+    }
+    case 'IMPORT_HISTORY_ITEMS': {
+        const existingIds = new Set([...state.generationHistory, ...state.trash.map(({ item }) => item)].map(item => item.id));
+        const importedItems = action.payload.items.filter(item => !existingIds.has(item.id));
+        const existingCollectionIds = new Set(state.collections.map(collection => collection.id));
+        return {
+            ...state,
+            generationHistory: [...state.generationHistory, ...importedItems].sort((a, b) => b.timestamp - a.timestamp),
+            collections: [...state.collections, ...action.payload.collections.filter(collection => !existingCollectionIds.has(collection.id))],
+        };
+    }
+    case 'SET_IMAGE_HASHES':
+        return {
+            ...state,
+            generationHistory: state.generationHistory.map(item =>
+                item.id === action.payload.id ? touchItem({ ...item, imageHashes: { ...item.imageHashes, ...action.payload.hashes } }) : item
+            ),
+        };
+    case 'MERGE_HISTORY_ITEMS': {
+        const itemsById = new Map(state.generationHistory.map(item => [item.id, item]));
+        const mergedIds = new Set(action.payload.flatMap(merge => merge.mergedIds));
+        const keptItems = new Map(action.payload.flatMap(({ keepId, mergedIds }) => {
+            const kept = itemsById.get(keepId);
+            return kept ? [[keepId, touchItem(mergeHistoryItems(kept, mergedIds.flatMap(id => itemsById.get(id) ?? [])))] as const] : [];
+        }));
+        // The merged-away items go to the trash, so a merge can be undone by restoring them.
+        const deletedAt = Date.now();
+        return {
+            ...state,
+            generationHistory: state.generationHistory.filter(item => !mergedIds.has(item.id)).map(item => keptItems.get(item.id) ?? item),
+            trash: [...state.generationHistory.filter(item => mergedIds.has(item.id)).map(item => ({ item, deletedAt })), ...state.trash],
+            versionUndoStacks: withoutUndoStacks(state.versionUndoStacks, mergedIds),
+        };
+    }
+    case 'SYNC_FROM_OTHER_TAB': {
+        const { remote, removedIds, purgedIds } = action.payload;
+        const generationHistory = Array.isArray(remote.generationHistory)
+            ? mergeHistories(state.generationHistory, remote.generationHistory, removedIds)
+            : state.generationHistory;
+        const trash = mergeTrash(state.trash, Array.isArray(remote.trash) ? remote.trash : [], new Set(generationHistory.map(item => item.id)), purgedIds);
+        const settings = Object.fromEntries(SYNCED_SETTINGS.flatMap(key =>
+            remote[key] !== undefined && JSON.stringify(remote[key]) !== JSON.stringify(state[key]) ? [[key, remote[key]]] : []
+        ));
+        // Returning the same state when nothing changed keeps the tabs from echoing saves forever.
+        if (generationHistory === state.generationHistory && trash === state.trash && Object.keys(settings).length === 0) return state;
+        return { ...state, ...settings, generationHistory, trash };
+    }
+    case 'SET_HISTORY_THUMBNAIL':
+        return {
+            ...state,
+            generationHistory: state.generationHistory.map(item =>
+                item.id === action.payload.id ? touchItem({ ...item, thumbnailKey: action.payload.thumbnailKey }) : item
+            ),
+        };
+    case 'SET_HISTORY_TAGS':
+        return {
+            ...state,
+            generationHistory: state.generationHistory.map(item =>
+                item.id === action.payload.id ? touchItem({ ...item, tags: normalizeTags(action.payload.tags) }) : item
+            ),
+        };
+    case 'SET_HISTORY_NOTES':
+        return {
+            ...state,
+            generationHistory: state.generationHistory.map(item =>
+                item.id === action.payload.id ? touchItem({ ...item, notes: action.payload.notes }) : item
+            ),
+        };
+    case 'TOGGLE_HISTORY_COLLECTION': {
+        const { id, collectionId } = action.payload;
+        return {
+            ...state,
+            generationHistory: state.generationHistory.map(item => {
+                if (item.id !== id) return item;
+                const collectionIds = item.collectionIds ?? [];
+                return touchItem({
+                    ...item,
+                    collectionIds: collectionIds.includes(collectionId)
+                        ? collectionIds.filter(existingId => existingId !== collectionId)
+                        : [...collectionIds, collectionId],
+                });
+            }),
+        };
+    }
+    case 'CREATE_COLLECTION':
+        return { ...state, collections: [...state.collections, action.payload] };
+    case 'RENAME_COLLECTION':
+        return {
+            ...state,
+            collections: state.collections.map(collection =>
+                collection.id === action.payload.id ? { ...collection, name: action.payload.name } : collection
+            ),
+        };
+    case 'DELETE_COLLECTION':
+        // Items stay in the history; only their membership is removed.
+        return {
+            ...state,
+            collections: state.collections.filter(collection => collection.id !== action.payload),
+            generationHistory: state.generationHistory.map(item =>
+                item.collectionIds?.includes(action.payload)
+                    ? touchItem({ ...item, collectionIds: item.collectionIds.filter(id => id !== action.payload) })
+                    : item
+            ),
         };
+    case 'SAVE_SEARCH': {
+        // Saving under an existing name replaces that search.
+        const name = action.payload.name.toLowerCase();
+        return { ...state, savedSearches: [...state.savedSearches.filter(search => search.name.toLowerCase() !== name), action.payload] };
+    }
+    case 'DELETE_SAVED_SEARCH':
+        return { ...state, savedSearches: state.savedSearches.filter(search => search.id !== action.payload) };
     case 'OPEN_MASKING_MODAL':
       return { ...state, isMaskingModalOpen: true };
     case 'CLOSE_MASKING_MODAL':
@@ -277,7 +606,7 @@ const appReducer = (state: AppState, action: Action): AppState => {
         ...state,
         generationHistory: state.generationHistory.map(item =>
           item.id === action.payload
-            ? { ...item, isFavorite: !item.isFavorite }
+            ? touchItem({ ...item, isFavorite: !item.isFavorite })
             : item
         ),
       };
@@ -313,31 +642,18 @@ const appReducer = (state: AppState, action: Action): AppState => {
             error: error ? (state.error ? `${state.error}\n${error}` : error) : state.error,
         };
     }
-    case 'SET_UNDO_STATE':
-        return { ...state, undoState: action.payload };
-    case 'EXECUTE_UNDO': {
-        if (!state.undoState) return state;
-
-        const { image, historyItem, selectedImageIndex } = state.undoState;
-
-        const newGeneratedImages = [...(state.generatedImages || [])];
-        if (newGeneratedImages[selectedImageIndex]) {
-            newGeneratedImages[selectedImageIndex] = image;
-        }
-
-        const newGenerationHistory = state.generationHistory.map(item =>
-            item.id === historyItem.id ? historyItem : item
-        );
-
+    case 'STEP_VERSION_HISTORY': {
+        const { historyId, direction, versionId, image, generatedImageIndex } = action.payload;
+        const item = state.generationHistory.find(historyItem => historyItem.id === historyId);
+        const step = item && stepVersionHistory(item, state.versionUndoStacks[historyId], direction);
+        // The image was loaded for this step; ignore it if the stack changed in the meantime.
+        if (!step || step.change.versionId !== versionId) return state;
         return {
             ...state,
-            generatedImages: newGeneratedImages,
-            generationHistory: newGenerationHistory,
-            undoState: null, // Clear undo state after using it
+            generatedImages: state.generatedImages ? state.generatedImages.map((img, index) => index === generatedImageIndex ? image : img) : null,
+            generationHistory: state.generationHistory.map(historyItem => historyItem.id === historyId ? touchItem(selectImageVersion(historyItem, versionId)) : historyItem),
+            versionUndoStacks: { ...state.versionUndoStacks, [historyId]: step.stack },
             error: null,
-            refinementPrompt: '',
-            refinementStyle: '',
-            refinementCreativeStrength: 'MEDIUM',
         };
     }
     default:
@@ -352,6 +668,16 @@ const LOCALSTORAGE_KEY = 'gemini-exif-app-state';
 type PersistedState = Pick<
   AppState,
   | 'isNightMode'
+  | 'outputFormat'
+  | 'signMetadata'
+  | 'watermarkImages'
+  | 'exifPreservation'
+  | 'evictionPolicy'
+  | 'embedTagsOnDownload'
+  | 'duplicateThreshold'
+  | 'trashRetentionDays'
+  | 'collections'
+  | 'savedSearches'
   | 'prompt'
   | 'model'
   | 'promptMode'
@@ -359,12 +685,39 @@ type PersistedState = Pick<
   | 'numberOfImages'
   | 'useWebSearch'
   | 'generationHistory'
+  | 'versionUndoStacks'
+  | 'trash'
 >;
 
+// Persisted fields other tabs take over. The generation form (prompt, model, ...) stays per tab.
+const SYNCED_SETTINGS = [
+  'isNightMode',
+  'outputFormat',
+  'signMetadata',
+  'watermarkImages',
+  'exifPreservation',
+  'evictionPolicy',
+  'embedTagsOnDownload',
+  'duplicateThreshold',
+  'trashRetentionDays',
+  'collections',
+  'savedSearches',
+] as const satisfies readonly (keyof PersistedState)[];
+
 const saveStateToLocalStorage = (state: AppState) => {
   try {
     const stateToPersist: PersistedState = {
         isNightMode: state.isNightMode,
+        outputFormat: state.outputFormat,
+        signMetadata: state.signMetadata,
+        watermarkImages: state.watermarkImages,
+        exifPreservation: state.exifPreservation,
+        evictionPolicy: state.evictionPolicy,
+        embedTagsOnDownload: state.embedTagsOnDownload,
+        duplicateThreshold: state.duplicateThreshold,
+        trashRetentionDays: state.trashRetentionDays,
+        collections: state.collections,
+        savedSearches: state.savedSearches,
         prompt: state.prompt,
         model: state.model,
         promptMode: state.promptMode,
@@ -372,6 +725,8 @@ const saveStateToLocalStorage = (state: AppState) => {
         numberOfImages: state.numberOfImages,
         useWebSearch: state.useWebSearch,
         generationHistory: state.generationHistory,
+        versionUndoStacks: state.versionUndoStacks,
+        trash: state.trash,
     };
     const serializedState = JSON.stringify(stateToPersist);
     localStorage.setItem(LOCALSTORAGE_KEY, serializedState);
@@ -380,20 +735,41 @@ const saveStateToLocalStorage = (state: AppState) => {
   }
 };
 
-const loadStateFromLocalStorage = (): Partial<AppState> | undefined => {
+// Versions before the IndexedDB history store kept each item's images inline as data URLs.
+type LegacyHistoryItem = Omit<HistoryItem, 'imageKeys'> & { imageKeys?: string[]; images?: string[] };
+
+interface LoadedState {
+  persistedState?: Partial<AppState>;
+  // Inline images still to be copied into the history store, by their new key.
+  legacyImages: Record<string, string> | null;
+}
+
+const loadStateFromLocalStorage = (): LoadedState => {
   try {
     const serializedState = localStorage.getItem(LOCALSTORAGE_KEY);
     if (serializedState === null) {
-      return undefined;
+      return { legacyImages: null };
     }
     const parsed = JSON.parse(serializedState);
 
-    // Ensure history items have the isFavorite property for backward compatibility
+    // Ensure history items have the isFavorite property and current metadata schema for backward compatibility
+    const legacyImages: Record<string, string> = {};
     if (parsed.generationHistory && Array.isArray(parsed.generationHistory)) {
-        parsed.generationHistory = parsed.generationHistory.map((item: HistoryItem) => ({
-            ...item,
-            isFavorite: item.isFavorite || false,
-        }));
+        parsed.generationHistory = parsed.generationHistory.map(({ images, imageKeys, ...item }: LegacyHistoryItem): HistoryItem => {
+            if (!imageKeys) {
+                imageKeys = (images ?? []).map((image, index) => {
+                    const key = legacyImageKey(item.id, index);
+                    legacyImages[key] = image;
+                    return key;
+                });
+            }
+            return {
+                ...item,
+                imageKeys,
+                metadata: migrateMetadata(item.metadata).metadata || item.metadata,
+                isFavorite: item.isFavorite || false,
+            };
+        });
     }
 
     // Don't persist results across reloads
@@ -403,10 +779,10 @@ const loadStateFromLocalStorage = (): Partial<AppState> | undefined => {
     delete parsed.activeBatchHistoryIds;
     delete parsed.selectedImageIndex;
     delete parsed.refinementPrompt;
-    return parsed;
+    return { persistedState: parsed, legacyImages: Object.keys(legacyImages).length > 0 ? legacyImages : null };
   } catch (error) {
     console.warn('Could not load state from localStorage', error);
-    return undefined;
+    return { legacyImages: null };
   }
 };
 
@@ -423,12 +799,101 @@ export const AppContext = createContext<AppContextType>({
 });
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const persistedState = loadStateFromLocalStorage();
+  const [{ persistedState, legacyImages }] = useState(loadStateFromLocalStorage);
   const [state, dispatch] = useReducer(appReducer, { ...initialState, ...persistedState });
+  // Saving would drop the inline images from localStorage, so it waits until they are copied over.
+  const [isMigratingHistory, setIsMigratingHistory] = useState(legacyImages !== null);
+
+  useEffect(() => {
+    const migration = legacyImages ? migrateLegacyHistoryImages(legacyImages) : Promise.resolve();
+    migration
+      .then(() => {
+        setIsMigratingHistory(false);
+        // Clean up images left behind by refinements and deleted items in earlier sessions. Another
+        // tab may be saving images it hasn't written to localStorage yet, so only a lone tab does this.
+        const referencedItems = [...(persistedState?.generationHistory ?? []), ...(persistedState?.trash ?? []).map(entry => entry.item)];
+        const referencedKeys = new Set<string>(referencedItems.flatMap(getHistoryItemStorageKeys));
+        isAnotherTabOpen()
+          .then(isShared => isShared ? undefined : deleteUnreferencedHistoryImages(referencedKeys))
+          .catch(error => console.warn('Could not clean up history images', error));
+      })
+      .catch(error => {
+        // Keep the old state (and its images) in localStorage rather than losing history.
+        console.warn('Could not move history images to IndexedDB; changes this session will not be saved.', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isMigratingHistory) {
+      saveStateToLocalStorage(state);
+    }
+  }, [state, isMigratingHistory]);
+
+  // --- Cross-tab sync (see services/tabSync) ---
+  // IDs removed from the history or purged from the trash on purpose in any tab, so merging another
+  // tab's older save doesn't bring them back.
+  const removedIdsRef = useRef(new Set<string>());
+  const purgedIdsRef = useRef(new Set<string>());
+  const channelRef = useRef<ReturnType<typeof openTabChannel> | null>(null);
+
+  useEffect(() => {
+    const syncFromStorage = (serializedState: string | null) => {
+      if (!serializedState) return;
+      try {
+        const remote = JSON.parse(serializedState) as Partial<PersistedState>;
+        dispatch({ type: 'SYNC_FROM_OTHER_TAB', payload: { remote, removedIds: removedIdsRef.current, purgedIds: purgedIdsRef.current } });
+      } catch (error) {
+        console.warn('Could not read the state saved by another tab', error);
+      }
+    };
+
+    const channel = openTabChannel(message => {
+      if (message.type === 'history-removed') {
+        message.ids.forEach(id => removedIdsRef.current.add(id));
+        dispatch({ type: 'EVICT_HISTORY_ITEMS', payload: message.ids });
+      } else if (message.type === 'history-restored') {
+        // The other tab's save may have been merged (without these items) before this message came.
+        message.ids.forEach(id => removedIdsRef.current.delete(id));
+        syncFromStorage(localStorage.getItem(LOCALSTORAGE_KEY));
+      } else if (message.type === 'trash-purged') {
+        message.ids.forEach(id => purgedIdsRef.current.add(id));
+        dispatch({ type: 'PURGE_TRASHED_ITEMS', payload: message.ids });
+      }
+    });
+    channelRef.current = channel;
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === LOCALSTORAGE_KEY) syncFromStorage(e.newValue);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
 
+  // Announce items removed, restored or purged in this tab to the other tabs.
+  const previousRef = useRef({ history: state.generationHistory, trash: state.trash });
   useEffect(() => {
-    saveStateToLocalStorage(state);
-  }, [state]);
+    const historyIds = new Set(state.generationHistory.map(item => item.id));
+    const trashIds = new Set(state.trash.map(entry => entry.item.id));
+    const previous = previousRef.current;
+    previousRef.current = { history: state.generationHistory, trash: state.trash };
+
+    const removedIds = previous.history.map(item => item.id).filter(id => !historyIds.has(id) && !removedIdsRef.current.has(id));
+    // Items back in the history, e.g. restored from the trash or imported again, must sync like any other.
+    const restoredIds = Array.from(removedIdsRef.current).filter(id => historyIds.has(id));
+    const purgedIds = previous.trash.map(entry => entry.item.id)
+      .filter(id => !trashIds.has(id) && !historyIds.has(id) && !purgedIdsRef.current.has(id));
+
+    removedIds.forEach(id => removedIdsRef.current.add(id));
+    restoredIds.forEach(id => removedIdsRef.current.delete(id));
+    purgedIds.forEach(id => purgedIdsRef.current.add(id));
+    if (removedIds.length > 0) channelRef.current?.post({ type: 'history-removed', ids: removedIds });
+    if (restoredIds.length > 0) channelRef.current?.post({ type: 'history-restored', ids: restoredIds });
+    if (purgedIds.length > 0) channelRef.current?.post({ type: 'trash-purged', ids: purgedIds });
+  }, [state.generationHistory, state.trash]);
 
   return (
     <AppContext.Provider value={{ state, dispatch }}>
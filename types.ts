@@ -1,6 +1,23 @@
 export type View = 'generate' | 'extract' | 'video';
 export type ImageModel = 'gemini-2.5-flash-image' | 'imagen-4.0-generate-001';
+export type VideoModel = 'veo-3.1-fast-generate-preview';
 export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
 export type VideoResolution = '720p' | '1080p';
 export type VideoAspectRatio = '16:9' | '9:16';
 export type CreativeStrength = 'LOW' | 'MEDIUM' | 'HIGH';
+export type OutputFormat = 'png' | 'jpeg' | 'webp';
+
+// Which groups of an uploaded photo's own EXIF survive when metadata is embedded into it.
+export interface ExifPreservation {
+    gps: boolean;
+    camera: boolean;
+    dateTime: boolean;
+}
+
+// Limits applied to the generation history after each generation; null means no limit.
+export interface EvictionPolicy {
+    maxItems: number | null;
+    maxAgeDays: number | null;
+    maxBytes: number | null;
+    keepFavorites: boolean;
+}